@@ -0,0 +1,159 @@
+// Local stand-in for the SimpleSwap API, for trying out quotes and exchanges
+// without touching real funds:
+//
+//   node scripts/fake-simpleswap.mjs          # listens on :4020
+//   PORT=4021 STEP_MS=5000 node scripts/fake-simpleswap.mjs
+//
+// Run the app with SIMPLESWAP_API_URL=http://localhost:4020 and any
+// SIMPLESWAP_API_KEY. Exchanges walk waiting → confirming → exchanging →
+// sending → finished, one step every STEP_MS; a destination address
+// containing "fail" ends in failed, one containing "invalid" is rejected.
+import { randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 4020);
+const stepMs = Number(process.env.STEP_MS ?? 15000);
+
+/** USD per unit; stablecoins trade at par. */
+const PRICES = { tfuel: 0.05, theta: 1.2 };
+const MIN_AMOUNT = { tfuel: 500, theta: 20 };
+const FLOATING_FEE = 0.005;
+const FIXED_FEE = 0.02;
+
+const CURRENCIES = [
+  { symbol: "tfuel", name: "Theta Fuel", network: "THETA" },
+  { symbol: "theta", name: "Theta Network", network: "THETA" },
+  { symbol: "usdcspl", name: "USD Coin", network: "SOL" },
+  { symbol: "usdc", name: "USD Coin", network: "ETH" },
+  { symbol: "usdcpoly", name: "USD Coin", network: "MATIC" },
+  { symbol: "usdcarb", name: "USD Coin", network: "ARBITRUM" },
+  { symbol: "usdcbase", name: "USD Coin", network: "BASE" },
+  { symbol: "usdcbsc", name: "USD Coin", network: "BSC" },
+  { symbol: "usdterc20", name: "Tether", network: "ETH" },
+  { symbol: "usdttrc20", name: "Tether", network: "TRX" },
+  { symbol: "usdtbsc", name: "Tether", network: "BSC" },
+];
+
+const STEPS = ["waiting", "confirming", "exchanging", "sending", "finished"];
+
+const exchanges = new Map();
+
+function fakeHash() {
+  return `0x${randomBytes(32).toString("hex")}`;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function badRequest(res, description) {
+  send(res, 400, { code: 400, error: "Bad Request", description });
+}
+
+/** Error message or estimate for swapping `amount` of `from` into `to`. */
+function estimate(from, to, amount, fixed) {
+  const price = PRICES[from];
+  if (price == null || !CURRENCIES.some((c) => c.symbol === to)) {
+    return { error: `Pair ${from}-${to} is not supported` };
+  }
+  if (!(amount >= MIN_AMOUNT[from])) {
+    return { error: `Amount does not fall within the range. Min: ${MIN_AMOUNT[from]}` };
+  }
+  const fee = fixed ? FIXED_FEE : FLOATING_FEE;
+  return { value: Math.floor(amount * price * (1 - fee) * 1e6) / 1e6 };
+}
+
+/** The exchange as SimpleSwap would report it right now. */
+function view(ex) {
+  const step = Math.min(STEPS.length - 1, Math.floor((Date.now() - ex.createdAt) / stepMs));
+  let status = STEPS[step];
+  if (ex.address_to.includes("fail") && step >= 3) status = "failed";
+
+  const now = new Date().toISOString();
+  return {
+    ...ex,
+    createdAt: undefined,
+    status,
+    updated_at: now,
+    tx_from: step >= 1 ? ex.tx_from : null,
+    tx_to: status === "finished" ? ex.tx_to : null,
+    amount_to: status === "finished" ? ex.expected_amount : null,
+  };
+}
+
+async function readJson(req) {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+  console.log(`${new Date().toISOString()} ${req.method} ${url.pathname}${url.search}`);
+
+  if (!url.searchParams.get("api_key")) {
+    return send(res, 401, { code: 401, error: "Unauthorized", description: "Missing api_key" });
+  }
+
+  if (req.method === "GET" && url.pathname === "/get_all_currencies") {
+    return send(res, 200, CURRENCIES);
+  }
+
+  if (req.method === "GET" && url.pathname === "/get_estimated") {
+    const r = estimate(
+      url.searchParams.get("currency_from"),
+      url.searchParams.get("currency_to"),
+      Number(url.searchParams.get("amount")),
+      url.searchParams.get("fixed") === "true",
+    );
+    return r.error ? badRequest(res, r.error) : send(res, 200, String(r.value));
+  }
+
+  if (req.method === "POST" && url.pathname === "/create_exchange") {
+    const body = await readJson(req);
+    if (!body) return badRequest(res, "Invalid JSON");
+    const addressTo = String(body.address_to ?? "");
+    if (!addressTo || addressTo.includes("invalid")) {
+      return badRequest(res, "Invalid address_to");
+    }
+    const amount = Number(body.amount);
+    const r = estimate(body.currency_from, body.currency_to, amount, body.fixed === true);
+    if (r.error) return badRequest(res, r.error);
+
+    const id = randomBytes(6).toString("hex");
+    const ex = {
+      id,
+      type: body.fixed === true ? "fixed" : "float",
+      timestamp: new Date().toISOString(),
+      currency_from: body.currency_from,
+      currency_to: body.currency_to,
+      amount_from: String(amount),
+      expected_amount: String(r.value),
+      address_from: `fake-deposit-${id}`,
+      extra_id_from: null,
+      address_to: addressTo,
+      user_refund_address: body.user_refund_address || null,
+      tx_from: fakeHash(),
+      tx_to: fakeHash(),
+      createdAt: Date.now(),
+    };
+    exchanges.set(id, ex);
+    return send(res, 200, view(ex));
+  }
+
+  if (req.method === "GET" && url.pathname === "/get_exchange") {
+    const ex = exchanges.get(url.searchParams.get("id"));
+    return ex
+      ? send(res, 200, view(ex))
+      : send(res, 404, { code: 404, error: "Not Found", description: "Exchange not found" });
+  }
+
+  send(res, 404, { code: 404, error: "Not Found", description: url.pathname });
+}).listen(port, () => {
+  console.log(`Fake SimpleSwap listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,34 @@
+// Local webhook receiver for trying out alert deliveries:
+//
+//   node scripts/webhook-sink.mjs            # listens on :4010
+//   PORT=4011 FAIL_FIRST=2 node scripts/webhook-sink.mjs
+//
+// Point a webhook at http://localhost:4010/ and every POST body is printed.
+// FAIL_FIRST answers the first N requests with 500 to exercise retries.
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 4010);
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    const fail = failuresLeft > 0;
+    if (fail) failuresLeft--;
+
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url} -> ${fail ? 500 : 204}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    res.writeHead(fail ? 500 : 204);
+    res.end(fail ? "sink: simulated failure" : undefined);
+  });
+}).listen(port, () => {
+  console.log(`Webhook sink listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { deleteAlert, getAlert, parseAlertInput, upsertAlert } from "@/lib/alertStore";
+
+const noStore = { "cache-control": "no-store" };
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const alert = getAlert(id);
+  if (!alert) {
+    return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStore });
+  }
+  return NextResponse.json({ alert }, { headers: noStore });
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+
+  const input = parseAlertInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid alert" }, { status: 400, headers: noStore });
+  }
+
+  const alert = upsertAlert({ id, ...input });
+  return NextResponse.json({ alert }, { headers: noStore });
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  if (!deleteAlert(id)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStore });
+  }
+  return NextResponse.json({ ok: true }, { headers: noStore });
+}
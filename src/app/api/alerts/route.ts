@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+
+import { listAlerts } from "@/lib/alertStore";
+
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const kind = searchParams.get("kind") || undefined;
+  return NextResponse.json(
+    { alerts: listAlerts(kind) },
+    { headers: { "cache-control": "no-store" } },
+  );
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+
+import { runAlertRules } from "@/lib/alertRules";
+
+/** Runs the webhook alert check now instead of waiting for the scheduler. */
+export async function POST() {
+  const result = await runAlertRules();
+  return NextResponse.json(
+    { ...result, checkedAt: Date.now() },
+    { headers: { "cache-control": "no-store" } },
+  );
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { errorMessage } from "@/lib/http";
+import { isThetaSwapConfigured, parseDexToken, quoteThetaSwap } from "@/lib/thetaSwap";
+
+/** ThetaSwap pool quote between TFUEL, TDROP and USDC on Theta. */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const from = parseDexToken(searchParams.get("from"));
+  const to = parseDexToken(searchParams.get("to") ?? "usdc");
+  const amount = Number((searchParams.get("amount") ?? "").trim());
+
+  if (!from || !to || from === to) {
+    return NextResponse.json({ error: "Invalid pair" }, { status: 400 });
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
+  }
+  if (!isThetaSwapConfigured()) {
+    return NextResponse.json(
+      { error: "Missing THETASWAP_FACTORY or THETA_USDC_ADDRESS" },
+      { status: 500 },
+    );
+  }
+
+  try {
+    const quote = await quoteThetaSwap(from, to, amount);
+    if (!quote) {
+      return NextResponse.json({ error: "No ThetaSwap pools connect the pair" }, { status: 404 });
+    }
+    return NextResponse.json({ quote, fetchedAt: Date.now() });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e) }, { status: 502 });
+  }
+}
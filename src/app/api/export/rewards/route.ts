@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, toAddressList } from "@/lib/address";
+import { parseFiatCurrency } from "@/lib/currency";
+import { errorMessage } from "@/lib/http";
+import { syncRewardLedger } from "@/lib/rewardLedger";
+import { valueRewards } from "@/lib/rewardValuation";
+import { buildTaxExport, parseTaxExportFormat } from "@/lib/taxExport";
+
+const noStore = { "cache-control": "no-store" };
+
+/** `YYYY-MM-DD` as UTC midnight, in unix seconds. */
+function parseDay(raw: string | null): number | null {
+  if (!raw || !/^\d{4}-\d{2}-\d{2}$/.test(raw)) return null;
+  const ms = Date.parse(`${raw}T00:00:00Z`);
+  return Number.isFinite(ms) ? ms / 1000 : null;
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const addresses = toAddressList(searchParams.get("addresses") ?? "");
+  const format = parseTaxExportFormat(searchParams.get("format"));
+  const currency = parseFiatCurrency(searchParams.get("currency") ?? "USD");
+
+  const year = new Date().getUTCFullYear();
+  const fromRaw = searchParams.get("from") ?? `${year}-01-01`;
+  const toRaw = searchParams.get("to") ?? `${year}-12-31`;
+  const fromSec = parseDay(fromRaw);
+  const toDaySec = parseDay(toRaw);
+
+  if (addresses.length === 0) {
+    return NextResponse.json({ error: "Missing addresses" }, { status: 400, headers: noStore });
+  }
+  if (!addresses.every(isHexAddress)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400, headers: noStore });
+  }
+  if (!format) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400, headers: noStore });
+  }
+  if (!currency) {
+    return NextResponse.json({ error: "Invalid currency" }, { status: 400, headers: noStore });
+  }
+  if (fromSec == null || toDaySec == null || toDaySec < fromSec) {
+    return NextResponse.json({ error: "Invalid date range" }, { status: 400, headers: noStore });
+  }
+  // `to` is inclusive.
+  const toSec = toDaySec + 24 * 60 * 60;
+
+  const ledgers = await Promise.all(addresses.map((a) => syncRewardLedger(a, 200)));
+
+  // A partial ledger would silently under-report income, so refuse instead.
+  const syncing = ledgers.filter((l) => !l.complete).map((l) => l.address);
+  if (syncing.length > 0) {
+    return NextResponse.json(
+      {
+        error: `Reward history is still syncing for ${syncing.join(", ")}; try again shortly`,
+        complete: false,
+      },
+      { status: 409, headers: noStore },
+    );
+  }
+
+  const rewards = ledgers.flatMap((l) =>
+    l.rewards
+      .filter((r) => r.timestamp >= fromSec && r.timestamp < toSec)
+      .map((r) => ({ ...r, address: l.address })),
+  );
+
+  try {
+    const valuation = await valueRewards(rewards, currency);
+    const csv = buildTaxExport(format, valuation.rewards, currency);
+    const filename = `theta-staking-income_${fromRaw}_${toRaw}_${format}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        ...noStore,
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: `Could not price rewards: ${errorMessage(e)}` },
+      { status: 502, headers: noStore },
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { quoteDepthCurve, SPOT_FALLBACK_ERROR, type DepthRung } from "@/lib/networkFees";
+import { parseFeeTarget } from "@/lib/stableNetworks";
+
+// A ladder is several SimpleSwap calls per rung; the rate doesn't move that fast.
+const CACHE_TTL_MS = 5 * 60_000;
+const responseCache = new Map<string, { ts: number; payload: unknown }>();
+
+const DEFAULT_RUNGS = 4;
+const MAX_RUNGS = 6;
+
+/**
+ * Effective price and implied fee for `amount` × 1, 10, 100, … of `symbol`
+ * into one destination (`to`, default `usdc-sol`).
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const symbol = (searchParams.get("symbol") ?? "").trim().toLowerCase();
+  const amountRaw = (searchParams.get("amount") ?? "").trim();
+  const amount = amountRaw ? Number(amountRaw) : 100;
+  const to = parseFeeTarget(searchParams.get("to") ?? "usdc-sol");
+  const rungsRaw = (searchParams.get("rungs") ?? "").trim();
+  const rungs = rungsRaw ? Number(rungsRaw) : DEFAULT_RUNGS;
+
+  if (!symbol) {
+    return NextResponse.json({ error: "Missing symbol" }, { status: 400 });
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
+  }
+  if (!to) {
+    return NextResponse.json({ error: "Unsupported network" }, { status: 400 });
+  }
+  if (!Number.isInteger(rungs) || rungs < 2 || rungs > MAX_RUNGS) {
+    return NextResponse.json({ error: `rungs must be 2 to ${MAX_RUNGS}` }, { status: 400 });
+  }
+
+  const cacheKey = `${symbol}|${to}|${amount}|${rungs}`;
+  const cached = responseCache.get(cacheKey);
+  if (cached && Date.now() - cached.ts < CACHE_TTL_MS) {
+    return NextResponse.json(cached.payload);
+  }
+
+  const { spotUsdc, curves } = await quoteDepthCurve(symbol, amount, to, rungs);
+  const payload = { symbol, baseAmount: amount, to, spotUsdc, curves, fetchedAt: Date.now() };
+  // Rungs under a minimum always fail, so only skip caching when nothing quoted.
+  // Without a key SimpleSwap rungs are spot × amount, a flat curve that isn't a quote.
+  const quoted = (r: DepthRung) => r.estimatedUsdc != null && r.error !== SPOT_FALLBACK_ERROR;
+  if (curves.some((c) => c.rungs.some(quoted))) {
+    responseCache.set(cacheKey, { ts: payload.fetchedAt, payload });
+  }
+  return NextResponse.json(payload);
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { getFeeSamples, type FeeSample } from "@/lib/feeSampleStore";
+import { parseFeeTarget } from "@/lib/stableNetworks";
+
+const noStore = { "cache-control": "no-store" };
+
+const DEFAULT_WINDOW_MS = 30 * 24 * 60 * 60_000;
+
+/** Where the latest implied fee sits in the series' history. */
+function feeStats(samples: FeeSample[]) {
+  const fees = samples.flatMap((s) => (s.impliedFeePct == null ? [] : [s.impliedFeePct]));
+  if (fees.length === 0) return null;
+
+  const sorted = [...fees].sort((a, b) => a - b);
+  const latest = fees[fees.length - 1];
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    latestPct: latest,
+    minPct: sorted[0],
+    medianPct: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    maxPct: sorted[sorted.length - 1],
+    /** Share of samples that cost more than the latest one. */
+    cheaperThanPct: (fees.filter((f) => f > latest).length / fees.length) * 100,
+  };
+}
+
+/**
+ * Recorded fee comparison quotes for `symbol` since `since` (ms, default the
+ * last 30 days), optionally for one destination `to`.
+ */
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const symbol = (searchParams.get("symbol") ?? "").trim().toLowerCase();
+  const sinceRaw = (searchParams.get("since") ?? "").trim();
+  const sinceMs = sinceRaw ? Number(sinceRaw) : Date.now() - DEFAULT_WINDOW_MS;
+  const toRaw = searchParams.get("to");
+  const to = toRaw ? parseFeeTarget(toRaw) : undefined;
+
+  if (!symbol) {
+    return NextResponse.json({ error: "Missing symbol" }, { status: 400, headers: noStore });
+  }
+  if (!Number.isFinite(sinceMs) || sinceMs < 0) {
+    return NextResponse.json({ error: "Invalid since" }, { status: 400, headers: noStore });
+  }
+  if (to === null) {
+    return NextResponse.json({ error: "Unsupported network" }, { status: 400, headers: noStore });
+  }
+
+  const series = getFeeSamples(symbol, { sinceMs, to }).map((s) => ({
+    ...s,
+    stats: feeStats(s.samples),
+  }));
+  return NextResponse.json({ symbol, sinceMs, series }, { headers: noStore });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { fetchUsdRate } from "@/lib/coingecko";
+import { parseFiatCurrency } from "@/lib/currency";
+import { errorMessage } from "@/lib/http";
+
+/** Units of `currency` per USD, without the provider fan-out of `/api/price`. */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const currency = parseFiatCurrency(searchParams.get("currency"));
+  if (!currency) {
+    return NextResponse.json(
+      { error: "Invalid currency" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  try {
+    const rate = await fetchUsdRate(currency);
+    return NextResponse.json({ currency, rate, fetchedAt: Date.now() });
+  } catch (e) {
+    return NextResponse.json(
+      { currency, rate: null, error: errorMessage(e), fetchedAt: Date.now() },
+      { status: 502 },
+    );
+  }
+}
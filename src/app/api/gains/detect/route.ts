@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, toAddressList } from "@/lib/address";
+import { addDisposals, type NewDisposal } from "@/lib/disposalStore";
+import { errorMessage } from "@/lib/http";
+import {
+  getAccountTxPage,
+  outgoingTfuelFor,
+  txTimestamp,
+  TX_TYPE,
+} from "@/lib/thetaExplorer";
+
+const noStore = { "cache-control": "no-store" };
+
+const PAGE_LIMIT = 50;
+const MAX_PAGES = 10;
+
+/**
+ * Scans recent send transactions and records TFUEL leaving the tracked
+ * wallets as disposals. Transfers between tracked wallets are ignored, and a
+ * tx already on record is never added twice.
+ */
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const addresses = toAddressList(searchParams.get("addresses") ?? "");
+
+  if (addresses.length === 0) {
+    return NextResponse.json({ error: "Missing addresses" }, { status: 400, headers: noStore });
+  }
+  if (!addresses.every(isHexAddress)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400, headers: noStore });
+  }
+
+  const own = new Set(addresses);
+  const results = await Promise.all(
+    addresses.map(async (address) => {
+      const found: NewDisposal[] = [];
+      let error: string | undefined;
+      try {
+        for (let page = 1; page <= MAX_PAGES; page++) {
+          const txs = await getAccountTxPage(address, TX_TYPE.send, page, PAGE_LIMIT);
+          const body = txs.body ?? [];
+          for (const tx of body) {
+            const amount = outgoingTfuelFor(tx, address, own);
+            const timestamp = txTimestamp(tx);
+            if (amount == null || timestamp == null || !tx.hash) continue;
+            found.push({
+              address,
+              timestamp,
+              amount,
+              proceeds: null,
+              currency: null,
+              source: "detected",
+              txHash: tx.hash,
+              note: null,
+            });
+          }
+
+          const totalPages = txs.totalPageNumber ?? null;
+          if (body.length === 0 || (totalPages != null && page >= totalPages)) break;
+        }
+      } catch (e) {
+        // Keep whatever was found before the explorer failed.
+        error = errorMessage(e);
+      }
+      return {
+        address,
+        scanned: found.length,
+        added: addDisposals(found),
+        ...(error ? { error } : {}),
+      };
+    }),
+  );
+
+  return NextResponse.json({ results }, { headers: noStore });
+}
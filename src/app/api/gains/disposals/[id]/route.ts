@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+
+import { deleteDisposal } from "@/lib/disposalStore";
+
+const noStore = { "cache-control": "no-store" };
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || !deleteDisposal(id)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStore });
+  }
+  return NextResponse.json({ ok: true }, { headers: noStore });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, normalizeAddress } from "@/lib/address";
+import { parseFiatCurrency } from "@/lib/currency";
+import { addDisposals } from "@/lib/disposalStore";
+
+const noStore = { "cache-control": "no-store" };
+
+/** Records a manual disposal (a sale or spend of TFUEL). */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+  if (!body) {
+    return NextResponse.json({ error: "Invalid disposal" }, { status: 400, headers: noStore });
+  }
+
+  const address = normalizeAddress(typeof body.address === "string" ? body.address : "");
+  const timestamp = body.timestamp;
+  const amount = body.amount;
+  const proceeds = body.proceeds ?? null;
+  const currency =
+    proceeds == null
+      ? null
+      : parseFiatCurrency(typeof body.currency === "string" ? body.currency : "USD");
+
+  if (!isHexAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400, headers: noStore });
+  }
+  if (typeof timestamp !== "number" || !Number.isFinite(timestamp) || timestamp <= 0) {
+    return NextResponse.json({ error: "Invalid timestamp" }, { status: 400, headers: noStore });
+  }
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+    return NextResponse.json({ error: "Invalid amount" }, { status: 400, headers: noStore });
+  }
+  if (
+    proceeds != null &&
+    (typeof proceeds !== "number" || !Number.isFinite(proceeds) || proceeds < 0 || !currency)
+  ) {
+    return NextResponse.json({ error: "Invalid proceeds" }, { status: 400, headers: noStore });
+  }
+
+  addDisposals([
+    {
+      address,
+      timestamp: Math.floor(timestamp),
+      amount,
+      proceeds: proceeds as number | null,
+      currency,
+      source: "manual",
+      txHash: null,
+      note: typeof body.note === "string" && body.note.trim() ? body.note.trim() : null,
+    },
+  ]);
+
+  return NextResponse.json({ ok: true }, { headers: noStore });
+}
@@ -0,0 +1,157 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, toAddressList } from "@/lib/address";
+import { computeGains, type CostBasisMethod, type Lot } from "@/lib/costBasis";
+import { parseFiatCurrency } from "@/lib/currency";
+import { listDisposals } from "@/lib/disposalStore";
+import { errorMessage } from "@/lib/http";
+import { syncRewardLedger } from "@/lib/rewardLedger";
+import {
+  fetchRewardPriceSeries,
+  fetchTfuelPriceNow,
+  priceAt,
+} from "@/lib/rewardValuation";
+import { getSetting } from "@/lib/settingsStore";
+
+const noStore = { "cache-control": "no-store" };
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const addresses = toAddressList(searchParams.get("addresses") ?? "");
+  const currency = parseFiatCurrency(searchParams.get("currency") ?? "USD");
+
+  if (addresses.length === 0) {
+    return NextResponse.json({ error: "Missing addresses" }, { status: 400, headers: noStore });
+  }
+  if (!addresses.every(isHexAddress)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400, headers: noStore });
+  }
+  if (!currency) {
+    return NextResponse.json({ error: "Invalid currency" }, { status: 400, headers: noStore });
+  }
+
+  const ledgers = await Promise.all(addresses.map((a) => syncRewardLedger(a)));
+  const disposals = listDisposals(addresses);
+  const rewards = ledgers.flatMap((l) => l.rewards.map((r) => ({ ...r, address: l.address })));
+
+  const oldestSec = Math.min(
+    rewards.reduce((min, r) => Math.min(min, r.timestamp), Infinity),
+    disposals.reduce((min, d) => Math.min(min, d.timestamp), Infinity),
+  );
+
+  let series: Awaited<ReturnType<typeof fetchRewardPriceSeries>>;
+  let priceNow: number | null;
+  try {
+    [series, priceNow] = await Promise.all([
+      Number.isFinite(oldestSec) ? fetchRewardPriceSeries(oldestSec, currency) : [],
+      fetchTfuelPriceNow(currency),
+    ]);
+  } catch (e) {
+    return NextResponse.json(
+      { error: `Could not load TFUEL prices: ${errorMessage(e)}` },
+      { status: 502, headers: noStore },
+    );
+  }
+
+  const lots: Lot[] = rewards.map((r) => {
+    const price = priceAt(series, r.timestamp * 1000);
+    return {
+      address: r.address,
+      hash: r.hash,
+      acquiredAt: r.timestamp,
+      amount: r.amount,
+      basis: price == null ? null : r.amount * price,
+    };
+  });
+
+  // Recorded proceeds only count when they're in the requested currency;
+  // otherwise the disposal is valued at the market price at the time.
+  const priced = disposals.map((d) => {
+    const recorded = d.proceeds != null && d.currency === currency;
+    const price = priceAt(series, d.timestamp * 1000);
+    return {
+      disposal: d,
+      proceedsSource: recorded ? ("recorded" as const) : ("market" as const),
+      proceeds: recorded ? (d.proceeds ?? 0) : price == null ? null : d.amount * price,
+    };
+  });
+
+  const methods = getSetting("costBasisMethods") ?? {};
+  const methodForYear = (year: number): CostBasisMethod => methods[String(year)] ?? "fifo";
+
+  // Unpriced disposals still use up lots, so they go in with unknown proceeds.
+  const { realized, open } = computeGains(
+    lots,
+    priced.map((p) => ({
+      id: p.disposal.id,
+      address: p.disposal.address,
+      timestamp: p.disposal.timestamp,
+      amount: p.disposal.amount,
+      proceeds: p.proceeds,
+    })),
+    methodForYear,
+  );
+
+  const realizedById = new Map(realized.map((r) => [r.id, r] as const));
+  const disposalRows = priced.map((p) => {
+    const r = realizedById.get(p.disposal.id);
+    return {
+      ...p.disposal,
+      proceeds: p.proceeds,
+      proceedsSource: p.proceedsSource,
+      method: r?.method ?? null,
+      basis: r?.basis ?? null,
+      gain: r?.gain ?? null,
+      unmatchedAmount: r?.unmatchedAmount ?? null,
+    };
+  });
+
+  const yearsSeen = new Set<number>([
+    ...rewards.map((r) => new Date(r.timestamp * 1000).getUTCFullYear()),
+    ...disposals.map((d) => new Date(d.timestamp * 1000).getUTCFullYear()),
+  ]);
+  const years = Array.from(yearsSeen)
+    .sort((a, b) => b - a)
+    .map((year) => {
+      const inYear = realized.filter(
+        (r) => new Date(r.timestamp * 1000).getUTCFullYear() === year,
+      );
+      const pricedInYear = inYear.filter((r) => r.proceeds != null);
+      return {
+        year,
+        method: methodForYear(year),
+        disposals: inYear.length,
+        /** Sales without a price; the totals below leave them out. */
+        unpriced: inYear.length - pricedInYear.length,
+        proceeds: pricedInYear.reduce((a, r) => a + (r.proceeds ?? 0), 0),
+        basis: pricedInYear.reduce((a, r) => a + r.basis, 0),
+        gain: pricedInYear.reduce((a, r) => a + (r.gain ?? 0), 0),
+      };
+    });
+
+  const openAmount = open.reduce((a, l) => a + l.remaining, 0);
+  const openBasis = open.reduce((a, l) => a + l.remainingBasis, 0);
+  const openValue = priceNow == null ? null : openAmount * priceNow;
+
+  return NextResponse.json(
+    {
+      addresses,
+      currency,
+      complete: ledgers.every((l) => l.complete),
+      priceNow,
+      methods,
+      years,
+      disposals: disposalRows,
+      unrealized: {
+        amount: openAmount,
+        basis: openBasis,
+        value: openValue,
+        gain: openValue == null ? null : openValue - openBasis,
+        lots: open.length,
+        unpricedLots: open.filter((l) => l.basis == null).length,
+      },
+      fetchedAt: Date.now(),
+    },
+    { headers: noStore },
+  );
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { errorMessage } from "@/lib/http";
+import { getSwapOrder } from "@/lib/orderStore";
+import { refreshSwapOrder } from "@/lib/swapOrders";
+
+const noStore = { "cache-control": "no-store" };
+
+type Params = { params: Promise<{ id: string }> };
+
+/** One order, refreshed from SimpleSwap while it's still open. */
+export async function GET(_request: Request, { params }: Params) {
+  const id = (await params).id;
+  try {
+    const order = await refreshSwapOrder(id);
+    if (!order) {
+      return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStore });
+    }
+    return NextResponse.json({ order }, { headers: noStore });
+  } catch (e) {
+    return NextResponse.json(
+      { order: getSwapOrder(id), error: errorMessage(e) },
+      { headers: noStore },
+    );
+  }
+}
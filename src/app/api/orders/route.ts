@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { errorMessage, UpstreamError } from "@/lib/http";
+import { createSwapOrder, listSwapOrdersFresh, parseSwapOrderInput } from "@/lib/swapOrders";
+
+const noStore = { "cache-control": "no-store" };
+
+export async function GET() {
+  const { orders, error } = await listSwapOrdersFresh(50);
+  return NextResponse.json({ orders, error }, { headers: noStore });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const input = parseSwapOrderInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid order" }, { status: 400, headers: noStore });
+  }
+
+  try {
+    return NextResponse.json({ order: await createSwapOrder(input) }, { headers: noStore });
+  } catch (e) {
+    // SimpleSwap rejects bad addresses and amounts with a 4xx; pass those on as ours.
+    const rejected = e instanceof UpstreamError && e.status != null && e.status < 500;
+    return NextResponse.json(
+      { error: errorMessage(e) },
+      { status: rejected ? 400 : 502, headers: noStore },
+    );
+  }
+}
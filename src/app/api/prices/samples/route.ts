@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+
+import { parseFiatCurrency } from "@/lib/currency";
+import { getPriceSamples, insertPriceSamples } from "@/lib/priceSampleStore";
+
+const noStore = { "cache-control": "no-store" };
+
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const currency = parseFiatCurrency(searchParams.get("currency") ?? "USD");
+  const symbol = searchParams.get("symbol")?.toLowerCase() || undefined;
+  const sinceMs = Number(searchParams.get("since") ?? "0");
+
+  if (!currency) {
+    return NextResponse.json(
+      { error: "Invalid currency" },
+      { status: 400, headers: noStore },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      currency,
+      series: getPriceSamples(currency, {
+        symbol,
+        sinceMs: Number.isFinite(sinceMs) ? sinceMs : 0,
+      }),
+    },
+    { headers: noStore },
+  );
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    currency?: unknown;
+    samples?: unknown;
+  } | null;
+  if (!body || !Array.isArray(body.samples)) {
+    return NextResponse.json(
+      { error: "Missing samples" },
+      { status: 400, headers: noStore },
+    );
+  }
+
+  const currency = parseFiatCurrency(
+    typeof body.currency === "string" ? body.currency : "USD",
+  );
+  if (!currency) {
+    return NextResponse.json(
+      { error: "Invalid currency" },
+      { status: 400, headers: noStore },
+    );
+  }
+
+  const samples = body.samples.flatMap((s: unknown) => {
+    if (!s || typeof s !== "object") return [];
+    const o = s as Record<string, unknown>;
+    if (
+      typeof o.symbol !== "string" ||
+      typeof o.t !== "number" ||
+      typeof o.price !== "number" ||
+      !Number.isFinite(o.t) ||
+      !Number.isFinite(o.price)
+    ) {
+      return [];
+    }
+    return [{ symbol: o.symbol.toLowerCase(), t: o.t, price: o.price }];
+  });
+
+  const inserted = insertPriceSamples(currency, samples);
+  return NextResponse.json({ currency, inserted }, { headers: noStore });
+}
@@ -1,165 +1,165 @@
 import { NextResponse } from "next/server";
 
-function normalizeFrom(code: string): string {
-  const c = code.trim().toLowerCase();
-  if (c === "tfuel") return "tfuel";
-  if (c === "theta") return "theta";
-  return c;
-}
-
-function normalizeTo(network: string): string {
-  const n = network.trim().toLowerCase();
-  if (n === "sol" || n === "solana" || n === "usdc-sol") return "usdcspl";
-  return "usdc";
-}
-
-function parseMinFromDescription(desc: string): number | null {
-  const m = desc.match(/Min:\s*([0-9.]+)/i);
-  if (!m) return null;
-  const n = Number(m[1]);
-  return Number.isFinite(n) ? n : null;
+import { fetchSpotUsdc } from "@/lib/coingecko";
+import { errorMessage } from "@/lib/http";
+import { resolveFeeDestination, type FeeDestination } from "@/lib/networkFees";
+import { findAmountForTarget } from "@/lib/reverseQuote";
+import { isThetaSwapConfigured, parseDexToken, quoteThetaSwap } from "@/lib/thetaSwap";
+import {
+  compareFixedRate,
+  SimpleSwapError,
+  tryEstimate,
+} from "@/lib/simpleswap";
+
+/** The ThetaSwap route to USDC on Theta, for TFUEL when the pools are configured. */
+async function quoteDex(symbol: string, amount: number) {
+  const from = parseDexToken(symbol);
+  if (from !== "tfuel" || !isThetaSwapConfigured()) return null;
+  try {
+    const quote = await quoteThetaSwap(from, "usdc", amount);
+    return quote ? { quote } : { quote: null, error: "No ThetaSwap pools connect TFUEL and USDC" };
+  } catch (e) {
+    return { quote: null, error: errorMessage(e) };
+  }
 }
 
-function toCoinGeckoId(symbol: string): string | null {
-  const s = symbol.trim().toLowerCase();
-  if (s === "tfuel") return "theta-fuel";
-  if (s === "theta") return "theta-token";
-  return null;
+/** `network` is the chain (`sol`, `matic`, …); `to` names the stablecoin too. */
+function describeDestination({ to }: FeeDestination) {
+  return { network: to.slice(to.indexOf("-") + 1), to };
 }
 
-async function fetchCoinGeckoSpotUSDC(symbol: string): Promise<number | null> {
-  const id = toCoinGeckoId(symbol);
-  if (!id) return null;
-
-  const url = new URL("https://api.coingecko.com/api/v3/simple/price");
-  url.searchParams.set("ids", id);
-  url.searchParams.set("vs_currencies", "usdc,usd");
-
-  const res = await fetch(url, {
-    headers: { accept: "application/json" },
-    next: { revalidate: 30 },
-  });
-
-  if (!res.ok) return null;
-
-  const data: unknown = await res.json();
-  if (!data || typeof data !== "object" || !(id in data)) return null;
-  const row = (data as Record<string, unknown>)[id];
-  if (!row || typeof row !== "object") return null;
-
-  const usdc =
-    "usdc" in row && typeof (row as { usdc?: unknown }).usdc === "number"
-      ? (row as { usdc: number }).usdc
-      : null;
-  const usd =
-    "usd" in row && typeof (row as { usd?: unknown }).usd === "number"
-      ? (row as { usd: number }).usd
-      : null;
-
-  return usdc ?? usd;
-}
-
-async function fetchEstimated(
-  from: string,
-  to: string,
-  amount: number,
-): Promise<{ estimated: number | null; min?: number | null; error?: string }> {
-  const apiKey = process.env.SIMPLESWAP_API_KEY;
-  if (!apiKey) {
-    return {
-      estimated: null,
-      error: "Missing SIMPLESWAP_API_KEY",
-    };
-  }
-  const url = new URL("https://api.simpleswap.io/get_estimated");
-  url.searchParams.set("currency_from", normalizeFrom(from));
-  url.searchParams.set("currency_to", to);
-  url.searchParams.set("amount", String(amount));
-  url.searchParams.set("fixed", "false");
-  url.searchParams.set("api_key", apiKey);
-
-  const res = await fetch(url, {
-    headers: { accept: "application/json" },
-    cache: "no-store",
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "");
-    let min: number | null | undefined;
-
-    try {
-      const parsed = txt ? (JSON.parse(txt) as unknown) : null;
-      if (
-        parsed &&
-        typeof parsed === "object" &&
-        "description" in parsed &&
-        typeof (parsed as { description?: unknown }).description === "string"
-      ) {
-        min = parseMinFromDescription(
-          (parsed as { description: string }).description,
-        );
-      }
-    } catch {
-      min = undefined;
+/** Finds the smallest input that yields at least `target` USDC. */
+async function quoteTarget(symbol: string, target: number, destination: FeeDestination) {
+  const spotUsdc = await fetchSpotUsdc(symbol);
+  const spotFor = (amount: number) => (spotUsdc == null ? null : spotUsdc * amount);
+
+  try {
+    const to = destination.code;
+    const found = await findAmountForTarget({
+      from: symbol,
+      to,
+      target,
+      // Pad the spot guess a little since the swap always pays out less.
+      guess: spotUsdc ? (target / spotUsdc) * 1.02 : 100,
+    });
+    const fixed = await tryEstimate({ from: symbol, to, amount: found.amount, fixed: true });
+    const spotTotalUsd = spotFor(found.amount);
+    const impliedFeeUsd =
+      spotTotalUsd == null ? null : Math.max(0, spotTotalUsd - found.estimated);
+
+    return NextResponse.json({
+      symbol,
+      target,
+      amount: found.amount,
+      ...describeDestination(destination),
+      estimatedUsdc: found.estimated,
+      totalUsd: found.estimated,
+      effectiveUsdPerToken: found.estimated / found.amount,
+      spotTotalUsd,
+      impliedFeeUsd,
+      impliedFeePct:
+        spotTotalUsd == null || spotTotalUsd <= 0 || impliedFeeUsd == null
+          ? null
+          : (impliedFeeUsd / spotTotalUsd) * 100,
+      minAmount: found.minAmount,
+      steps: found.steps,
+      fixed: compareFixedRate(fixed, found.estimated),
+      source: "simpleswap",
+      fetchedAt: Date.now(),
+    });
+  } catch (e) {
+    const error = errorMessage(e);
+    const minAmount = e instanceof SimpleSwapError ? e.minAmount : null;
+
+    if (spotUsdc != null && spotUsdc > 0) {
+      const amount = Math.max(target / spotUsdc, minAmount ?? 0);
+      return NextResponse.json({
+        symbol,
+        target,
+        amount,
+        ...describeDestination(destination),
+        estimatedUsdc: spotUsdc * amount,
+        totalUsd: spotUsdc * amount,
+        effectiveUsdPerToken: spotUsdc,
+        spotTotalUsd: spotUsdc * amount,
+        impliedFeeUsd: 0,
+        impliedFeePct: 0,
+        minAmount,
+        steps: 0,
+        fixed: null,
+        error: `${error} (using CoinGecko spot as fallback)`,
+        source: "coingecko",
+        fetchedAt: Date.now(),
+      });
     }
 
-    return {
-      estimated: null,
-      min,
-      error: txt
-        ? `SimpleSwap HTTP ${res.status}: ${txt.slice(0, 300)}`
-        : `SimpleSwap HTTP ${res.status}`,
-    };
-  }
-
-  const data: unknown = await res.json();
-
-  if (typeof data === "number") return { estimated: data };
-
-  if (typeof data === "string") {
-    const n = Number(data);
-    return Number.isFinite(n)
-      ? { estimated: n }
-      : { estimated: null, error: "Unexpected SimpleSwap response" };
-  }
-
-  if (
-    data &&
-    typeof data === "object" &&
-    "estimated_amount" in data &&
-    (typeof (data as { estimated_amount: unknown }).estimated_amount === "number" ||
-      typeof (data as { estimated_amount: unknown }).estimated_amount === "string")
-  ) {
-    const raw = (data as { estimated_amount: number | string }).estimated_amount;
-    const n = typeof raw === "number" ? raw : Number(raw);
-    return Number.isFinite(n)
-      ? { estimated: n }
-      : { estimated: null, error: "Unexpected SimpleSwap response" };
+    return NextResponse.json(
+      {
+        symbol,
+        target,
+        amount: null,
+        ...describeDestination(destination),
+        estimatedUsdc: null,
+        totalUsd: null,
+        effectiveUsdPerToken: null,
+        spotTotalUsd: null,
+        impliedFeeUsd: null,
+        impliedFeePct: null,
+        minAmount,
+        steps: 0,
+        fixed: null,
+        error,
+        source: "simpleswap",
+        fetchedAt: Date.now(),
+      },
+      { status: 502 },
+    );
   }
-
-  return { estimated: null, error: "Unexpected SimpleSwap response" };
 }
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const symbol = (searchParams.get("symbol") ?? "").trim().toLowerCase();
   const amountRaw = (searchParams.get("amount") ?? "").trim();
-  const network = (searchParams.get("network") ?? "sol").trim().toLowerCase();
+  const targetRaw = (searchParams.get("target") ?? "").trim();
 
   if (!symbol) {
     return NextResponse.json({ error: "Missing symbol" }, { status: 400 });
   }
 
+  const destination = await resolveFeeDestination(searchParams.get("network") ?? "sol");
+  if (!destination) {
+    return NextResponse.json({ error: "Unsupported network" }, { status: 400 });
+  }
+
+  if (targetRaw) {
+    if (amountRaw) {
+      return NextResponse.json(
+        { error: "Pass either amount or target, not both" },
+        { status: 400 },
+      );
+    }
+    const target = Number(targetRaw);
+    if (!Number.isFinite(target) || target <= 0) {
+      return NextResponse.json({ error: "Invalid target" }, { status: 400 });
+    }
+    return quoteTarget(symbol, target, destination);
+  }
+
   const amount = Number(amountRaw);
   if (!Number.isFinite(amount) || amount <= 0) {
     return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
   }
 
-  const to = normalizeTo(network);
-  const r = await fetchEstimated(symbol, to, amount);
+  const params = { from: symbol, to: destination.code, amount };
+  const [floating, fixed] = await Promise.all([
+    tryEstimate(params),
+    tryEstimate({ ...params, fixed: true }),
+  ]);
+  const { estimated, minAmount, error } = floating;
 
-  if (r.estimated == null) {
-    const spotUsdc = await fetchCoinGeckoSpotUSDC(symbol);
+  if (estimated == null) {
+    const spotUsdc = await fetchSpotUsdc(symbol);
     if (spotUsdc != null) {
       const estimatedUsdc = spotUsdc * amount;
       const totalUsd = estimatedUsdc;
@@ -169,17 +169,18 @@ export async function GET(request: Request) {
         {
           symbol,
           amount,
-          network: to === "usdcspl" ? "sol" : "eth",
+          ...describeDestination(destination),
           estimatedUsdc,
           totalUsd,
           effectiveUsdPerToken,
           spotTotalUsd: estimatedUsdc,
           impliedFeeUsd: 0,
           impliedFeePct: 0,
-          minAmount: r.min ?? null,
-          error: r.error
-            ? `${r.error} (using CoinGecko spot as fallback)`
+          minAmount,
+          error: error
+            ? `${error} (using CoinGecko spot as fallback)`
             : "Using CoinGecko spot as fallback",
+          fixed: null,
           source: "coingecko",
           fetchedAt: Date.now(),
         },
@@ -191,15 +192,16 @@ export async function GET(request: Request) {
       {
         symbol,
         amount,
-        network: to === "usdcspl" ? "sol" : "eth",
+        ...describeDestination(destination),
         estimatedUsdc: null,
         totalUsd: null,
         effectiveUsdPerToken: null,
         spotTotalUsd: null,
         impliedFeeUsd: null,
         impliedFeePct: null,
-        minAmount: r.min ?? null,
-        error: r.error ?? "Failed to fetch quote",
+        minAmount,
+        error: error ?? "Failed to fetch quote",
+        fixed: null,
         source: "simpleswap",
         fetchedAt: Date.now(),
       },
@@ -207,11 +209,11 @@ export async function GET(request: Request) {
     );
   }
 
-  const estimatedUsdc = r.estimated;
+  const estimatedUsdc = estimated;
   const totalUsd = estimatedUsdc;
   const effectiveUsdPerToken = amount > 0 ? totalUsd / amount : null;
 
-  const spotUsdc = await fetchCoinGeckoSpotUSDC(symbol);
+  const [spotUsdc, dex] = await Promise.all([fetchSpotUsdc(symbol), quoteDex(symbol, amount)]);
   const spotTotalUsd = spotUsdc == null ? null : spotUsdc * amount;
   const impliedFeeUsd =
     spotTotalUsd == null ? null : Math.max(0, spotTotalUsd - totalUsd);
@@ -223,7 +225,7 @@ export async function GET(request: Request) {
   return NextResponse.json({
     symbol,
     amount,
-    network: to === "usdcspl" ? "sol" : "eth",
+    ...describeDestination(destination),
     estimatedUsdc,
     totalUsd,
     effectiveUsdPerToken,
@@ -231,6 +233,8 @@ export async function GET(request: Request) {
     impliedFeeUsd,
     impliedFeePct,
     minAmount: null,
+    fixed: compareFixedRate(fixed, estimatedUsdc),
+    dex,
     source: "simpleswap",
     fetchedAt: Date.now(),
   });
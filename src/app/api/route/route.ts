@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { errorMessage } from "@/lib/http";
+import { parseFeeTarget } from "@/lib/stableNetworks";
+import { findRoutes } from "@/lib/swapRouter";
+
+const DEFAULT_MAX_SLIPPAGE_PCT = 1;
+
+/**
+ * Ranked ways to sell `amount` of `symbol` into a stablecoin, given as
+ * `to=usdc-sol` or `asset=usdc&network=sol`. A split across venues is
+ * suggested when the best one loses more than `maxSlippagePct` to size.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const symbol = (searchParams.get("symbol") ?? "").trim().toLowerCase();
+  const amount = Number((searchParams.get("amount") ?? "").trim());
+  const to =
+    parseFeeTarget(searchParams.get("to")) ??
+    parseFeeTarget(`${searchParams.get("asset") ?? "usdc"}-${searchParams.get("network") ?? ""}`);
+  const slippageRaw = (searchParams.get("maxSlippagePct") ?? "").trim();
+  const maxSlippagePct = slippageRaw ? Number(slippageRaw) : DEFAULT_MAX_SLIPPAGE_PCT;
+
+  if (!symbol) {
+    return NextResponse.json({ error: "Missing symbol" }, { status: 400 });
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
+  }
+  if (!to) {
+    return NextResponse.json({ error: "Unsupported network" }, { status: 400 });
+  }
+  if (!Number.isFinite(maxSlippagePct) || maxSlippagePct < 0) {
+    return NextResponse.json({ error: "Invalid maxSlippagePct" }, { status: 400 });
+  }
+
+  try {
+    const result = await findRoutes(symbol, amount, to, maxSlippagePct);
+    return NextResponse.json({ ...result, maxSlippagePct, fetchedAt: Date.now() });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e) }, { status: 502 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+
+import { parseTrackedWallets } from "@/lib/address";
+import { parseCostBasisMethod, type CostBasisMethod } from "@/lib/costBasis";
+import { parseFiatCurrency } from "@/lib/currency";
+import { getSettings, setSetting } from "@/lib/settingsStore";
+
+const noStore = { "cache-control": "no-store" };
+
+export function GET() {
+  return NextResponse.json({ settings: getSettings() }, { headers: noStore });
+}
+
+/** Partial update; a null value clears the setting. */
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid settings" },
+      { status: 400, headers: noStore },
+    );
+  }
+
+  if ("lifetimeStartedAt" in body) {
+    const v = body.lifetimeStartedAt;
+    if (v != null && (typeof v !== "number" || !Number.isFinite(v))) {
+      return NextResponse.json(
+        { error: "Invalid lifetimeStartedAt" },
+        { status: 400, headers: noStore },
+      );
+    }
+    setSetting("lifetimeStartedAt", v ?? null);
+  }
+
+  if ("costBasisMethods" in body) {
+    const raw = body.costBasisMethods;
+    const methods: Record<string, CostBasisMethod> = {};
+    if (raw != null && typeof raw === "object") {
+      for (const [year, method] of Object.entries(raw)) {
+        const parsed = parseCostBasisMethod(method);
+        if (!/^\d{4}$/.test(year) || !parsed) {
+          return NextResponse.json(
+            { error: "Invalid costBasisMethods" },
+            { status: 400, headers: noStore },
+          );
+        }
+        methods[year] = parsed;
+      }
+    }
+    setSetting("costBasisMethods", Object.keys(methods).length ? methods : null);
+  }
+
+  if ("trackedWallets" in body) {
+    const wallets = body.trackedWallets == null ? null : parseTrackedWallets(body.trackedWallets);
+    if (body.trackedWallets != null && !wallets) {
+      return NextResponse.json(
+        { error: "Invalid trackedWallets" },
+        { status: 400, headers: noStore },
+      );
+    }
+    setSetting("trackedWallets", wallets);
+  }
+
+  if ("quoteCurrency" in body) {
+    const currency =
+      body.quoteCurrency == null
+        ? null
+        : parseFiatCurrency(typeof body.quoteCurrency === "string" ? body.quoteCurrency : "");
+    if (body.quoteCurrency != null && !currency) {
+      return NextResponse.json(
+        { error: "Invalid quoteCurrency" },
+        { status: 400, headers: noStore },
+      );
+    }
+    setSetting("quoteCurrency", currency);
+  }
+
+  return NextResponse.json({ settings: getSettings() }, { headers: noStore });
+}
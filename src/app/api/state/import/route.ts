@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+
+import { getAlert, upsertAlert } from "@/lib/alertStore";
+import { parseTrackedWallets } from "@/lib/address";
+import { STAKING_VALUE_ALERT } from "@/lib/alerts";
+import { parseFiatCurrency } from "@/lib/currency";
+import { insertPriceSamples, type PriceSample } from "@/lib/priceSampleStore";
+import { getSetting, setSetting } from "@/lib/settingsStore";
+import { getActiveTrackingSession, startTrackingSession } from "@/lib/trackingStore";
+
+const noStore = { "cache-control": "no-store" };
+
+function parseJson(raw: unknown): unknown {
+  if (typeof raw !== "string") return null;
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return v != null && typeof v === "object" && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function parseSamples(raw: unknown): PriceSample[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((p: unknown) =>
+    isRecord(p) && isFiniteNumber(p.t) && isFiniteNumber(p.price)
+      ? [{ t: p.t, price: p.price }]
+      : [],
+  );
+}
+
+function importPriceHistory(items: Record<string, unknown>): number {
+  let inserted = 0;
+
+  for (const [key, raw] of Object.entries(items)) {
+    // priceHistory.v2 is USD; priceHistory.v2.<CUR> holds other quote currencies.
+    const match = /^priceHistory\.v2(?:\.([A-Z]{3}))?$/.exec(key);
+    if (!match) continue;
+    const currency = parseFiatCurrency(match[1] ?? "USD");
+    const parsed = parseJson(raw);
+    if (!currency || !isRecord(parsed)) continue;
+
+    const samples = Object.entries(parsed).flatMap(([symbol, series]) =>
+      parseSamples(series).map((p) => ({ symbol, ...p })),
+    );
+    inserted += insertPriceSamples(currency, samples);
+  }
+
+  // v1 predates per-token series and was always USD.
+  const v1 = parseJson(items["priceHistory.v1"]);
+  if (Array.isArray(v1)) {
+    const samples = v1.flatMap((p: unknown) => {
+      if (!isRecord(p) || !isFiniteNumber(p.t)) return [];
+      const out: Array<PriceSample & { symbol: string }> = [];
+      if (isFiniteNumber(p.tfuelUsd)) out.push({ symbol: "tfuel", t: p.t, price: p.tfuelUsd });
+      if (isFiniteNumber(p.thetaUsd)) out.push({ symbol: "theta", t: p.t, price: p.thetaUsd });
+      return out;
+    });
+    inserted += insertPriceSamples("USD", samples);
+  }
+
+  return inserted;
+}
+
+/**
+ * One-time import of state that used to live in browser localStorage. Body is
+ * the raw localStorage strings keyed by their old key. Anything already on the
+ * server wins, so importing from a second device never clobbers the first.
+ */
+export async function POST(request: Request) {
+  const items = (await request.json().catch(() => null)) as unknown;
+  if (!isRecord(items)) {
+    return NextResponse.json(
+      { error: "Invalid import" },
+      { status: 400, headers: noStore },
+    );
+  }
+
+  const imported = {
+    tracking: false,
+    priceSamples: 0,
+    lifetimeStartedAt: false,
+    stakingAlert: false,
+    trackedWallets: false,
+    quoteCurrency: false,
+  };
+
+  const tracking = parseJson(items["thetaRewardsTracking.v1"]);
+  if (
+    isRecord(tracking) &&
+    isFiniteNumber(tracking.startedAt) &&
+    isRecord(tracking.baselines) &&
+    isRecord(tracking.series) &&
+    !getActiveTrackingSession()
+  ) {
+    startTrackingSession({
+      startedAt: tracking.startedAt,
+      baselines: tracking.baselines as Record<string, number | null>,
+      series: tracking.series as Record<string, Record<string, number>>,
+    });
+    imported.tracking = true;
+  }
+
+  imported.priceSamples = importPriceHistory(items);
+
+  const lifetime = Number(items["tfuelLifetimeStartedAt.v1"]);
+  if (
+    typeof items["tfuelLifetimeStartedAt.v1"] === "string" &&
+    Number.isFinite(lifetime)
+  ) {
+    const current = getSetting("lifetimeStartedAt");
+    // Keep the earliest start across devices.
+    if (current == null || lifetime < current) {
+      setSetting("lifetimeStartedAt", lifetime);
+      imported.lifetimeStartedAt = true;
+    }
+  }
+
+  const alert = parseJson(items["stakingUsdAlert.v1"]);
+  if (isRecord(alert) && !getAlert(STAKING_VALUE_ALERT.id)) {
+    // v1 entries written before currency selection only had `thresholdUsd`.
+    const threshold = alert.threshold ?? alert.thresholdUsd;
+    upsertAlert({
+      ...STAKING_VALUE_ALERT,
+      enabled: alert.enabled === true,
+      armed: alert.armed !== false,
+      config: {
+        threshold: isFiniteNumber(threshold) ? threshold : null,
+        currency:
+          parseFiatCurrency(typeof alert.currency === "string" ? alert.currency : "USD") ??
+          "USD",
+        useBrowserNotifications: alert.useBrowserNotifications === true,
+      },
+    });
+    imported.stakingAlert = true;
+  }
+
+  const wallets = parseTrackedWallets(parseJson(items["trackedWallets.v1"]));
+  if (wallets && getSetting("trackedWallets") == null) {
+    setSetting("trackedWallets", wallets);
+    imported.trackedWallets = true;
+  }
+
+  const quoteCurrency = parseFiatCurrency(
+    typeof items["quoteCurrency.v1"] === "string" ? items["quoteCurrency.v1"] : null,
+  );
+  if (quoteCurrency && getSetting("quoteCurrency") == null) {
+    setSetting("quoteCurrency", quoteCurrency);
+    imported.quoteCurrency = true;
+  }
+
+  return NextResponse.json({ imported }, { headers: noStore });
+}
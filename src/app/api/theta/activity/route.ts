@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, toAddressList } from "@/lib/address";
+import { syncRewardLedger } from "@/lib/rewardLedger";
+import {
+  activityTotals,
+  dailyActivity,
+  fetchTransfersSince,
+} from "@/lib/walletActivity";
+
+const CACHE_TTL_MS = 60_000;
+const responseCache = new Map<string, { ts: number; payload: unknown }>();
+
+/**
+ * Daily staking rewards (from coinbase transactions) per wallet since `since`
+ * (unix seconds), with transfers in, transfers out and fees kept apart so
+ * they never count as earnings. `tzOffset` is the client's
+ * `Date#getTimezoneOffset()`, used to cut days.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const addressesRaw = searchParams.get("addresses") ?? "";
+  const sinceRaw = searchParams.get("since") ?? "";
+  const tzOffsetRaw = searchParams.get("tzOffset") ?? "0";
+
+  const cacheKey = `addresses:${addressesRaw.toLowerCase()}|since:${sinceRaw}|tz:${tzOffsetRaw}`;
+  const cached = responseCache.get(cacheKey);
+  if (cached && Date.now() - cached.ts < CACHE_TTL_MS) {
+    return NextResponse.json(cached.payload);
+  }
+
+  const addresses = toAddressList(addressesRaw);
+  if (addresses.length === 0) {
+    return NextResponse.json(
+      { error: "Missing addresses" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  if (!addresses.every(isHexAddress)) {
+    return NextResponse.json(
+      { error: "Invalid address" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  const sinceSec = Number(sinceRaw);
+  if (!Number.isFinite(sinceSec) || sinceSec <= 0) {
+    return NextResponse.json(
+      { error: "Invalid since" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  const tzOffset = Number(tzOffsetRaw);
+  if (!Number.isFinite(tzOffset) || Math.abs(tzOffset) > 14 * 60) {
+    return NextResponse.json(
+      { error: "Invalid tzOffset" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  const results = await Promise.all(
+    addresses.map(async (address) => {
+      const [ledger, sends] = await Promise.all([
+        syncRewardLedger(address),
+        fetchTransfersSince(address, sinceSec),
+      ]);
+      const rewards = ledger.rewards.filter((r) => r.timestamp >= sinceSec);
+      const days = dailyActivity(rewards, sends.transfers, tzOffset);
+      const error = ledger.error ?? sends.error;
+
+      return {
+        address,
+        days,
+        totals: activityTotals(days),
+        complete: ledger.complete && sends.complete,
+        ...(error ? { error } : {}),
+      };
+    }),
+  );
+
+  const payload = { sinceSec, tzOffset, results, fetchedAt: Date.now() };
+  if (results.every((r) => !r.error)) {
+    responseCache.set(cacheKey, { ts: Date.now(), payload });
+  }
+  return NextResponse.json(payload);
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, toAddressList } from "@/lib/address";
+import {
+  DEFAULT_ANOMALY_OPTIONS,
+  detectRewardAnomalies,
+  learnRewardCadence,
+} from "@/lib/rewardAnomalies";
+import { syncRewardLedger } from "@/lib/rewardLedger";
+
+function parseOption(raw: string | null, fallback: number, min: number, max: number) {
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+/**
+ * Compares each wallet's latest coinbase rewards with its usual cadence and
+ * amount, flagging gaps (no reward for `gapFactor` usual intervals) and drops
+ * (recent rewards under `dropRatio` of the usual amount).
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const addresses = toAddressList(searchParams.get("addresses") ?? "");
+
+  if (addresses.length === 0) {
+    return NextResponse.json(
+      { error: "Missing addresses" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  if (!addresses.every(isHexAddress)) {
+    return NextResponse.json(
+      { error: "Invalid address" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  const options = {
+    gapFactor: parseOption(
+      searchParams.get("gapFactor"),
+      DEFAULT_ANOMALY_OPTIONS.gapFactor,
+      1.5,
+      50,
+    ),
+    dropRatio: parseOption(
+      searchParams.get("dropRatio"),
+      DEFAULT_ANOMALY_OPTIONS.dropRatio,
+      0.05,
+      0.95,
+    ),
+  };
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  const results = await Promise.all(
+    addresses.map(async (address) => {
+      const ledger = await syncRewardLedger(address);
+      const cadence = learnRewardCadence(ledger.rewards);
+
+      return {
+        address,
+        cadence,
+        lastRewardAt: ledger.rewards[0]?.timestamp ?? null,
+        complete: ledger.complete,
+        // Until the ledger has caught up with the chain head, a missing
+        // recent reward would look like a gap, so don't guess.
+        anomalies: ledger.complete
+          ? detectRewardAnomalies(ledger.rewards, cadence, nowSec, options)
+          : [],
+        ...(ledger.error ? { error: ledger.error } : {}),
+      };
+    }),
+  );
+
+  return NextResponse.json(
+    { addresses, options, results, checkedAt: Date.now() },
+    { headers: { "cache-control": "no-store" } },
+  );
+}
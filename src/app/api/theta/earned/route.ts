@@ -1,82 +1,20 @@
 import { NextResponse } from "next/server";
 
-const EXPLORER_API = "https://explorer-api.thetatoken.org/api";
+import { isHexAddress, toAddressList } from "@/lib/address";
+import { parseFiatCurrency } from "@/lib/currency";
+import { errorMessage } from "@/lib/http";
+import { syncRewardLedger } from "@/lib/rewardLedger";
+import { valueRewards, type RewardValuation } from "@/lib/rewardValuation";
 
 const CACHE_TTL_MS = 120_000;
 const responseCache = new Map<string, { ts: number; payload: unknown }>();
 
-function toAddressList(raw: string): string[] {
-  return raw
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean)
-    .map((s) => s.toLowerCase());
-}
-
-function isHexAddress(s: string): boolean {
-  return /^0x[a-f0-9]{40}$/.test(s);
-}
-
-function weiToNumber(wei: string, decimals: number): number | null {
-  try {
-    const bi = BigInt(wei);
-    const denom = BigInt(10) ** BigInt(decimals);
-    const whole = bi / denom;
-    const frac = bi % denom;
-    const frac6 = (frac * BigInt(1_000_000)) / denom;
-    return Number(whole) + Number(frac6) / 1_000_000;
-  } catch {
-    return null;
-  }
-}
-
-type ExplorerAccountTxResponse = {
-  body?: Array<{
-    timestamp?: string;
-    data?: {
-      outputs?: Array<{
-        address?: string;
-        coins?: {
-          tfuelwei?: string;
-        };
-      }>;
-    };
-  }>;
-  totalPageNumber?: number;
-  currentPageNumber?: number;
-};
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const res = await fetch(url, {
-    headers: { accept: "application/json" },
-    next: { revalidate: 15 },
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "");
-    throw new Error(`Theta Explorer HTTP ${res.status}: ${txt.slice(0, 200)}`);
-  }
-
-  return (await res.json()) as T;
-}
-
-async function getCoinbasePage(address: string, page: number, limit: number) {
-  const url = `${EXPLORER_API}/accounttx/${address}?type=0&pageNumber=${encodeURIComponent(
-    String(page),
-  )}&limitNumber=${encodeURIComponent(String(limit))}&isEqualType=true`;
-  return fetchJson<ExplorerAccountTxResponse>(url);
-}
-
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const addressesRaw = searchParams.get("addresses") ?? "";
   const sinceRaw = searchParams.get("since") ?? "";
-
-  const cacheKey = `addresses:${addressesRaw.toLowerCase()}|since:${sinceRaw}`;
-  const cached = responseCache.get(cacheKey);
-  if (cached && Date.now() - cached.ts < CACHE_TTL_MS) {
-    return NextResponse.json(cached.payload);
-  }
+  const currency = parseFiatCurrency(searchParams.get("currency") ?? "USD");
+  const includeRewards = searchParams.get("include") === "rewards";
 
   const addresses = toAddressList(addressesRaw);
   if (addresses.length === 0) {
@@ -101,67 +39,85 @@ export async function GET(request: Request) {
     );
   }
 
-  const limit = 50;
-  const maxPages = 40; // cap to avoid hammering explorer
-
-  const results = await Promise.all(
-    addresses.map(async (address) => {
-      let total = 0;
-      let lastRewardAt: number | null = null;
-      let pagesFetched = 0;
-
-      for (let page = 1; page <= maxPages; page++) {
-        pagesFetched++;
-        const txs = await getCoinbasePage(address, page, limit);
-        const body = txs.body ?? [];
+  if (!currency) {
+    return NextResponse.json(
+      { error: "Invalid currency" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
 
-        if (body.length === 0) break;
+  const cacheKey = `addresses:${addresses.join(",")}|since:${sinceSec}|currency:${currency}|include:${includeRewards}`;
+  const cached = responseCache.get(cacheKey);
+  if (cached && Date.now() - cached.ts < CACHE_TTL_MS) {
+    return NextResponse.json(cached.payload);
+  }
 
-        let reachedBeforeSince = false;
+  // The ledger resumes where the last call stopped, so totals converge on the
+  // full history instead of silently stopping at a page cap.
+  const ledgers = await Promise.all(addresses.map((a) => syncRewardLedger(a)));
+  const rewards = ledgers.flatMap((l) =>
+    l.rewards
+      .filter((r) => r.timestamp >= sinceSec)
+      .map((r) => ({ ...r, address: l.address })),
+  );
 
-        for (const tx of body) {
-          const ts = tx.timestamp ? Number(tx.timestamp) : null;
-          if (!ts || !Number.isFinite(ts)) continue;
-          if (ts < sinceSec) {
-            reachedBeforeSince = true;
-            continue;
+  // Valuation is best-effort: TFUEL totals are still useful when CoinGecko is down.
+  let valuation: RewardValuation<(typeof rewards)[number]> | null = null;
+  let valuationError: string | undefined;
+  try {
+    valuation = await valueRewards(rewards, currency);
+  } catch (e) {
+    valuationError = errorMessage(e);
+  }
+  const priced =
+    valuation?.rewards ?? rewards.map((r) => ({ ...r, price: null, value: null }));
+
+  const results = ledgers.map((ledger) => {
+    const own = priced.filter((r) => r.address === ledger.address);
+    const earned = own.reduce((a, r) => a + r.amount, 0);
+
+    return {
+      address: ledger.address,
+      earned: earned || null,
+      earnedValue: valuation ? own.reduce((a, r) => a + (r.value ?? 0), 0) : null,
+      earnedValueNow: valuation?.priceNow == null ? null : earned * valuation.priceNow,
+      unpricedCount: valuation ? own.filter((r) => r.value == null).length : null,
+      lastRewardAt: own[0]?.timestamp ?? null,
+      pagesFetched: ledger.pagesFetched,
+      complete: ledger.complete,
+      ...(ledger.error ? { error: ledger.error } : {}),
+      ...(includeRewards
+        ? {
+            rewards: own.map((r) => ({
+              hash: r.hash,
+              height: r.height,
+              timestamp: r.timestamp,
+              amount: r.amount,
+              price: r.price,
+              value: r.value,
+            })),
           }
-
-          const outputs = tx.data?.outputs ?? [];
-          const match = outputs.find((o) => o.address?.toLowerCase() === address);
-          const tfuelwei = match?.coins?.tfuelwei;
-          if (!tfuelwei) continue;
-
-          const amt = weiToNumber(tfuelwei, 18);
-          if (amt == null || amt <= 0) continue;
-
-          total += amt;
-          if (lastRewardAt == null || ts > lastRewardAt) lastRewardAt = ts;
-        }
-
-        if (reachedBeforeSince) break;
-
-        const totalPages = txs.totalPageNumber ?? null;
-        const currentPage = txs.currentPageNumber ?? page;
-        if (totalPages != null && currentPage >= totalPages) break;
-      }
-
-      return {
-        address,
-        earned: total || null,
-        lastRewardAt,
-        pagesFetched,
-      };
-    }),
-  );
+        : {}),
+    };
+  });
 
   const payload = {
     sinceSec,
+    currency,
     addresses,
     results,
+    complete: results.every((r) => r.complete),
+    priceNow: valuation?.priceNow ?? null,
+    valueAtReceipt: valuation?.valueAtReceipt ?? null,
+    valueNow: valuation?.valueNow ?? null,
+    ...(valuationError ? { valuationError } : {}),
     fetchedAt: Date.now(),
   };
 
-  responseCache.set(cacheKey, { ts: Date.now(), payload });
+  // A partial walk or a failed lookup should be retried on the next load, not
+  // shown as the lifetime total for two minutes.
+  if (payload.complete && !valuationError && results.every((r) => !r.error)) {
+    responseCache.set(cacheKey, { ts: Date.now(), payload });
+  }
   return NextResponse.json(payload);
 }
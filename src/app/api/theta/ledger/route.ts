@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, toAddressList } from "@/lib/address";
+import { syncRewardLedger } from "@/lib/rewardLedger";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const addresses = toAddressList(searchParams.get("addresses") ?? "");
+  const includeRewards = searchParams.get("include") === "rewards";
+
+  if (addresses.length === 0) {
+    return NextResponse.json(
+      { error: "Missing addresses" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  if (!addresses.every(isHexAddress)) {
+    return NextResponse.json(
+      { error: "Invalid address" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  const maxPagesRaw = Number(searchParams.get("maxPages") ?? "40");
+  const maxPages = Number.isFinite(maxPagesRaw)
+    ? Math.min(200, Math.max(1, Math.floor(maxPagesRaw)))
+    : 40;
+
+  const results = await Promise.all(
+    addresses.map(async (address) => {
+      const ledger = await syncRewardLedger(address, maxPages);
+      const { rewards } = ledger;
+
+      return {
+        address,
+        complete: ledger.complete,
+        rewardCount: rewards.length,
+        total: rewards.reduce((a, r) => a + r.amount, 0),
+        firstRewardAt: rewards.at(-1)?.timestamp ?? null,
+        lastRewardAt: rewards[0]?.timestamp ?? null,
+        pagesFetched: ledger.pagesFetched,
+        syncedAt: ledger.syncedAt,
+        ...(ledger.error ? { error: ledger.error } : {}),
+        ...(includeRewards ? { rewards } : {}),
+      };
+    }),
+  );
+
+  return NextResponse.json(
+    {
+      addresses,
+      complete: results.every((r) => r.complete),
+      results,
+      fetchedAt: Date.now(),
+    },
+    { headers: { "cache-control": "no-store" } },
+  );
+}
@@ -1,110 +1,22 @@
 import { NextResponse } from "next/server";
 
-const EXPLORER_API = "https://explorer-api.thetatoken.org/api";
+import { isHexAddress, toAddressList } from "@/lib/address";
+import {
+  coinbaseRewardFor,
+  getAccount,
+  getCoinbaseTxPage,
+  getStake,
+  txTimestamp,
+  weiToNumber,
+  type ExplorerTx,
+} from "@/lib/thetaExplorer";
+import { parseStakePositions, stakeTotals } from "@/lib/stakes";
+import { getTnt20Balance } from "@/lib/thetaRpc";
+import { TOKENS } from "@/lib/tokens";
 
 const CACHE_TTL_MS = 45_000;
 const responseCache = new Map<string, { ts: number; payload: unknown }>();
 
-function toAddressList(raw: string): string[] {
-  return raw
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean)
-    .map((s) => s.toLowerCase());
-}
-
-function isHexAddress(s: string): boolean {
-  return /^0x[a-f0-9]{40}$/.test(s);
-}
-
-function weiToNumber(wei: string, decimals: number): number | null {
-  try {
-    const bi = BigInt(wei);
-    const denom = BigInt(10) ** BigInt(decimals);
-    const whole = bi / denom;
-    const frac = bi % denom;
-    const frac6 = (frac * BigInt(1_000_000)) / denom;
-    return Number(whole) + Number(frac6) / 1_000_000;
-  } catch {
-    return null;
-  }
-}
-
-type ExplorerAccountResponse = {
-  type?: string;
-  body?: {
-    address?: string;
-    balance?: {
-      thetawei?: string;
-      tfuelwei?: string;
-    };
-  };
-};
-
-type ExplorerStakeResponse = {
-  type?: string;
-  body?: {
-    sourceRecords?: Array<{
-      type?: string;
-      amount?: string;
-      withdrawn?: boolean;
-    }>;
-  };
-};
-
-type ExplorerAccountTxResponse = {
-  type?: string;
-  body?: Array<{
-    timestamp?: string;
-    data?: {
-      outputs?: Array<{
-        address?: string;
-        coins?: {
-          tfuelwei?: string;
-        };
-      }>;
-    };
-  }>;
-  totalPageNumber?: number;
-  currentPageNumber?: number;
-};
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const res = await fetch(url, {
-    headers: { accept: "application/json" },
-    next: { revalidate: 15 },
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "");
-    throw new Error(`Theta Explorer HTTP ${res.status}: ${txt.slice(0, 200)}`);
-  }
-
-  return (await res.json()) as T;
-}
-
-async function getAccount(address: string) {
-  return fetchJson<ExplorerAccountResponse>(`${EXPLORER_API}/account/${address}`);
-}
-
-async function getStake(address: string) {
-  return fetchJson<ExplorerStakeResponse>(`${EXPLORER_API}/stake/${address}`);
-}
-
-async function getCoinbaseTxs(address: string, limit: number) {
-  const url = `${EXPLORER_API}/accounttx/${address}?type=0&pageNumber=1&limitNumber=${encodeURIComponent(
-    String(limit),
-  )}&isEqualType=true`;
-  return fetchJson<ExplorerAccountTxResponse>(url);
-}
-
-async function getCoinbaseTxPage(address: string, page: number, limit: number) {
-  const url = `${EXPLORER_API}/accounttx/${address}?type=0&pageNumber=${encodeURIComponent(
-    String(page),
-  )}&limitNumber=${encodeURIComponent(String(limit))}&isEqualType=true`;
-  return fetchJson<ExplorerAccountTxResponse>(url);
-}
-
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const addressesRaw = searchParams.get("addresses") ?? "";
@@ -140,41 +52,45 @@ export async function GET(request: Request) {
 
   const results = await Promise.all(
     addresses.map(async (address) => {
-      const [acct, stake, txs] = await Promise.all([
+      const [acct, stake, txs, tnt20Balances] = await Promise.all([
         getAccount(address),
         getStake(address),
-        getCoinbaseTxs(address, pageLimit),
+        getCoinbaseTxPage(address, 1, pageLimit),
+        Promise.all(
+          TOKENS.flatMap((t) => (t.tnt20 ? [{ symbol: t.symbol, ...t.tnt20 }] : [])).map(
+            async (t) => {
+              // A failed balance read shouldn't take the whole wallet down.
+              const balance = await getTnt20Balance(
+                t.contract,
+                address,
+                t.decimals,
+              ).catch(() => null);
+              return [t.symbol, balance] as const;
+            },
+          ),
+        ),
       ]);
 
       const tfuelBalance = acct.body?.balance?.tfuelwei
         ? weiToNumber(acct.body.balance.tfuelwei, 18)
         : null;
 
-      const stakedTheta = (stake.body?.sourceRecords ?? [])
-        .filter((r) => r.withdrawn === false)
-        .map((r) => (r.amount ? weiToNumber(r.amount, 18) : null))
-        .filter((v): v is number => v != null)
-        .reduce((a, b) => a + b, 0);
+      // EEN stakes are TFUEL; only guardian/validator stakes count as staked THETA.
+      const stakes = stakeTotals(parseStakePositions(stake));
+      const stakedTheta = stakes.guardian + stakes.validator;
 
       let rewards7d = 0;
       let rewards30d = 0;
       let lastRewardAt: number | null = null;
 
-      function ingest(list: ExplorerAccountTxResponse["body"]) {
+      function ingest(list: ExplorerTx[] | undefined) {
         for (const tx of list ?? []) {
-          const ts = tx.timestamp ? Number(tx.timestamp) : null;
-          if (!ts || !Number.isFinite(ts)) continue;
+          const ts = txTimestamp(tx);
+          if (ts == null) continue;
           if (ts < oldestNeeded) continue;
 
-          const outputs = tx.data?.outputs ?? [];
-          const match = outputs.find(
-            (o) => o.address?.toLowerCase() === address,
-          );
-          const tfuelwei = match?.coins?.tfuelwei;
-          if (!tfuelwei) continue;
-
-          const amt = weiToNumber(tfuelwei, 18);
-          if (amt == null || amt <= 0) continue;
+          const amt = coinbaseRewardFor(tx, address);
+          if (amt == null) continue;
 
           if (lastRewardAt == null || ts > lastRewardAt) lastRewardAt = ts;
           if (ts >= nowSec - sec7d) rewards7d += amt;
@@ -188,8 +104,7 @@ export async function GET(request: Request) {
       // We keep paginating until we have covered the full 30-day window.
       let oldestTsSeen: number | null = (() => {
         const oldestTx = (txs.body ?? []).at(-1);
-        const ts = oldestTx?.timestamp ? Number(oldestTx.timestamp) : null;
-        return ts != null && Number.isFinite(ts) ? ts : null;
+        return oldestTx ? txTimestamp(oldestTx) : null;
       })();
 
       let page = 2;
@@ -203,8 +118,7 @@ export async function GET(request: Request) {
         ingest(body);
 
         const oldestTx = body.at(-1);
-        const ts = oldestTx?.timestamp ? Number(oldestTx.timestamp) : null;
-        oldestTsSeen = ts != null && Number.isFinite(ts) ? ts : oldestTsSeen;
+        oldestTsSeen = (oldestTx ? txTimestamp(oldestTx) : null) ?? oldestTsSeen;
 
         const totalPages = pageRes.totalPageNumber ?? null;
         const currentPage = pageRes.currentPageNumber ?? page;
@@ -213,10 +127,21 @@ export async function GET(request: Request) {
         page += 1;
       }
 
+      const tokenBalances: Record<string, number | null> = {
+        tfuel: tfuelBalance,
+        theta: acct.body?.balance?.thetawei
+          ? weiToNumber(acct.body.balance.thetawei, 18)
+          : null,
+        ...Object.fromEntries(tnt20Balances),
+      };
+
       return {
         address,
         tfuelBalance,
+        tokenBalances,
         stakedTheta: stakedTheta || null,
+        stakedTfuel: stakes.een || null,
+        stakes,
         rewards7d: rewards7d || null,
         rewards30d: rewards30d || null,
         lastRewardAt,
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress } from "@/lib/address";
+import { errorMessage } from "@/lib/http";
+import {
+  parseStakePositions,
+  parseStakeTx,
+  stakeReturnEvents,
+  type StakeEvent,
+} from "@/lib/stakes";
+import { getAccountTxPage, getStake, TX_TYPE } from "@/lib/thetaExplorer";
+import { getBlockHeight } from "@/lib/thetaRpc";
+
+// Stake txs are rare; a couple of pages per type covers nearly every wallet.
+const PAGE_LIMIT = 50;
+const MAX_PAGES = 4;
+
+async function stakeTxEvents(address: string, type: number): Promise<StakeEvent[]> {
+  const events: StakeEvent[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const txs = await getAccountTxPage(address, type, page, PAGE_LIMIT);
+    const body = txs.body ?? [];
+    for (const tx of body) {
+      const event = parseStakeTx(tx, type);
+      if (event) events.push(event);
+    }
+    if (body.length === 0 || page >= (txs.totalPageNumber ?? 1)) break;
+  }
+  return events;
+}
+
+/**
+ * Stake timeline for one wallet: deposits, withdraw requests and the returns
+ * they lead to. Returns are derived from the withdraw requests, so ones that
+ * already happened stay on the timeline after the explorer drops the stake.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const address = (searchParams.get("address") ?? "").trim().toLowerCase();
+
+  if (!address) {
+    return NextResponse.json(
+      { error: "Missing address" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  if (!isHexAddress(address)) {
+    return NextResponse.json(
+      { error: "Invalid address" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  try {
+    const heightRun = getBlockHeight().catch(() => null);
+    const [deposits, depositsV2, withdrawals, stake] = await Promise.all([
+      stakeTxEvents(address, TX_TYPE.depositStake),
+      stakeTxEvents(address, TX_TYPE.depositStakeV2),
+      stakeTxEvents(address, TX_TYPE.withdrawStake),
+      getStake(address),
+    ]);
+    const currentHeight = await heightRun;
+    const now = Date.now();
+
+    const returns = stakeReturnEvents(
+      withdrawals,
+      parseStakePositions(stake),
+      currentHeight,
+      now,
+    );
+
+    const events = [...deposits, ...depositsV2, ...withdrawals, ...returns].sort(
+      (a, b) => (b.height ?? Infinity) - (a.height ?? Infinity),
+    );
+
+    return NextResponse.json(
+      { address, currentHeight, events, fetchedAt: now },
+      { headers: { "cache-control": "no-store" } },
+    );
+  } catch (e) {
+    return NextResponse.json(
+      { error: errorMessage(e) },
+      { status: 502, headers: { "cache-control": "no-store" } },
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { isHexAddress, toAddressList } from "@/lib/address";
+import { errorMessage } from "@/lib/http";
+import {
+  estimateUnlockAt,
+  parseStakePositions,
+  stakeStatus,
+  stakeTotals,
+} from "@/lib/stakes";
+import { getStake } from "@/lib/thetaExplorer";
+import { getBlockHeight } from "@/lib/thetaRpc";
+
+/**
+ * Stakes per wallet, broken down by kind and by the node (holder) they're
+ * delegated to. Withdrawn positions carry their unlock status and an
+ * estimated unlock time from the current block height.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const addresses = toAddressList(searchParams.get("addresses") ?? "");
+
+  if (addresses.length === 0) {
+    return NextResponse.json(
+      { error: "Missing addresses" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  if (!addresses.every(isHexAddress)) {
+    return NextResponse.json(
+      { error: "Invalid address" },
+      { status: 400, headers: { "cache-control": "no-store" } },
+    );
+  }
+
+  try {
+    // Unlock estimates are optional; stakes still load when the RPC is down.
+    const heightRun = getBlockHeight().catch(() => null);
+    const results = await Promise.all(
+      addresses.map(async (address) => {
+        const positions = parseStakePositions(await getStake(address));
+        return { address, totals: stakeTotals(positions), positions };
+      }),
+    );
+    const currentHeight = await heightRun;
+    const now = Date.now();
+
+    return NextResponse.json({
+      addresses,
+      currentHeight,
+      results: results.map((r) => ({
+        ...r,
+        positions: r.positions.map((p) => ({
+          ...p,
+          status: stakeStatus(p, currentHeight),
+          unlockAt: p.withdrawn ? estimateUnlockAt(p.returnHeight, currentHeight, now) : null,
+        })),
+      })),
+      fetchedAt: now,
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: errorMessage(e) },
+      { status: 502, headers: { "cache-control": "no-store" } },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+
+import {
+  endTrackingSession,
+  getActiveTrackingSession,
+  startTrackingSession,
+  updateTrackingSession,
+  type TrackingSession,
+} from "@/lib/trackingStore";
+
+const noStore = { "cache-control": "no-store" };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return v != null && typeof v === "object" && !Array.isArray(v);
+}
+
+export function GET() {
+  return NextResponse.json({ session: getActiveTrackingSession() }, { headers: noStore });
+}
+
+/**
+ * Saves the active session. A `startedAt` that differs from the active
+ * session's starts a new one; otherwise baselines/series are updated in place.
+ */
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as unknown;
+  if (
+    !isRecord(body) ||
+    typeof body.startedAt !== "number" ||
+    !Number.isFinite(body.startedAt) ||
+    !isRecord(body.baselines) ||
+    !isRecord(body.series)
+  ) {
+    return NextResponse.json(
+      { error: "Invalid tracking session" },
+      { status: 400, headers: noStore },
+    );
+  }
+
+  const input = {
+    startedAt: body.startedAt,
+    baselines: body.baselines as TrackingSession["baselines"],
+    series: body.series as TrackingSession["series"],
+  };
+
+  const active = getActiveTrackingSession();
+  if (active && active.startedAt === input.startedAt) {
+    updateTrackingSession(active.id, input);
+    return NextResponse.json(
+      { session: { ...active, ...input } },
+      { headers: noStore },
+    );
+  }
+
+  return NextResponse.json({ session: startTrackingSession(input) }, { headers: noStore });
+}
+
+export function DELETE() {
+  endTrackingSession();
+  return NextResponse.json({ session: null }, { headers: noStore });
+}
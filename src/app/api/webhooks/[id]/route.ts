@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { deleteWebhook, parseWebhookInput, updateWebhook } from "@/lib/webhookStore";
+
+const noStore = { "cache-control": "no-store" };
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: Params) {
+  const id = Number((await params).id);
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const input = parseWebhookInput(body);
+  if (!Number.isInteger(id) || !input) {
+    return NextResponse.json({ error: "Invalid webhook" }, { status: 400, headers: noStore });
+  }
+
+  const webhook = updateWebhook(id, input);
+  if (!webhook) {
+    return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStore });
+  }
+  return NextResponse.json({ webhook }, { headers: noStore });
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const id = Number((await params).id);
+  if (!Number.isInteger(id) || !deleteWebhook(id)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStore });
+  }
+  return NextResponse.json({ ok: true }, { headers: noStore });
+}
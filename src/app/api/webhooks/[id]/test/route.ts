@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import { processWebhookDeliveries } from "@/lib/webhooks";
+import { enqueueDeliveries, getDelivery, getWebhook } from "@/lib/webhookStore";
+
+const noStore = { "cache-control": "no-store" };
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Sends a test event to one webhook right away; failures retry like any other delivery. */
+export async function POST(_request: Request, { params }: Params) {
+  const id = Number((await params).id);
+  const webhook = Number.isInteger(id) ? getWebhook(id) : null;
+  if (!webhook) {
+    return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStore });
+  }
+
+  const [deliveryId] = enqueueDeliveries(
+    {
+      alertId: null,
+      kind: "test",
+      title: "Test alert",
+      message: `Webhook "${webhook.name}" is set up correctly.`,
+      firedAt: Date.now(),
+    },
+    [webhook.id],
+  );
+  // Only this delivery; the scheduler owns the rest of the queue.
+  await processWebhookDeliveries(deliveryId);
+
+  return NextResponse.json({ delivery: getDelivery(deliveryId) }, { headers: noStore });
+}
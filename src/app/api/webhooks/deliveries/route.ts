@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { listDeliveries } from "@/lib/webhookStore";
+
+/** Delivery log, newest first. */
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const limitRaw = Number(searchParams.get("limit") ?? "50");
+  const limit = Number.isFinite(limitRaw) ? Math.min(500, Math.max(1, Math.floor(limitRaw))) : 50;
+
+  return NextResponse.json(
+    { deliveries: listDeliveries(limit) },
+    { headers: { "cache-control": "no-store" } },
+  );
+}
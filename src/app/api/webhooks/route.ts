@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { createWebhook, listWebhooks, parseWebhookInput } from "@/lib/webhookStore";
+
+const noStore = { "cache-control": "no-store" };
+
+export function GET() {
+  return NextResponse.json({ webhooks: listWebhooks() }, { headers: noStore });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const input = parseWebhookInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid webhook" }, { status: 400, headers: noStore });
+  }
+  return NextResponse.json({ webhook: createWebhook(input) }, { headers: noStore });
+}
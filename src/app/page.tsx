@@ -2,13 +2,76 @@
 
 import Image from "next/image";
 import type { ReactNode } from "react";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { isHexAddress, normalizeAddress, type TrackedWallet } from "@/lib/address";
+import {
+  FIAT_CURRENCIES,
+  formatFiat,
+  parseFiatCurrency,
+  type FiatCurrency,
+} from "@/lib/currency";
+import type { ProviderQuote } from "@/lib/priceProviders";
+import type { SwapOrder } from "@/lib/orderStore";
+import type { ExchangeStatus, FixedRateQuote } from "@/lib/simpleswap";
+import type { FeeSeries } from "@/lib/feeSampleStore";
+import type { DepthCurve } from "@/lib/networkFees";
+import type { Settings } from "@/lib/settingsStore";
+import type { RouteResult } from "@/lib/swapRouter";
+import type { DexQuote } from "@/lib/thetaSwap";
+import {
+  FEE_TARGETS,
+  feeTargetColor,
+  feeTargetLabel,
+  parseFeeTarget,
+  type FeeTarget,
+} from "@/lib/stableNetworks";
+import { TOKENS, tokenColor, tokenLabel } from "@/lib/tokens";
+import {
+  DEFAULT_HYSTERESIS_PCT,
+  isPriceAlertKind,
+  isWebhookAlertKind,
+  PRICE_ALERT_KINDS,
+  STAKE_LIQUID_ALERT,
+  STAKING_VALUE_ALERT,
+  WEBHOOK_FORMATS,
+  type AlertEvent,
+  type PriceAlertKind,
+  type PendingWithdrawal,
+  type StakeLiquidAlertConfig,
+  type StakingValueAlertConfig,
+  type WebhookAlertKind,
+  type WebhookFormat,
+} from "@/lib/alerts";
+import { TAX_EXPORT_FORMATS, type TaxExportFormat } from "@/lib/taxExport";
+import {
+  EEN_MIN_STAKE,
+  estimatePriceModel,
+  PRICE_SCENARIOS,
+  projectRewards,
+  scenarioPrice,
+  type PriceModel,
+  type PriceScenario,
+} from "@/lib/projection";
+import { COST_BASIS_METHODS, type CostBasisMethod } from "@/lib/costBasis";
+import {
+  STAKE_KINDS,
+  stakePositionKey,
+  type StakeEvent,
+  type StakeKind,
+  type StakePosition,
+  type StakeStatus,
+} from "@/lib/stakes";
 
 type PriceRow = {
   symbol: string;
   usdc: number | null;
   usd: number | null;
+  currency?: FiatCurrency;
+  price?: number | null;
+  fxRate?: number | null;
   source: string;
+  providers?: ProviderQuote[];
   fetchedAt: number;
   error?: string;
 };
@@ -17,21 +80,54 @@ type FeesResponse = {
   symbol: string;
   amount: number;
   spotUsdc: number | null;
+  /** Best net received first. */
   rows: Array<{
-    to: "usdc-sol" | "usdc-eth";
+    to: FeeTarget;
+    source: "simpleswap" | "thetaswap";
     estimatedUsdc: number | null;
     impliedFeeUsdc: number | null;
     impliedFeePct: number | null;
     error?: string;
+    fixed: FixedRateQuote | null;
+    dex?: Pick<DexQuote, "path" | "lpFeePct" | "priceImpactPct">;
   }>;
   quoteFetchedAt?: number;
   fetchedAt: number;
 };
 
+type DepthResponse = {
+  symbol: string;
+  baseAmount: number;
+  to: FeeTarget;
+  spotUsdc: number | null;
+  curves: DepthCurve[];
+  fetchedAt: number;
+};
+
+type FeeHistoryResponse = {
+  symbol: string;
+  sinceMs: number;
+  series: Array<
+    FeeSeries & {
+      stats: {
+        latestPct: number;
+        minPct: number;
+        medianPct: number;
+        maxPct: number;
+        cheaperThanPct: number;
+      } | null;
+    }
+  >;
+};
+
 type QuoteResponse = {
   symbol: string;
-  amount: number;
-  network: "sol" | "eth";
+  /** In target mode, the input found for `target`; null when the search failed. */
+  amount: number | null;
+  /** USDC asked for in target mode. */
+  target?: number;
+  network: string;
+  to: FeeTarget;
   estimatedUsdc: number | null;
   totalUsd: number | null;
   effectiveUsdPerToken: number | null;
@@ -40,6 +136,10 @@ type QuoteResponse = {
   impliedFeePct: number | null;
   minAmount: number | null;
   error?: string;
+  /** Fixed-rate estimate for the same input; null when quoting fell back to spot. */
+  fixed: FixedRateQuote | null;
+  /** ThetaSwap's USDC-on-Theta route for TFUEL; absent when not configured. */
+  dex?: { quote: DexQuote | null; error?: string } | null;
   source: string;
   fetchedAt: number;
 };
@@ -49,23 +149,64 @@ type ThetaRewardsResponse = {
   results: Array<{
     address: string;
     tfuelBalance: number | null;
+    /** Guardian + validator stakes; EEN stakes are TFUEL and live in `stakes.een`. */
     stakedTheta: number | null;
+    stakedTfuel?: number | null;
+    stakes?: Record<StakeKind, number>;
     rewards7d: number | null;
     rewards30d: number | null;
     lastRewardAt: number | null;
+    tokenBalances?: Record<string, number | null>;
   }>;
   fetchedAt: number;
 };
 
+type ThetaActivityResponse = {
+  sinceSec: number;
+  results: Array<{
+    address: string;
+    days: Array<{
+      day: string;
+      rewards: number;
+      transfersIn: number;
+      transfersOut: number;
+      fees: number;
+    }>;
+    totals: { rewards: number; transfersIn: number; transfersOut: number; fees: number };
+    complete: boolean;
+    error?: string;
+  }>;
+};
+
+type RewardAnomaliesResponse = {
+  results: Array<{
+    address: string;
+    cadence: { intervalSec: number; amount: number; samples: number } | null;
+    lastRewardAt: number | null;
+    anomalies: Array<
+      | { type: "gap"; elapsedSec: number; expectedIntervalSec: number; lastRewardAt: number }
+      | { type: "drop"; recentAmount: number; usualAmount: number; recentCount: number }
+    >;
+  }>;
+};
+
 type ThetaEarnedResponse = {
   sinceSec: number;
+  currency?: FiatCurrency;
   addresses: string[];
   results: Array<{
     address: string;
     earned: number | null;
+    /** Each reward valued at its block time. */
+    earnedValue?: number | null;
+    earnedValueNow?: number | null;
     lastRewardAt: number | null;
     pagesFetched: number;
+    complete?: boolean;
   }>;
+  complete?: boolean;
+  valueAtReceipt?: number | null;
+  valueNow?: number | null;
   fetchedAt: number;
 };
 
@@ -75,10 +216,23 @@ type TokenPricePoint = {
 };
 
 type PriceHistoryStore = {
-  tfuel: TokenPricePoint[];
-  theta: TokenPricePoint[];
+  currency: FiatCurrency;
+  series: Record<string, TokenPricePoint[]>;
 };
 
+// Points kept in memory per token; the server store keeps everything.
+const PRICE_HISTORY_CAP = 900;
+
+function mergePriceSeries(a: TokenPricePoint[], b: TokenPricePoint[]) {
+  const byT = new Map<number, TokenPricePoint>();
+  for (const p of a) byT.set(p.t, p);
+  for (const p of b) byT.set(p.t, p);
+  const next = Array.from(byT.values()).sort((x, y) => x.t - y.t);
+  return next.length > PRICE_HISTORY_CAP
+    ? next.slice(next.length - PRICE_HISTORY_CAP)
+    : next;
+}
+
 type HistoryResponse = {
   symbol: string;
   days: number;
@@ -86,7 +240,72 @@ type HistoryResponse = {
   fetchedAt: number;
 };
 
-function formatMoney(v: number | null, currency: "USD" | "USDC") {
+// Provider quotes are always reported in USD, before FX conversion.
+const PROVIDER_QUOTE_CURRENCY: FiatCurrency = "USD";
+
+const defaultTrackedWallets: TrackedWallet[] = [
+  {
+    address: "0xa7c140c272fe9d9c30ec6af97c209f745375cfa4",
+    label: "",
+    enabled: true,
+  },
+  {
+    address: "0x343a8bacd985f8ef2fc59d567edc78a097bf87e8",
+    label: "",
+    enabled: true,
+  },
+];
+
+/**
+ * A setting kept on the server, loaded once legacy state has been imported
+ * and again when the window regains focus, so edits from another device show.
+ */
+function useServerSetting<K extends "trackedWallets" | "quoteCurrency">(
+  key: K,
+  fallback: NonNullable<Settings[K]>,
+  ready: boolean,
+) {
+  const [value, setValue] = useState<NonNullable<Settings[K]>>(fallback);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const stored = (await fetchSettings())?.[key];
+        if (!cancelled && stored != null) setValue(stored as NonNullable<Settings[K]>);
+      } catch {
+        return;
+      }
+    }
+
+    const onFocus = () => void load();
+    void load();
+    window.addEventListener("focus", onFocus);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("focus", onFocus);
+    };
+  }, [key, ready]);
+
+  function update(next: NonNullable<Settings[K]>) {
+    setValue(next);
+    sendJson("/api/settings", "PUT", { [key]: next }).catch(() => undefined);
+  }
+
+  return [value, update] as const;
+}
+
+function useTrackedWallets(ready: boolean) {
+  return useServerSetting("trackedWallets", defaultTrackedWallets, ready);
+}
+
+function shortAddress(addr: string) {
+  return addr.length <= 14 ? addr : `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+}
+
+function formatMoney(v: number | null, currency: FiatCurrency | "USDC") {
   if (v == null || Number.isNaN(v)) return "—";
 
   if (currency === "USDC") {
@@ -97,24 +316,109 @@ function formatMoney(v: number | null, currency: "USD" | "USDC") {
     return `${formatted} USDC`;
   }
 
-  return new Intl.NumberFormat(undefined, {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: v < 1 ? 6 : 2,
-  }).format(v);
+  return formatFiat(v, currency);
+}
+
+function useQuoteCurrency(ready: boolean) {
+  return useServerSetting("quoteCurrency", "USD", ready);
+}
+
+// State that lived in localStorage before it moved to the server store.
+const LEGACY_STATE_KEY =
+  /^(thetaRewardsTracking\.v1|tfuelLifetimeStartedAt\.v1|stakingUsdAlert\.v1|priceHistory\.v1|priceHistory\.v2(\.[A-Z]{3})?|trackedWallets\.v1|quoteCurrency\.v1)$/;
+
+/** Hands legacy localStorage state to the server once; resolves to true when done. */
+function useLegacyStateImport() {
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function run() {
+      const items: Record<string, string> = {};
+      try {
+        for (let i = 0; i < window.localStorage.length; i++) {
+          const key = window.localStorage.key(i);
+          const value = key ? window.localStorage.getItem(key) : null;
+          if (key && value != null && LEGACY_STATE_KEY.test(key)) items[key] = value;
+        }
+      } catch {
+        // Storage unavailable; nothing to import.
+      }
+
+      if (Object.keys(items).length > 0) {
+        try {
+          const res = await fetch("/api/state/import", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(items),
+          });
+          // Only forget the local copy once the server has it.
+          if (res.ok) {
+            for (const key of Object.keys(items)) window.localStorage.removeItem(key);
+          }
+        } catch {
+          // Try again on the next visit.
+        }
+      }
+
+      if (!cancelled) setReady(true);
+    }
+
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return ready;
 }
 
-async function getPrice(symbol: string): Promise<PriceRow> {
-  const res = await fetch(`/api/price?symbol=${encodeURIComponent(symbol)}`, {
-    cache: "no-store",
+async function sendJson(url: string, method: "POST" | "PUT" | "DELETE", body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
   });
+  if (!res.ok) throw new Error(`${method} ${url} failed (${res.status})`);
+  return (await res.json()) as unknown;
+}
+
+async function fetchTrackingSession(): Promise<TrackingState | null> {
+  const res = await fetch("/api/tracking", { cache: "no-store" });
+  if (!res.ok) return null;
+  const json = (await res.json()) as { session: TrackingState | null };
+  const s = json.session;
+  return s ? { startedAt: s.startedAt, baselines: s.baselines, series: s.series } : null;
+}
+
+async function fetchSettings(): Promise<Settings | null> {
+  const res = await fetch("/api/settings", { cache: "no-store" });
+  if (!res.ok) return null;
+  return ((await res.json()) as { settings: Settings }).settings;
+}
+
+async function fetchLifetimeStartedAt(): Promise<number | null> {
+  return (await fetchSettings())?.lifetimeStartedAt ?? null;
+}
+
+async function getPrice(
+  symbol: string,
+  currency: FiatCurrency,
+): Promise<PriceRow> {
+  const res = await fetch(
+    `/api/price?symbol=${encodeURIComponent(symbol)}&currency=${encodeURIComponent(currency)}`,
+    { cache: "no-store" },
+  );
 
   if (!res.ok) {
     return {
       symbol,
       usdc: null,
       usd: null,
-      source: "simpleswap",
+      currency,
+      price: null,
+      source: "median",
       fetchedAt: Date.now(),
       error: `HTTP ${res.status}`,
     };
@@ -140,19 +444,16 @@ export default function Home() {
   }, [refreshOptions]);
 
   const tokens = useMemo(
-    () => [
-      { symbol: "tfuel", label: "TFUEL" },
-      { symbol: "theta", label: "THETA" },
-    ],
+    () => TOKENS.map((t) => ({ symbol: t.symbol, label: t.label })),
     [],
   );
 
+  const serverStateReady = useLegacyStateImport();
+  const [trackedWallets, setTrackedWallets] = useTrackedWallets(serverStateReady);
+  const [currency, setCurrency] = useQuoteCurrency(serverStateReady);
   const trackedThetaAddresses = useMemo(
-    () => [
-      "0xa7c140c272fe9d9c30ec6af97c209f745375cfa4",
-      "0x343a8bacd985f8ef2fc59d567edc78a097bf87e8",
-    ],
-    [],
+    () => trackedWallets.filter((w) => w.enabled).map((w) => w.address),
+    [trackedWallets],
   );
 
   const [prices, setPrices] = useState<Record<string, PriceRow>>({});
@@ -168,6 +469,7 @@ export default function Home() {
 
   const [pricesRefreshNonce, setPricesRefreshNonce] = useState(0);
   const [swapRefreshNonce, setSwapRefreshNonce] = useState(0);
+  const [ordersNonce, setOrdersNonce] = useState(0);
   const [stakingRefreshNonce, setStakingRefreshNonce] = useState(0);
 
   const [touchStart, setTouchStart] = useState<{
@@ -186,7 +488,9 @@ export default function Home() {
     async function load() {
       setLoading(true);
       try {
-        const rows = await Promise.all(tokens.map((t) => getPrice(t.symbol)));
+        const rows = await Promise.all(
+          tokens.map((t) => getPrice(t.symbol, currency)),
+        );
         if (cancelled) return;
         setPrices((prev) => {
           const next = { ...prev };
@@ -208,7 +512,7 @@ export default function Home() {
       cancelled = true;
       if (id != null) window.clearInterval(id);
     };
-  }, [tokens, pricesAutoRefreshMs, pricesRefreshNonce]);
+  }, [tokens, currency, pricesAutoRefreshMs, pricesRefreshNonce]);
 
   function triggerRefreshForTab(nextTab: "prices" | "swap" | "staking") {
     if (nextTab === "prices") setPricesRefreshNonce((v) => v + 1);
@@ -278,6 +582,7 @@ export default function Home() {
       if (amountTouched) return;
       if (selectedSymbol !== "tfuel") return;
       if (amount.trim() !== "") return;
+      if (trackedThetaAddresses.length === 0) return;
 
       try {
         const res = await fetch(
@@ -325,9 +630,23 @@ export default function Home() {
             />
             <div className="flex flex-col leading-tight">
               <h1 className="text-lg font-semibold">T-Fuel Staking Rewards</h1>
-              <p className="text-xs text-zinc-400">
-                Default: USDC
-              </p>
+              <label className="flex items-center gap-1 text-xs text-zinc-400">
+                Quote currency:
+                <select
+                  className="rounded bg-transparent text-xs font-semibold text-zinc-200 outline-none"
+                  value={currency}
+                  onChange={(e) => {
+                    const next = parseFiatCurrency(e.target.value);
+                    if (next) setCurrency(next);
+                  }}
+                >
+                  {FIAT_CURRENCIES.map((c) => (
+                    <option key={c.code} value={c.code}>
+                      {c.code}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
           </div>
           <a
@@ -406,7 +725,17 @@ export default function Home() {
               </div>
             </div>
 
-            <Dashboard prices={prices} autoRefreshMs={stakingAutoRefreshMs} refreshLabel={refreshLabel} />
+            {serverStateReady ? (
+              <Dashboard
+                prices={prices}
+                currency={currency}
+                addresses={trackedThetaAddresses}
+                autoRefreshMs={stakingAutoRefreshMs}
+                refreshLabel={refreshLabel}
+              />
+            ) : null}
+
+            <PriceAlerts prices={prices} currency={currency} />
           </section>
         ) : null}
 
@@ -417,7 +746,7 @@ export default function Home() {
                 <div className="min-w-0">
                   <h2 className="text-sm font-semibold">Swap</h2>
                   <p className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
-                    Convert TFUEL/THETA to USDC and compare Solana vs Ethereum.
+                    Convert TFUEL/THETA to USDC and compare stablecoin networks.
                   </p>
                 </div>
                 <div className="flex flex-col items-end gap-1">
@@ -443,14 +772,8 @@ export default function Home() {
               <div className="flex items-baseline justify-between">
                 <div className="text-sm font-semibold">
                   Converter{" "}
-                  <span
-                    className={
-                      selectedSymbol === "tfuel"
-                        ? "text-[#ff6a00]"
-                        : "text-[#14b8a6]"
-                    }
-                  >
-                    {selectedSymbol.toUpperCase()}
+                  <span style={{ color: tokenColor(selectedSymbol) }}>
+                    {tokenLabel(selectedSymbol)}
                   </span>
                 </div>
                 <div className="text-[11px] text-zinc-600 dark:text-zinc-400">
@@ -471,21 +794,24 @@ export default function Home() {
                   setAmountTouched(true);
                   setAmount(v);
                 }}
+                onOrderCreated={() => setOrdersNonce((n) => n + 1)}
               />
             </div>
 
+            <div className="app-glass min-w-0 overflow-hidden rounded-xl p-2">
+              <div className="text-sm font-semibold">Exchanges</div>
+              <p className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+                SimpleSwap orders created here, refreshed until they finish.
+              </p>
+              <SwapOrders reloadNonce={ordersNonce} />
+            </div>
+
             <div className="app-glass min-w-0 overflow-hidden rounded-xl p-2">
               <div className="flex items-baseline justify-between">
                 <div className="text-sm font-semibold">
                   Network comparison{" "}
-                  <span
-                    className={
-                      selectedSymbol === "tfuel"
-                        ? "text-[#ff6a00]"
-                        : "text-[#14b8a6]"
-                    }
-                  >
-                    {selectedSymbol.toUpperCase()}
+                  <span style={{ color: tokenColor(selectedSymbol) }}>
+                    {tokenLabel(selectedSymbol)}
                   </span>
                 </div>
                 <div className="text-[11px] text-zinc-600 dark:text-zinc-400">
@@ -493,7 +819,7 @@ export default function Home() {
                 </div>
               </div>
               <p className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
-                Solana (USDC SPL) is usually cheaper than Ethereum (USDC ERC-20).
+                Every USDC and USDT network SimpleSwap lists, ranked by what you receive.
               </p>
               <NetworkFees
                 prices={prices}
@@ -508,6 +834,29 @@ export default function Home() {
                 }}
               />
             </div>
+            <div className="app-glass min-w-0 overflow-hidden rounded-xl p-2">
+              <div className="flex items-baseline justify-between">
+                <div className="text-sm font-semibold">
+                  Best execution{" "}
+                  <span style={{ color: tokenColor(selectedSymbol) }}>
+                    {tokenLabel(selectedSymbol)}
+                  </span>
+                </div>
+                <div className="text-[11px] text-zinc-600 dark:text-zinc-400">
+                  All venues
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+                SimpleSwap, ThetaSwap and exchange tickers for one destination, with a split
+                when size costs too much on a single venue.
+              </p>
+              <BestRoute
+                symbol={selectedSymbol}
+                amount={amount}
+                autoRefreshMs={swapAutoRefreshMs}
+                refreshNonce={swapRefreshNonce}
+              />
+            </div>
           </section>
         ) : null}
 
@@ -540,12 +889,33 @@ export default function Home() {
               </div>
             </div>
 
-            <StakingTracker
-              prices={prices}
+            {serverStateReady ? (
+              <StakingTracker
+                prices={prices}
+                currency={currency}
+                wallets={trackedWallets}
+                autoRefreshMs={stakingAutoRefreshMs}
+                refreshLabel={refreshLabel}
+                refreshNonce={stakingRefreshNonce}
+              />
+            ) : null}
+
+            <StakeWithdrawals
+              wallets={trackedWallets}
               autoRefreshMs={stakingAutoRefreshMs}
-              refreshLabel={refreshLabel}
               refreshNonce={stakingRefreshNonce}
             />
+
+            <WalletManager
+              wallets={trackedWallets}
+              onWalletsChange={setTrackedWallets}
+            />
+
+            <GainsTracker wallets={trackedWallets} currency={currency} />
+
+            <TaxExport wallets={trackedWallets} currency={currency} />
+
+            <WebhookAlerts wallets={trackedWallets} currency={currency} />
           </section>
         ) : null}
       </main>
@@ -581,46 +951,19 @@ type TrackingState = {
   series: Record<string, Record<string, number>>;
 };
 
-function readNumberFromLocalStorage(key: string): number | null {
-  try {
-    const raw = window.localStorage.getItem(key);
-    if (!raw) return null;
-    const n = Number(raw);
-    return Number.isFinite(n) ? n : null;
-  } catch {
-    return null;
-  }
-}
-
-function writeNumberToLocalStorage(key: string, value: number | null) {
-  try {
-    if (value == null) {
-      window.localStorage.removeItem(key);
-      return;
-    }
-    window.localStorage.setItem(key, String(value));
-  } catch {
-    return;
-  }
-}
-
 function Dashboard({
   prices,
+  currency,
+  addresses: trackedAddresses,
   autoRefreshMs,
   refreshLabel,
 }: {
   prices: Record<string, PriceRow>;
+  currency: FiatCurrency;
+  addresses: string[];
   autoRefreshMs: number;
   refreshLabel: (ms: number) => string;
 }) {
-  const trackedAddresses = useMemo(
-    () => [
-      "0xa7c140c272fe9d9c30ec6af97c209f745375cfa4",
-      "0x343a8bacd985f8ef2fc59d567edc78a097bf87e8",
-    ],
-    [],
-  );
-
   const [wallets, setWallets] = useState<ThetaRewardsResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [stakingLastUpdatedAt, setStakingLastUpdatedAt] = useState<number | null>(
@@ -633,70 +976,41 @@ function Dashboard({
   );
   const [pricesExpanded, setPricesExpanded] = useState(false);
   const [priceHistory, setPriceHistory] = useState<PriceHistoryStore>({
-    tfuel: [],
-    theta: [],
+    currency: "USD",
+    series: {},
   });
   const [earningsView, setEarningsView] = useState<"total" | "today">("total");
   const [earningsChartView, setEarningsChartView] = useState<
     "combined" | "day"
   >("combined");
-  const [priceChartSymbol, setPriceChartSymbol] = useState<"tfuel" | "theta">(
-    "tfuel",
-  );
+  const [priceChartSymbol, setPriceChartSymbol] = useState<string>("tfuel");
+  // `${currency}:${symbol}:${t}` of samples the server already has.
+  const persistedSamples = useRef(new Set<string>());
   const [historyBackfilledAt, setHistoryBackfilledAt] = useState<number | null>(
     null,
   );
 
-  const loadTracking = useMemo(
-    () => () => {
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
       try {
-        const raw = window.localStorage.getItem("thetaRewardsTracking.v1");
-        if (!raw) {
-          setTracking(null);
-          return;
-        }
-        const parsed = JSON.parse(raw) as unknown;
-        if (!parsed || typeof parsed !== "object") {
-          setTracking(null);
-          return;
-        }
-        const obj = parsed as Record<string, unknown>;
-        if (
-          typeof obj.startedAt === "number" &&
-          obj.baselines &&
-          typeof obj.baselines === "object" &&
-          obj.series &&
-          typeof obj.series === "object"
-        ) {
-          setTracking({
-            startedAt: obj.startedAt,
-            baselines: obj.baselines as Record<string, number | null>,
-            series: obj.series as Record<string, Record<string, number>>,
-          });
-        } else {
-          setTracking(null);
-        }
+        const [session, startedAt] = await Promise.all([
+          fetchTrackingSession(),
+          fetchLifetimeStartedAt(),
+        ]);
+        if (cancelled) return;
+        setTracking(session);
+        setLifetimeStartedAt(startedAt);
       } catch {
-        setTracking(null);
+        return;
       }
-    },
-    [],
-  );
-
-  useEffect(() => {
-    loadTracking();
-  }, [loadTracking]);
-
-  useEffect(() => {
-    function onStorage(e: StorageEvent) {
-      if (e.key === "thetaRewardsTracking.v1") loadTracking();
     }
-    window.addEventListener("storage", onStorage);
-    return () => window.removeEventListener("storage", onStorage);
-  }, [loadTracking]);
 
-  useEffect(() => {
-    setLifetimeStartedAt(readNumberFromLocalStorage("tfuelLifetimeStartedAt.v1"));
+    void load();
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
@@ -705,223 +1019,165 @@ function Dashboard({
     async function backfill() {
       // Backfill hourly points for the last 30 days so closing the tab doesn't create gaps.
       // This is a best-effort request; local sampling still runs while open.
-      try {
-        const [tfuelRes, thetaRes] = await Promise.all([
-          fetch("/api/history?symbol=tfuel&days=30", { cache: "no-store" }),
-          fetch("/api/history?symbol=theta&days=30", { cache: "no-store" }),
-        ]);
+      const fetched = await Promise.all(
+        TOKENS.map(async (t) => {
+          try {
+            const res = await fetch(
+              `/api/history?symbol=${encodeURIComponent(t.symbol)}&days=30&currency=${currency}`,
+              { cache: "no-store" },
+            );
+            if (!res.ok) return null;
+            const json = (await res.json()) as HistoryResponse;
+            const series = (json.prices ?? [])
+              .map((p) => ({ t: p.t, price: p.price }))
+              .filter((p) => Number.isFinite(p.t) && Number.isFinite(p.price))
+              .sort((a, b) => a.t - b.t);
+            return series.length < 2 ? null : ([t.symbol, series] as const);
+          } catch {
+            return null;
+          }
+        }),
+      );
+
+      const backfilled = fetched.filter(
+        (v): v is readonly [string, TokenPricePoint[]] => v != null,
+      );
+      if (backfilled.length === 0 || cancelled) return;
 
-        if (!tfuelRes.ok || !thetaRes.ok) return;
-        const tfuelJson = (await tfuelRes.json()) as HistoryResponse;
-        const thetaJson = (await thetaRes.json()) as HistoryResponse;
+      setPriceHistory((prev) => {
+        const series = prev.currency === currency ? { ...prev.series } : {};
+        for (const [symbol, points] of backfilled) {
+          series[symbol] = mergePriceSeries(series[symbol] ?? [], points);
+        }
 
-        const tfuelSeries = (tfuelJson.prices ?? [])
-          .map((p) => ({ t: p.t, price: p.price }))
-          .filter((p) => Number.isFinite(p.t) && Number.isFinite(p.price))
-          .sort((a, b) => a.t - b.t);
+        return { currency, series };
+      });
 
-        const thetaSeries = (thetaJson.prices ?? [])
-          .map((p) => ({ t: p.t, price: p.price }))
-          .filter((p) => Number.isFinite(p.t) && Number.isFinite(p.price))
-          .sort((a, b) => a.t - b.t);
+      setHistoryBackfilledAt(Date.now());
+    }
 
-        if (tfuelSeries.length < 2 || thetaSeries.length < 2) return;
+    void backfill();
+    return () => {
+      cancelled = true;
+    };
+  }, [currency]);
 
-        if (cancelled) return;
+  useEffect(() => {
+    let cancelled = false;
 
-        setPriceHistory((prev) => {
-          const cap = 900;
-
-          const mergeSeries = (a: TokenPricePoint[], b: TokenPricePoint[]) => {
-            const byT = new Map<number, TokenPricePoint>();
-            for (const p of a) byT.set(p.t, p);
-            for (const p of b) byT.set(p.t, p);
-            const next = Array.from(byT.values()).sort((x, y) => x.t - y.t);
-            return next.length > cap ? next.slice(next.length - cap) : next;
-          };
+    async function load() {
+      try {
+        const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+        const res = await fetch(
+          `/api/prices/samples?currency=${currency}&since=${since}`,
+          { cache: "no-store" },
+        );
+        if (!res.ok || cancelled) return;
+        const json = (await res.json()) as {
+          series: Record<string, TokenPricePoint[]>;
+        };
 
-          return {
-            tfuel: mergeSeries(prev.tfuel, tfuelSeries),
-            theta: mergeSeries(prev.theta, thetaSeries),
-          };
-        });
+        for (const [symbol, points] of Object.entries(json.series)) {
+          for (const p of points) persistedSamples.current.add(`${currency}:${symbol}:${p.t}`);
+        }
 
-        setHistoryBackfilledAt(Date.now());
+        setPriceHistory((prev) => {
+          const series = prev.currency === currency ? { ...prev.series } : {};
+          for (const [symbol, points] of Object.entries(json.series)) {
+            series[symbol] = mergePriceSeries(series[symbol] ?? [], points);
+          }
+          return { currency, series };
+        });
       } catch {
         return;
       }
     }
 
-    void backfill();
+    void load();
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [currency]);
 
   useEffect(() => {
-    try {
-      // Prefer v2 (per-token). If only v1 exists, migrate.
-      const rawV2 = window.localStorage.getItem("priceHistory.v2");
-      if (rawV2) {
-        const parsed = JSON.parse(rawV2) as unknown;
-        if (parsed && typeof parsed === "object") {
-          const obj = parsed as Record<string, unknown>;
-          const tfuel = Array.isArray(obj.tfuel) ? obj.tfuel : [];
-          const theta = Array.isArray(obj.theta) ? obj.theta : [];
-
-          function parseSeries(raw: unknown): TokenPricePoint[] {
-            if (!Array.isArray(raw)) return [];
-            return raw
-              .map((p) => {
-                if (!p || typeof p !== "object") return null;
-                const o = p as Record<string, unknown>;
-                const t = typeof o.t === "number" ? o.t : null;
-                const price = typeof o.price === "number" ? o.price : null;
-                if (
-                  t == null ||
-                  price == null ||
-                  !Number.isFinite(t) ||
-                  !Number.isFinite(price)
-                ) {
-                  return null;
-                }
-                return { t, price };
-              })
-              .filter((v): v is TokenPricePoint => v != null)
-              .sort((a, b) => a.t - b.t);
-          }
-
-          setPriceHistory({
-            tfuel: parseSeries(tfuel),
-            theta: parseSeries(theta),
-          });
-          return;
-        }
-      }
+    const { currency: sampleCurrency, series } = priceHistory;
+    const samples = Object.entries(series).flatMap(([symbol, points]) =>
+      points
+        .filter((p) => !persistedSamples.current.has(`${sampleCurrency}:${symbol}:${p.t}`))
+        .map((p) => ({ symbol, t: p.t, price: p.price })),
+    );
+    if (samples.length === 0) return;
 
-      const rawV1 = window.localStorage.getItem("priceHistory.v1");
-      if (!rawV1) return;
-      const parsedV1 = JSON.parse(rawV1) as unknown;
-      if (!Array.isArray(parsedV1)) return;
-
-      const tfuel: TokenPricePoint[] = [];
-      const theta: TokenPricePoint[] = [];
-
-      for (const p of parsedV1) {
-        if (!p || typeof p !== "object") continue;
-        const obj = p as Record<string, unknown>;
-        const t = typeof obj.t === "number" ? obj.t : null;
-        const tfuelUsd = typeof obj.tfuelUsd === "number" ? obj.tfuelUsd : null;
-        const thetaUsd = typeof obj.thetaUsd === "number" ? obj.thetaUsd : null;
-        if (
-          t == null ||
-          tfuelUsd == null ||
-          thetaUsd == null ||
-          !Number.isFinite(t) ||
-          !Number.isFinite(tfuelUsd) ||
-          !Number.isFinite(thetaUsd)
-        ) {
-          continue;
-        }
-        tfuel.push({ t, price: tfuelUsd });
-        theta.push({ t, price: thetaUsd });
-      }
+    // Mark before sending so overlapping renders don't post the same points twice.
+    const keys = samples.map((p) => `${sampleCurrency}:${p.symbol}:${p.t}`);
+    for (const k of keys) persistedSamples.current.add(k);
 
-      tfuel.sort((a, b) => a.t - b.t);
-      theta.sort((a, b) => a.t - b.t);
+    sendJson("/api/prices/samples", "POST", { currency: sampleCurrency, samples }).catch(
+      () => {
+        for (const k of keys) persistedSamples.current.delete(k);
+      },
+    );
+  }, [priceHistory]);
 
-      setPriceHistory({ tfuel, theta });
-    } catch {
-      return;
+  const samplePrices = useMemo(() => {
+    const out: Record<string, number> = {};
+    for (const t of TOKENS) {
+      const row = prices[t.symbol];
+      if (row?.currency !== priceHistory.currency) continue;
+      if (typeof row.price === "number" && Number.isFinite(row.price)) {
+        out[t.symbol] = row.price;
+      }
     }
-  }, []);
+    return out;
+  }, [prices, priceHistory.currency]);
 
-  useEffect(() => {
-    try {
-      window.localStorage.setItem("priceHistory.v2", JSON.stringify(priceHistory));
-    } catch {
-      return;
-    }
-  }, [priceHistory]);
+  const shortestSampledSeries = Math.min(
+    ...Object.keys(samplePrices).map((s) => priceHistory.series[s]?.length ?? 0),
+  );
 
   useEffect(() => {
-    const tfuelUsdRaw = prices.tfuel?.usd;
-    const thetaUsdRaw = prices.theta?.usd;
-    if (tfuelUsdRaw == null || thetaUsdRaw == null) return;
-    if (typeof tfuelUsdRaw !== "number" || typeof thetaUsdRaw !== "number") return;
-    if (!Number.isFinite(tfuelUsdRaw) || !Number.isFinite(thetaUsdRaw)) return;
-
-    const tfuelUsd = tfuelUsdRaw;
-    const thetaUsd = thetaUsdRaw;
+    const symbols = Object.keys(samplePrices);
+    if (symbols.length === 0) return;
 
+    const sampleCurrency = priceHistory.currency;
     const minIntervalMs = 15 * 60 * 1000;
     const maxPoints = 8 * 24 * 4; // ~8 days at 15min resolution
 
-    function pushSample(sampleTime: number) {
-      setPriceHistory((prev) => {
-        const lastTfuel = prev.tfuel.at(-1);
-        if (lastTfuel && sampleTime - lastTfuel.t < 1000) return prev;
-
-        const tfuelNext = [...prev.tfuel, { t: sampleTime, price: tfuelUsd }];
-        const thetaNext = [...prev.theta, { t: sampleTime, price: thetaUsd }];
-
-        return {
-          tfuel:
-            tfuelNext.length > maxPoints
-              ? tfuelNext.slice(tfuelNext.length - maxPoints)
-              : tfuelNext,
-          theta:
-            thetaNext.length > maxPoints
-              ? thetaNext.slice(thetaNext.length - maxPoints)
-              : thetaNext,
-        };
-      });
-    }
-
-    const now = Date.now();
-    setPriceHistory((prev) => {
-      // 1) If we have no samples, add immediately.
-      if (prev.tfuel.length === 0 || prev.theta.length === 0) {
-        return {
-          tfuel: [...prev.tfuel, { t: now, price: tfuelUsd }],
-          theta: [...prev.theta, { t: now, price: thetaUsd }],
-        };
+    // Appends the current prices to every series whose last sample is at least `minGapMs` old.
+    function appendSamples(
+      prev: PriceHistoryStore,
+      sampleTime: number,
+      minGapMs: number,
+    ): PriceHistoryStore {
+      if (prev.currency !== sampleCurrency) return prev;
+      const series = { ...prev.series };
+      let changed = false;
+      for (const symbol of symbols) {
+        const cur = series[symbol] ?? [];
+        const last = cur.at(-1);
+        if (last && sampleTime - last.t < minGapMs) continue;
+        const next = [...cur, { t: sampleTime, price: samplePrices[symbol] }];
+        series[symbol] =
+          next.length > maxPoints ? next.slice(next.length - maxPoints) : next;
+        changed = true;
       }
+      return changed ? { ...prev, series } : prev;
+    }
 
-      // 2) Normal cadence: only sample if >= 15 minutes since last.
-      const last = prev.tfuel.at(-1);
-      if (last && now - last.t >= minIntervalMs) {
-        const tfuelNext = [...prev.tfuel, { t: now, price: tfuelUsd }];
-        const thetaNext = [...prev.theta, { t: now, price: thetaUsd }];
-
-        return {
-          tfuel:
-            tfuelNext.length > maxPoints
-              ? tfuelNext.slice(tfuelNext.length - maxPoints)
-              : tfuelNext,
-          theta:
-            thetaNext.length > maxPoints
-              ? thetaNext.slice(thetaNext.length - maxPoints)
-              : thetaNext,
-        };
-      }
+    // 1) First sample immediately, then only if >= 15 minutes since last.
+    setPriceHistory((prev) => appendSamples(prev, Date.now(), minIntervalMs));
 
-      return prev;
-    });
-
-    // 3) If fewer than 2 samples, take a second one quickly so the chart draws.
-    if (priceHistory.tfuel.length < 2 || priceHistory.theta.length < 2) {
-      const id = window.setTimeout(() => pushSample(Date.now()), 5_000);
+    // 2) If fewer than 2 samples, take a second one quickly so the chart draws.
+    if (shortestSampledSeries < 2) {
+      const id = window.setTimeout(
+        () => setPriceHistory((prev) => appendSamples(prev, Date.now(), 1000)),
+        5_000,
+      );
       return () => window.clearTimeout(id);
     }
 
     return;
-  }, [
-    priceHistory.tfuel.length,
-    priceHistory.theta.length,
-    prices.tfuel?.usd,
-    prices.theta?.usd,
-  ]);
+  }, [samplePrices, priceHistory.currency, shortestSampledSeries]);
 
   function normalizeSeries(pts: TokenPricePoint[], w: number, h: number) {
     if (pts.length < 2) return "";
@@ -942,7 +1198,7 @@ function Dashboard({
   useEffect(() => {
     let cancelled = false;
     async function load() {
-      if (lifetimeStartedAt == null) {
+      if (lifetimeStartedAt == null || trackedAddresses.length === 0) {
         setLifetimeEarned(null);
         return;
       }
@@ -952,7 +1208,7 @@ function Dashboard({
         const res = await fetch(
           `/api/theta/earned?addresses=${encodeURIComponent(trackedAddresses.join(","))}&since=${encodeURIComponent(
             String(sinceSec),
-          )}`,
+          )}&currency=${currency}`,
           { cache: "no-store" },
         );
         if (!res.ok) return;
@@ -969,12 +1225,16 @@ function Dashboard({
       cancelled = true;
       window.clearInterval(id);
     };
-  }, [lifetimeStartedAt, trackedAddresses]);
+  }, [lifetimeStartedAt, trackedAddresses, currency]);
 
   useEffect(() => {
     let cancelled = false;
 
     async function load() {
+      if (trackedAddresses.length === 0) {
+        setWallets(null);
+        return;
+      }
       setLoading(true);
       try {
         const res = await fetch(
@@ -1000,8 +1260,8 @@ function Dashboard({
     };
   }, [trackedAddresses, autoRefreshMs]);
 
-  const tfuelPrice = prices.tfuel?.usd ?? null;
-  const thetaPrice = prices.theta?.usd ?? null;
+  const tfuelPrice = prices.tfuel?.price ?? null;
+  const thetaPrice = prices.theta?.price ?? null;
 
   const totals = useMemo(() => {
     const rows = wallets?.results ?? [];
@@ -1018,25 +1278,35 @@ function Dashboard({
       .filter((v): v is number => typeof v === "number" && Number.isFinite(v))
       .reduce((a, b) => a + b, 0);
 
+    // TNT-20 holdings (TDROP, wTFUEL, ...) summed per token across wallets.
+    const tnt20: Record<string, number> = {};
+    for (const t of TOKENS) {
+      if (!t.tnt20) continue;
+      const vals = rows
+        .map((r) => r.tokenBalances?.[t.symbol])
+        .filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+      if (vals.length) tnt20[t.symbol] = vals.reduce((a, b) => a + b, 0);
+    }
+
     return {
       tfuel: rows.length ? tfuel : null,
       rewards7d: rows.length ? rewards7d : null,
       rewards30d: rows.length ? rewards30d : null,
+      tnt20,
     };
   }, [wallets]);
 
+  // The tracking series holds cumulative coinbase rewards, so transfers and
+  // fees don't show up as earnings.
   const earnedSinceStart = useMemo(() => {
-    if (!tracking || !wallets) return null;
-    const sum = wallets.results
-      .map((r) => {
-        const base = tracking.baselines[r.address];
-        if (base == null || r.tfuelBalance == null) return null;
-        return Math.max(0, r.tfuelBalance - base);
-      })
-      .filter((v): v is number => v != null)
-      .reduce((a, b) => a + b, 0);
+    if (!tracking) return null;
+    let sum = 0;
+    for (const series of Object.values(tracking.series)) {
+      const lastKey = Object.keys(series).sort().at(-1);
+      if (lastKey) sum += series[lastKey] ?? 0;
+    }
     return sum;
-  }, [tracking, wallets]);
+  }, [tracking]);
 
   const lifetimeEarnedTotal = useMemo(() => {
     const rows = lifetimeEarned?.results ?? [];
@@ -1047,12 +1317,15 @@ function Dashboard({
     return rows.length ? sum : null;
   }, [lifetimeEarned]);
 
-  const earnedSinceStartUsd =
+  const earnedSinceStartFiat =
     earnedSinceStart == null || tfuelPrice == null ? null : earnedSinceStart * tfuelPrice;
-  const lifetimeEarnedUsd =
+  const lifetimeEarnedFiat =
     lifetimeEarnedTotal == null || tfuelPrice == null
       ? null
       : lifetimeEarnedTotal * tfuelPrice;
+  // Only trust the server's receipt-time valuation when it matches the selected currency.
+  const lifetimeValueAtReceipt =
+    lifetimeEarned?.currency === currency ? lifetimeEarned.valueAtReceipt ?? null : null;
 
   const earnedToday = useMemo(() => {
     if (!tracking) return null;
@@ -1070,7 +1343,7 @@ function Dashboard({
     return Number.isFinite(total) ? total : null;
   }, [tracking]);
 
-  const earnedTodayUsd =
+  const earnedTodayFiat =
     earnedToday == null || tfuelPrice == null ? null : earnedToday * tfuelPrice;
 
   const earnedYesterday = useMemo(() => {
@@ -1089,7 +1362,7 @@ function Dashboard({
     return Number.isFinite(total) ? total : null;
   }, [tracking]);
 
-  const earnedYesterdayUsd =
+  const earnedYesterdayFiat =
     earnedYesterday == null || tfuelPrice == null
       ? null
       : earnedYesterday * tfuelPrice;
@@ -1181,8 +1454,8 @@ function Dashboard({
             </div>
             <div className="mt-1 text-2xl font-extrabold tracking-tight text-[#ff6a00]">
               {formatMoney(
-                earningsView === "today" ? earnedTodayUsd : earnedSinceStartUsd,
-                "USD",
+                earningsView === "today" ? earnedTodayFiat : earnedSinceStartFiat,
+                currency,
               )}
             </div>
             <div className="mt-1 text-xs text-zinc-400">
@@ -1211,8 +1484,8 @@ function Dashboard({
                     : `${formatCompactNumber(earnedSinceStart, 3)} TFUEL`,
               },
               {
-                label: "Earned since start (USD)",
-                value: formatMoney(earnedSinceStartUsd, "USD"),
+                label: `Earned since start (${currency})`,
+                value: formatMoney(earnedSinceStartFiat, currency),
               },
               {
                 label: "Lifetime earned",
@@ -1222,8 +1495,22 @@ function Dashboard({
                     : `${formatCompactNumber(lifetimeEarnedTotal, 3)} TFUEL`,
               },
               {
-                label: "Lifetime earned (USD)",
-                value: formatMoney(lifetimeEarnedUsd, "USD"),
+                label: `Lifetime earned (${currency})`,
+                value: formatMoney(lifetimeEarnedFiat, currency),
+              },
+              {
+                label: "Value when earned",
+                value: formatMoney(lifetimeValueAtReceipt, currency),
+              },
+              {
+                label: "Now vs when earned",
+                value:
+                  lifetimeValueAtReceipt == null || lifetimeEarnedFiat == null
+                    ? "—"
+                    : `${lifetimeEarnedFiat >= lifetimeValueAtReceipt ? "+" : ""}${formatMoney(
+                        lifetimeEarnedFiat - lifetimeValueAtReceipt,
+                        currency,
+                      )}${lifetimeEarned?.complete === false ? " (syncing)" : ""}`,
               },
             ] as Array<{ label: string; value: ReactNode }>).map((m) => (
               <div
@@ -1275,7 +1562,7 @@ function Dashboard({
                   <div className="rounded-xl border border-white/10 bg-black/30 p-3">
                     <div className="text-[11px] text-zinc-400">Today</div>
                     <div className="mt-1 text-sm font-semibold text-[#ff6a00]">
-                      {formatMoney(earnedTodayUsd, "USD")}
+                      {formatMoney(earnedTodayFiat, currency)}
                     </div>
                     <div className="mt-1 text-[11px] text-zinc-400">
                       {earnedToday == null
@@ -1286,7 +1573,7 @@ function Dashboard({
                   <div className="rounded-xl border border-white/10 bg-black/30 p-3">
                     <div className="text-[11px] text-zinc-400">Yesterday</div>
                     <div className="mt-1 text-sm font-semibold text-zinc-50">
-                      {formatMoney(earnedYesterdayUsd, "USD")}
+                      {formatMoney(earnedYesterdayFiat, currency)}
                     </div>
                     <div className="mt-1 text-[11px] text-zinc-400">
                       {earnedYesterday == null
@@ -1380,16 +1667,16 @@ function Dashboard({
               <div className="mt-1 text-[11px] text-zinc-400">
                 {totals.tfuel == null || tfuelPrice == null
                   ? "—"
-                  : formatMoney(totals.tfuel * tfuelPrice, "USD")}
+                  : formatMoney(totals.tfuel * tfuelPrice, currency)}
               </div>
             </div>
 
             <div className="rounded-xl border border-white/10 bg-black/30 p-3">
-              <div className="text-[11px] text-zinc-400">TFUEL total (USD)</div>
+              <div className="text-[11px] text-zinc-400">TFUEL total ({currency})</div>
               <div className="mt-1 text-lg font-semibold text-[#ff6a00]">
                 {totals.tfuel == null || tfuelPrice == null
                   ? "—"
-                  : formatMoney(totals.tfuel * tfuelPrice, "USD")}
+                  : formatMoney(totals.tfuel * tfuelPrice, currency)}
               </div>
               <div className="mt-1 text-[11px] text-zinc-400">
                 {formatCompactNumber(totals.tfuel, 3)} TFUEL
@@ -1404,7 +1691,7 @@ function Dashboard({
               <div className="mt-1 text-[11px] text-zinc-400">
                 {totals.rewards7d == null || tfuelPrice == null
                   ? "—"
-                  : formatMoney(totals.rewards7d * tfuelPrice, "USD")}
+                  : formatMoney(totals.rewards7d * tfuelPrice, currency)}
               </div>
             </div>
 
@@ -1416,9 +1703,32 @@ function Dashboard({
               <div className="mt-1 text-[11px] text-zinc-400">
                 {totals.rewards30d == null || tfuelPrice == null
                   ? "—"
-                  : formatMoney(totals.rewards30d * tfuelPrice, "USD")}
+                  : formatMoney(totals.rewards30d * tfuelPrice, currency)}
               </div>
             </div>
+
+            {Object.entries(totals.tnt20).map(([symbol, amount]) => {
+              const price = prices[symbol]?.price ?? null;
+              return (
+                <div
+                  key={symbol}
+                  className="rounded-xl border border-white/10 bg-black/30 p-3"
+                >
+                  <div className="text-[11px] text-zinc-400">
+                    {tokenLabel(symbol)} total
+                  </div>
+                  <div
+                    className="mt-1 text-lg font-semibold"
+                    style={{ color: tokenColor(symbol) }}
+                  >
+                    {formatCompactNumber(amount, 3)}
+                  </div>
+                  <div className="mt-1 text-[11px] text-zinc-400">
+                    {price == null ? "—" : formatMoney(amount * price, currency)}
+                  </div>
+                </div>
+              );
+            })}
           </div>
       </div>
 
@@ -1429,77 +1739,100 @@ function Dashboard({
           </div>
           <div className="mt-3 grid gap-2">
             <div className="grid grid-cols-2 gap-2">
-              <button
-                type="button"
-                className={
-                  priceChartSymbol === "tfuel"
-                    ? "ios-press app-glass rounded-xl p-3 text-left ring-1 ring-[rgba(255,106,0,0.35)]"
-                    : "ios-press app-glass rounded-xl p-3 text-left"
-                }
-                onClick={() => {
-                  setPriceChartSymbol("tfuel");
-                  setPricesExpanded(false);
-                }}
-              >
-                <div className="text-xs font-semibold text-[#ff6a00]">TFUEL</div>
-                <div className="mt-1 text-lg font-semibold text-[#ff6a00]">
-                  {formatMoney(prices.tfuel?.usdc ?? null, "USDC")}
-                </div>
-                <div className="text-xs text-zinc-400">
-                  {formatMoney(prices.tfuel?.usd ?? null, "USD")}
-                </div>
-              </button>
+              {TOKENS.map((t) => (
+                <button
+                  key={t.symbol}
+                  type="button"
+                  className={
+                    priceChartSymbol === t.symbol
+                      ? "ios-press app-glass rounded-xl p-3 text-left ring-1"
+                      : "ios-press app-glass rounded-xl p-3 text-left"
+                  }
+                  style={
+                    priceChartSymbol === t.symbol
+                      ? { ["--tw-ring-color" as string]: `${t.color}59` }
+                      : undefined
+                  }
+                  onClick={() => {
+                    setPriceChartSymbol(t.symbol);
+                    setPricesExpanded(false);
+                  }}
+                >
+                  <div className="text-xs font-semibold" style={{ color: t.color }}>
+                    {t.label}
+                  </div>
+                  <div className="mt-1 text-lg font-semibold" style={{ color: t.color }}>
+                    {formatMoney(prices[t.symbol]?.usdc ?? null, "USDC")}
+                  </div>
+                  <div className="text-xs text-zinc-400">
+                    {formatMoney(prices[t.symbol]?.price ?? null, currency)}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
 
-              <button
-                type="button"
-                className={
-                  priceChartSymbol === "theta"
-                    ? "ios-press app-glass rounded-xl p-3 text-left ring-1 ring-[rgba(20,184,166,0.35)]"
-                    : "ios-press app-glass rounded-xl p-3 text-left"
-                }
-                onClick={() => {
-                  setPriceChartSymbol("theta");
-                  setPricesExpanded(false);
-                }}
-              >
-                <div className="text-xs font-semibold text-[#14b8a6]">THETA</div>
-                <div className="mt-1 text-lg font-semibold text-[#14b8a6]">
-                  {formatMoney(prices.theta?.usdc ?? null, "USDC")}
+          {(() => {
+            const row = prices[priceChartSymbol];
+            const providers = row?.providers ?? [];
+            if (providers.length === 0) return null;
+            return (
+              <div className="mt-2 rounded-xl border border-white/10 bg-black/20 p-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-[11px] font-semibold text-zinc-200">Sources</div>
+                  <div className="text-[11px] text-zinc-400">
+                    {row?.source === "median" ? "Median" : row?.source ?? "—"}
+                  </div>
                 </div>
-                <div className="text-xs text-zinc-400">
-                  {formatMoney(prices.theta?.usd ?? null, "USD")}
+                <div className="mt-2 grid gap-1">
+                  {providers.map((p) => (
+                    <div
+                      key={p.id}
+                      className="grid grid-cols-[1fr_auto_auto] items-center gap-3 text-[11px]"
+                      title={p.error}
+                    >
+                      <span
+                        className={
+                          p.status === "used" ? "text-zinc-200" : "text-zinc-500"
+                        }
+                      >
+                        {p.label}
+                        {p.status === "outlier" ? " (outlier)" : ""}
+                        {p.status === "failed" ? " (failed)" : ""}
+                      </span>
+                      <span
+                        className={
+                          p.status === "used"
+                            ? "text-right font-semibold text-zinc-50"
+                            : "text-right text-zinc-500 line-through"
+                        }
+                      >
+                        {p.price == null ? "—" : formatMoney(p.price, PROVIDER_QUOTE_CURRENCY)}
+                      </span>
+                      <span className="w-12 text-right text-zinc-500">
+                        {p.latencyMs}ms
+                      </span>
+                    </div>
+                  ))}
                 </div>
-              </button>
-            </div>
-          </div>
+              </div>
+            );
+          })()}
 
           {(() => {
-            const series =
-              priceChartSymbol === "tfuel" ? priceHistory.tfuel : priceHistory.theta;
+            const series = priceHistory.series[priceChartSymbol] ?? [];
             if (series.length < 2) return null;
             const start = series[0];
             const end = series[series.length - 1];
             const delta = end.price - start.price;
             const pct = start.price === 0 ? null : (delta / start.price) * 100;
-            const color = priceChartSymbol === "tfuel" ? "#ff6a00" : "#14b8a6";
-            const symbolLabel = priceChartSymbol === "tfuel" ? "TFUEL" : "THETA";
+            const color = tokenColor(priceChartSymbol);
+            const symbolLabel = tokenLabel(priceChartSymbol);
             const samples = series.length;
 
-            const startLabel = new Intl.NumberFormat(undefined, {
-              style: "currency",
-              currency: "USD",
-              maximumFractionDigits: start.price < 1 ? 6 : 2,
-            }).format(start.price);
-            const endLabel = new Intl.NumberFormat(undefined, {
-              style: "currency",
-              currency: "USD",
-              maximumFractionDigits: end.price < 1 ? 6 : 2,
-            }).format(end.price);
-            const deltaLabel = new Intl.NumberFormat(undefined, {
-              style: "currency",
-              currency: "USD",
-              maximumFractionDigits: Math.abs(delta) < 1 ? 6 : 2,
-            }).format(delta);
+            const startLabel = formatFiat(start.price, priceHistory.currency);
+            const endLabel = formatFiat(end.price, priceHistory.currency);
+            const deltaLabel = formatFiat(delta, priceHistory.currency);
 
             return (
               <div className="mt-2 rounded-xl border border-white/10 bg-black/20 p-3">
@@ -1565,12 +1898,10 @@ function Dashboard({
                 <svg viewBox="0 0 300 90" className="h-[90px] w-full">
                   <polyline
                     fill="none"
-                    stroke={priceChartSymbol === "tfuel" ? "#ff6a00" : "#14b8a6"}
+                    stroke={tokenColor(priceChartSymbol)}
                     strokeWidth="2"
                     points={normalizeSeries(
-                      priceChartSymbol === "tfuel"
-                        ? priceHistory.tfuel
-                        : priceHistory.theta,
+                      priceHistory.series[priceChartSymbol] ?? [],
                       300,
                       90,
                     )}
@@ -1585,14 +1916,15 @@ function Dashboard({
   );
 }
 
-function ThetaExplorerRewards({ prices }: { prices: Record<string, PriceRow> }) {
-  const defaultAddresses = useMemo(
-    () => [
-      "0xa7c140c272fe9d9c30ec6af97c209f745375cfa4",
-      "0x343a8bacd985f8ef2fc59d567edc78a097bf87e8",
-    ],
-    [],
-  );
+function ThetaExplorerRewards({
+  prices,
+  currency,
+  addresses: defaultAddresses,
+}: {
+  prices: Record<string, PriceRow>;
+  currency: FiatCurrency;
+  addresses: string[];
+}) {
 
   const [data, setData] = useState<ThetaRewardsResponse | null>(null);
   const [loading, setLoading] = useState(false);
@@ -1600,6 +1932,10 @@ function ThetaExplorerRewards({ prices }: { prices: Record<string, PriceRow> })
   useEffect(() => {
     let cancelled = false;
     async function load() {
+      if (defaultAddresses.length === 0) {
+        setData(null);
+        return;
+      }
       setLoading(true);
       try {
         const res = await fetch(
@@ -1621,8 +1957,8 @@ function ThetaExplorerRewards({ prices }: { prices: Record<string, PriceRow> })
     };
   }, [defaultAddresses]);
 
-  const tfuelUsd = prices.tfuel?.usd ?? null;
-  const thetaUsd = prices.theta?.usd ?? null;
+  const tfuelPrice = prices.tfuel?.price ?? null;
+  const thetaPrice = prices.theta?.price ?? null;
 
   return (
     <div className="rounded-xl border border-black/10 bg-zinc-50 p-3 text-sm dark:border-white/10 dark:bg-black">
@@ -1649,17 +1985,17 @@ function ThetaExplorerRewards({ prices }: { prices: Record<string, PriceRow> })
               const projMonth = avg30d == null ? null : avg30d * 30;
               const projYear = avg30d == null ? null : avg30d * 365;
 
-              const projYearUsd =
-                projYear == null || tfuelUsd == null ? null : projYear * tfuelUsd;
-              const stakedUsd =
-                r.stakedTheta == null || thetaUsd == null
+              const projYearFiat =
+                projYear == null || tfuelPrice == null ? null : projYear * tfuelPrice;
+              const stakedFiat =
+                r.stakedTheta == null || thetaPrice == null
                   ? null
-                  : r.stakedTheta * thetaUsd;
+                  : r.stakedTheta * thetaPrice;
 
-              const aprUsd =
-                projYearUsd == null || stakedUsd == null || stakedUsd <= 0
+              const apr =
+                projYearFiat == null || stakedFiat == null || stakedFiat <= 0
                   ? null
-                  : (projYearUsd / stakedUsd) * 100;
+                  : (projYearFiat / stakedFiat) * 100;
 
               return (
                 <>
@@ -1707,16 +2043,16 @@ function ThetaExplorerRewards({ prices }: { prices: Record<string, PriceRow> })
                 {formatCompactNumber(projYear, 3)}
               </div>
 
-              <div className="text-zinc-600 dark:text-zinc-400">Rewards (30d USD)</div>
+              <div className="text-zinc-600 dark:text-zinc-400">Rewards (30d {currency})</div>
               <div className="text-right text-zinc-700 dark:text-zinc-300">
-                {r.rewards30d == null || tfuelUsd == null
+                {r.rewards30d == null || tfuelPrice == null
                   ? "—"
-                  : formatMoney(r.rewards30d * tfuelUsd, "USD")}
+                  : formatMoney(r.rewards30d * tfuelPrice, currency)}
               </div>
 
-              <div className="text-zinc-600 dark:text-zinc-400">Implied APR (USD)</div>
+              <div className="text-zinc-600 dark:text-zinc-400">Implied APR</div>
               <div className="text-right text-zinc-700 dark:text-zinc-300">
-                {aprUsd == null ? "—" : `${aprUsd.toFixed(2)}%`}
+                {apr == null ? "—" : `${apr.toFixed(2)}%`}
               </div>
             </div>
                 </>
@@ -1748,15 +2084,7 @@ function TokenRow({
     <div className="rounded-2xl border border-black/10 bg-white p-3 dark:border-white/10 dark:bg-zinc-950">
       <div className="flex items-center justify-between">
         <div>
-          <div
-            className={
-              label === "TFUEL"
-                ? "text-xs font-semibold text-[#ff6a00]"
-                : label === "THETA"
-                  ? "text-xs font-semibold text-[#14b8a6]"
-                  : "text-xs font-semibold"
-            }
-          >
+          <div className="text-xs font-semibold" style={{ color: tokenColor(symbol) }}>
             {label}
           </div>
           <div className="text-[11px] text-zinc-600 dark:text-zinc-400">
@@ -1784,6 +2112,7 @@ function Converter({
   autoRefreshMs,
   refreshNonce,
   onAmountChange,
+  onOrderCreated,
 }: {
   prices: Record<string, PriceRow>;
   symbol: string;
@@ -1792,8 +2121,11 @@ function Converter({
   autoRefreshMs: number;
   refreshNonce?: number;
   onAmountChange: (v: string) => void;
+  onOrderCreated?: () => void;
 }) {
   const [network, setNetwork] = useState<"sol" | "eth">("sol");
+  const [mode, setMode] = useState<"amount" | "target">("amount");
+  const [target, setTarget] = useState("");
   const [quote, setQuote] = useState<QuoteResponse | null>(null);
   const [quoteLoading, setQuoteLoading] = useState(false);
   const [quoteLastUpdatedAt, setQuoteLastUpdatedAt] = useState<number | null>(
@@ -1806,24 +2138,37 @@ function Converter({
     return v;
   }, [amount]);
 
+  const parsedTarget = useMemo(() => {
+    const v = Number(target);
+    if (!Number.isFinite(v) || v < 0) return null;
+    return v;
+  }, [target]);
+
   const row = prices[symbol];
   const usdcValue =
     parsedAmount == null || row?.usdc == null ? null : parsedAmount * row.usdc;
   const usdValue =
     parsedAmount == null || row?.usd == null ? null : parsedAmount * row.usd;
+  const spotNeeded =
+    parsedTarget == null || row?.usdc == null || row.usdc <= 0
+      ? null
+      : parsedTarget / row.usdc;
+  // What goes into SimpleSwap: the typed amount, or the one found for the target.
+  const sendAmount =
+    mode === "target" ? (quote?.target != null ? quote.amount : null) : parsedAmount;
 
   const simpleSwapUrl = useMemo(() => {
     const from = symbol.trim().toLowerCase();
     const to = network === "sol" ? "usdcspl" : "usdc";
     const pair = `${from}-${to}`;
     const url = new URL(`https://simpleswap.io/crypto-to-crypto/${pair}`);
-    if (parsedAmount != null && parsedAmount > 0) {
+    if (sendAmount != null && sendAmount > 0) {
       // If SimpleSwap supports prefilling, this should populate the "You send" amount.
       // If not supported, it will be ignored safely.
-      url.searchParams.set("amount", String(parsedAmount));
+      url.searchParams.set("amount", String(sendAmount));
     }
     return url.toString();
-  }, [symbol, network, parsedAmount]);
+  }, [symbol, network, sendAmount]);
 
   const networkTintBgClass =
     network === "sol"
@@ -1836,7 +2181,8 @@ function Converter({
     let cancelled = false;
 
     async function load() {
-      if (parsedAmount == null || parsedAmount <= 0) {
+      const value = mode === "target" ? parsedTarget : parsedAmount;
+      if (value == null || value <= 0) {
         setQuote(null);
         return;
       }
@@ -1844,7 +2190,7 @@ function Converter({
       setQuoteLoading(true);
       try {
         const res = await fetch(
-          `/api/quote?symbol=${encodeURIComponent(symbol)}&amount=${encodeURIComponent(String(parsedAmount))}&network=${encodeURIComponent(network)}`,
+          `/api/quote?symbol=${encodeURIComponent(symbol)}&${mode}=${encodeURIComponent(String(value))}&network=${encodeURIComponent(network)}`,
           { cache: "no-store" },
         );
         const json = (await res.json()) as QuoteResponse;
@@ -1866,13 +2212,40 @@ function Converter({
       cancelled = true;
       if (id != null) window.clearInterval(id);
     };
-  }, [symbol, parsedAmount, network, autoRefreshMs, refreshNonce]);
+  }, [symbol, mode, parsedAmount, parsedTarget, network, autoRefreshMs, refreshNonce]);
 
   return (
     <div className="mt-3 flex w-full flex-col gap-3">
+      <div className="grid w-full grid-cols-2 gap-2">
+        {(
+          [
+            { id: "amount", label: "Send amount" },
+            { id: "target", label: "Receive target" },
+          ] as const
+        ).map((m) => (
+          <button
+            key={m.id}
+            type="button"
+            className={
+              mode === m.id
+                ? "ios-press h-9 rounded-xl border border-white/10 bg-white/15 text-xs font-semibold text-zinc-50"
+                : "ios-press h-9 rounded-xl border border-white/10 bg-black/20 text-xs font-semibold text-zinc-300 hover:bg-black/30"
+            }
+            onClick={() => {
+              setMode(m.id);
+              setQuote(null);
+            }}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
       <div className="w-full min-w-0 rounded-xl border border-white/10 bg-black/20 p-3">
         <div className="flex items-center justify-between">
-          <div className="text-xs font-semibold text-zinc-200">You send</div>
+          <div className="text-xs font-semibold text-zinc-200">
+            {mode === "target" ? "You want to receive (USDC)" : "You send"}
+          </div>
           <div className="text-[11px] text-zinc-400">
             {row?.source ?? "—"}
           </div>
@@ -1883,26 +2256,33 @@ function Converter({
             className="h-14 min-w-0 flex-1 rounded-xl border border-white/10 bg-black/30 px-4 text-xl font-semibold text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400"
             inputMode="decimal"
             placeholder="0"
-            value={amount}
-            onChange={(e) => onAmountChange(e.target.value)}
+            value={mode === "target" ? target : amount}
+            onChange={(e) =>
+              mode === "target" ? setTarget(e.target.value) : onAmountChange(e.target.value)
+            }
           />
           <select
-            className={
-              symbol === "tfuel"
-                ? "h-14 w-28 shrink-0 rounded-xl border border-white/10 bg-black/30 px-3 text-sm font-semibold text-[#ff6a00] outline-none focus:ring-2 focus:ring-[#ff6a00]"
-                : "h-14 w-28 shrink-0 rounded-xl border border-white/10 bg-black/30 px-3 text-sm font-semibold text-[#14b8a6] outline-none focus:ring-2 focus:ring-[#14b8a6]"
-            }
+            className="h-14 w-28 shrink-0 rounded-xl border border-white/10 bg-black/30 px-3 text-sm font-semibold outline-none focus:ring-2"
+            style={{
+              color: tokenColor(symbol),
+              ["--tw-ring-color" as string]: tokenColor(symbol),
+            }}
             value={symbol}
             onChange={(e) => onSymbolChange(e.target.value)}
           >
-            <option value="tfuel">TFUEL</option>
-            <option value="theta">THETA</option>
+            {TOKENS.map((t) => (
+              <option key={t.symbol} value={t.symbol}>
+                {t.label}
+              </option>
+            ))}
           </select>
         </div>
 
         <div className="mt-2 flex min-w-0 items-center justify-between gap-3">
           <div className="min-w-0 truncate text-[11px] text-zinc-400">
-            Spot: {formatMoney(usdcValue, "USDC")} ({formatMoney(usdValue, "USD")})
+            {mode === "target"
+              ? `Spot: ${spotNeeded == null ? "—" : formatCompactNumber(spotNeeded, 4)} ${tokenLabel(symbol)}`
+              : `Spot: ${formatMoney(usdcValue, "USDC")} (${formatMoney(usdValue, "USD")})`}
           </div>
         </div>
 
@@ -1948,18 +2328,38 @@ function Converter({
 
         <div className="mt-3">
           <div className="flex items-start justify-between gap-3">
-            <div className="flex flex-col">
-              <div className="text-[11px] text-zinc-400">Estimated received</div>
-              <div className="mt-1 text-2xl font-extrabold tracking-tight text-zinc-50">
-                {quote?.estimatedUsdc == null
-                  ? "—"
-                  : new Intl.NumberFormat(undefined, {
-                      style: "decimal",
-                      maximumFractionDigits: quote.estimatedUsdc < 1 ? 6 : 2,
-                    }).format(quote.estimatedUsdc)}
-                <span className="ml-2 text-[11px] font-semibold text-zinc-300">USDC</span>
+            {mode === "target" ? (
+              <div className="flex flex-col">
+                <div className="text-[11px] text-zinc-400">You need to send</div>
+                <div className="mt-1 text-2xl font-extrabold tracking-tight text-zinc-50">
+                  {sendAmount == null ? "—" : formatCompactNumber(sendAmount, 4)}
+                  <span
+                    className="ml-2 text-[11px] font-semibold"
+                    style={{ color: tokenColor(symbol) }}
+                  >
+                    {tokenLabel(symbol)}
+                  </span>
+                </div>
+                <div className="text-[11px] text-zinc-300">
+                  {quote?.estimatedUsdc == null
+                    ? ""
+                    : `Receives ${formatMoney(quote.estimatedUsdc, "USDC")}`}
+                </div>
               </div>
-            </div>
+            ) : (
+              <div className="flex flex-col">
+                <div className="text-[11px] text-zinc-400">Estimated received</div>
+                <div className="mt-1 text-2xl font-extrabold tracking-tight text-zinc-50">
+                  {quote?.estimatedUsdc == null
+                    ? "—"
+                    : new Intl.NumberFormat(undefined, {
+                        style: "decimal",
+                        maximumFractionDigits: quote.estimatedUsdc < 1 ? 6 : 2,
+                      }).format(quote.estimatedUsdc)}
+                  <span className="ml-2 text-[11px] font-semibold text-zinc-300">USDC</span>
+                </div>
+              </div>
+            )}
 
             <div className="flex flex-col items-end text-right">
               <div className="text-[11px] text-zinc-400">Fee vs spot</div>
@@ -1986,22 +2386,54 @@ function Converter({
             <div className="flex flex-col">
               <div className="text-[11px] text-zinc-400">Effective price</div>
               <div
-                className={
-                  symbol === "tfuel"
-                    ? "mt-1 text-sm font-semibold text-[#ff6a00]"
-                    : "mt-1 text-sm font-semibold text-[#14b8a6]"
-                }
+                className="mt-1 text-sm font-semibold"
+                style={{ color: tokenColor(symbol) }}
               >
                 {quote?.effectiveUsdPerToken == null
                   ? "—"
-                  : `${formatMoney(quote.effectiveUsdPerToken, "USD")}/${symbol.toUpperCase()}`}
+                  : `${formatMoney(quote.effectiveUsdPerToken, "USD")}/${tokenLabel(symbol)}`}
               </div>
             </div>
           </div>
 
+          {quote?.fixed ? <FixedRateCompare fixed={quote.fixed} /> : null}
+
+          {quote?.dex ? (
+            <div className="mt-2 rounded-xl border border-white/10 bg-black/20 p-2 text-[11px]">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-zinc-400">ThetaSwap (USDC on Theta)</span>
+                <span className="text-sm font-semibold text-zinc-50">
+                  {formatMoney(quote.dex.quote?.amountOut ?? null, "USDC")}
+                </span>
+              </div>
+              {quote.dex.quote ? (
+                <div className="mt-1 text-zinc-400">
+                  {quote.dex.quote.path.map((t) => tokenLabel(t)).join(" → ")} · pool fees{" "}
+                  {quote.dex.quote.lpFeePct.toFixed(2)}% · price impact{" "}
+                  {quote.dex.quote.priceImpactPct.toFixed(2)}%
+                </div>
+              ) : null}
+              {quote.dex.error ? <div className="mt-1 text-zinc-400">{quote.dex.error}</div> : null}
+            </div>
+          ) : null}
+
           {quote?.minAmount != null ? (
             <div className="mt-2 text-[11px] text-zinc-300">Minimum: {quote.minAmount}</div>
           ) : null}
+
+          {mode === "target" && sendAmount != null ? (
+            <button
+              type="button"
+              className="ios-press mt-3 h-9 w-full rounded-xl border border-white/10 bg-black/30 text-xs font-semibold text-zinc-100 hover:bg-black/40"
+              onClick={() => {
+                onAmountChange(String(sendAmount));
+                setMode("amount");
+                setQuote(null);
+              }}
+            >
+              Use {formatCompactNumber(sendAmount, 4)} {tokenLabel(symbol)} as the amount
+            </button>
+          ) : null}
         </div>
 
         <a
@@ -2012,6 +2444,13 @@ function Converter({
         >
           Open in SimpleSwap
         </a>
+
+        <CreateExchange
+          symbol={symbol}
+          to={network === "sol" ? "usdc-sol" : "usdc-eth"}
+          amount={sendAmount}
+          onCreated={onOrderCreated}
+        />
       </div>
 
       {row?.error ? (
@@ -2027,308 +2466,939 @@ function Converter({
   );
 }
 
-function labelNetwork(n: "usdc-sol" | "usdc-eth") {
-  return n === "usdc-sol" ? "USDC (Solana)" : "USDC (Ethereum)";
-}
-
-function daysBetween(startMs: number, endMs: number) {
-  const msPerDay = 24 * 60 * 60 * 1000;
-  return Math.max(0, Math.floor((endMs - startMs) / msPerDay));
-}
-
-function StakingTracker({
-  prices,
-  autoRefreshMs,
-  refreshLabel,
-  refreshNonce,
+function CreateExchange({
+  symbol,
+  to,
+  amount,
+  onCreated,
 }: {
-  prices: Record<string, PriceRow>;
-  autoRefreshMs: number;
-  refreshLabel: (ms: number) => string;
-  refreshNonce?: number;
+  symbol: string;
+  to: FeeTarget;
+  amount: number | null;
+  onCreated?: () => void;
 }) {
-  const defaultAddresses = useMemo(
-    () => [
-      "0xa7c140c272fe9d9c30ec6af97c209f745375cfa4",
-      "0x343a8bacd985f8ef2fc59d567edc78a097bf87e8",
-    ],
-    [],
-  );
+  const [open, setOpen] = useState(false);
+  const [addressTo, setAddressTo] = useState("");
+  const [refundAddress, setRefundAddress] = useState("");
+  const [fixed, setFixed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useState<SwapOrder | null>(null);
+
+  async function create() {
+    if (amount == null || amount <= 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/orders", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ symbol, to, amount, fixed, addressTo, refundAddress }),
+      });
+      const json = (await res.json().catch(() => null)) as {
+        order?: SwapOrder;
+        error?: string;
+      } | null;
+      if (!res.ok || !json?.order) {
+        throw new Error(json?.error ?? `Creating the exchange failed (${res.status})`);
+      }
+      setCreated(json.order);
+      onCreated?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }
 
-  const [data, setData] = useState<ThetaRewardsResponse | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [stakingLastUpdatedAt, setStakingLastUpdatedAt] = useState<number | null>(
-    null,
-  );
-  const [tracking, setTracking] = useState<{
-    startedAt: number;
-    baselines: Record<string, number | null>;
-    series: Record<string, Record<string, number>>;
-  } | null>(null);
-  const [lifetimeStartedAt, setLifetimeStartedAt] = useState<number | null>(null);
-  const [lifetimeEarned, setLifetimeEarned] = useState<ThetaEarnedResponse | null>(
-    null,
-  );
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="ios-press mt-2 h-10 w-full rounded-xl border border-white/10 bg-black/20 text-xs font-semibold text-zinc-200 hover:bg-black/30"
+        onClick={() => setOpen(true)}
+      >
+        Create exchange here
+      </button>
+    );
+  }
 
-  const [alertEnabled, setAlertEnabled] = useState(false);
-  const [alertThresholdUsd, setAlertThresholdUsd] = useState<string>("200");
-  const [alertUseBrowserNotifications, setAlertUseBrowserNotifications] =
-    useState(false);
-  const [alertArmed, setAlertArmed] = useState(true);
-  const [alertBanner, setAlertBanner] = useState<string | null>(null);
+  const inputClass =
+    "h-10 w-full min-w-0 rounded-xl border border-white/10 bg-black/30 px-3 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400";
 
-  const tfuelUsd = prices.tfuel?.usd ?? null;
-  const thetaUsd = prices.theta?.usd ?? null;
+  return (
+    <div className="mt-3 flex flex-col gap-2 rounded-xl border border-white/10 bg-black/20 p-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-zinc-200">Create exchange</span>
+        <button
+          type="button"
+          className="ios-press text-[11px] text-zinc-400 hover:text-zinc-200"
+          onClick={() => setOpen(false)}
+        >
+          Close
+        </button>
+      </div>
+      <input
+        className={inputClass}
+        placeholder={`Your ${feeTargetLabel(to)} address`}
+        value={addressTo}
+        onChange={(e) => setAddressTo(e.target.value)}
+      />
+      <input
+        className={inputClass}
+        placeholder={`Refund ${tokenLabel(symbol)} address (optional)`}
+        value={refundAddress}
+        onChange={(e) => setRefundAddress(e.target.value)}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        {[false, true].map((f) => (
+          <button
+            key={String(f)}
+            type="button"
+            className={
+              fixed === f
+                ? "ios-press h-9 rounded-xl border border-white/10 bg-white/15 text-xs font-semibold text-zinc-50"
+                : "ios-press h-9 rounded-xl border border-white/10 bg-black/20 text-xs font-semibold text-zinc-300 hover:bg-black/30"
+            }
+            onClick={() => setFixed(f)}
+          >
+            {f ? "Fixed rate" : "Floating rate"}
+          </button>
+        ))}
+      </div>
+      <button
+        type="button"
+        className="ios-press h-10 rounded-xl border border-white/10 bg-white/10 text-xs font-semibold text-zinc-50 hover:bg-white/15 disabled:opacity-50"
+        disabled={busy || amount == null || amount <= 0 || !addressTo.trim()}
+        onClick={() => void create()}
+      >
+        {busy
+          ? "Creating…"
+          : `Swap ${amount == null ? "—" : formatCompactNumber(amount, 4)} ${tokenLabel(symbol)} → ${feeTargetLabel(to)}`}
+      </button>
+      {error ? <p className="text-[11px] text-red-300">{error}</p> : null}
+      {created ? (
+        <div className="rounded-xl border border-white/10 bg-black/30 p-2 text-[11px] text-zinc-300">
+          <div>
+            Send exactly{" "}
+            <span className="font-semibold text-zinc-50">
+              {created.amountFrom} {tokenLabel(created.symbol)}
+            </span>{" "}
+            to
+          </div>
+          <div className="mt-1 break-all font-mono text-zinc-50">{created.depositAddress}</div>
+          {created.depositExtraId ? (
+            <div className="mt-1">
+              Memo / extra id:{" "}
+              <span className="break-all font-mono text-zinc-50">{created.depositExtraId}</span>
+            </div>
+          ) : null}
+          <div className="mt-1 text-zinc-400">Order {created.id} is tracked under Exchanges.</div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
 
-  useEffect(() => {
-    try {
-      const raw = window.localStorage.getItem("stakingUsdAlert.v1");
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as unknown;
-      if (!parsed || typeof parsed !== "object") return;
-      const obj = parsed as Record<string, unknown>;
+const ORDER_POLL_MS = 15_000;
+
+const ORDER_STATUS_STYLE: Record<ExchangeStatus, { label: string; className: string }> = {
+  waiting: { label: "Waiting for deposit", className: "text-zinc-300" },
+  confirming: { label: "Confirming", className: "text-sky-300" },
+  verifying: { label: "Verifying", className: "text-sky-300" },
+  exchanging: { label: "Exchanging", className: "text-sky-300" },
+  sending: { label: "Sending", className: "text-sky-300" },
+  finished: { label: "Finished", className: "text-emerald-300" },
+  failed: { label: "Failed", className: "text-red-300" },
+  refunded: { label: "Refunded", className: "text-amber-300" },
+  expired: { label: "Expired", className: "text-zinc-500" },
+};
 
-      if (typeof obj.enabled === "boolean") setAlertEnabled(obj.enabled);
-      if (
-        typeof obj.thresholdUsd === "number" &&
-        Number.isFinite(obj.thresholdUsd)
-      ) {
-        setAlertThresholdUsd(String(obj.thresholdUsd));
-      }
-      if (typeof obj.useBrowserNotifications === "boolean") {
-        setAlertUseBrowserNotifications(obj.useBrowserNotifications);
-      }
-      if (typeof obj.armed === "boolean") setAlertArmed(obj.armed);
-    } catch {
-      return;
-    }
-  }, []);
+/** Order history; polls while any order can still change. */
+function SwapOrders({ reloadNonce }: { reloadNonce: number }) {
+  const [orders, setOrders] = useState<SwapOrder[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const hasOpen = orders.some((o) => !o.final);
 
   useEffect(() => {
-    try {
-      const threshold = Number(alertThresholdUsd);
-      window.localStorage.setItem(
-        "stakingUsdAlert.v1",
-        JSON.stringify({
-          enabled: alertEnabled,
-          thresholdUsd: Number.isFinite(threshold) ? threshold : null,
-          useBrowserNotifications: alertUseBrowserNotifications,
-          armed: alertArmed,
-        }),
-      );
-    } catch {
-      return;
-    }
-  }, [alertEnabled, alertThresholdUsd, alertUseBrowserNotifications, alertArmed]);
+    let cancelled = false;
 
-  useEffect(() => {
-    try {
-      const raw = window.localStorage.getItem("thetaRewardsTracking.v1");
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as unknown;
-      if (!parsed || typeof parsed !== "object") return;
-      const obj = parsed as Record<string, unknown>;
-      if (
-        typeof obj.startedAt === "number" &&
-        obj.baselines &&
-        typeof obj.baselines === "object" &&
-        obj.series &&
-        typeof obj.series === "object"
-      ) {
-        setTracking({
-          startedAt: obj.startedAt,
-          baselines: obj.baselines as Record<string, number | null>,
-          series: obj.series as Record<string, Record<string, number>>,
-        });
+    async function load() {
+      try {
+        const res = await fetch("/api/orders", { cache: "no-store" });
+        if (!res.ok) throw new Error(`Loading exchanges failed (${res.status})`);
+        const json = (await res.json()) as { orders: SwapOrder[]; error?: string };
+        if (!cancelled) {
+          setOrders(json.orders);
+          setError(json.error ?? null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Request failed");
       }
-    } catch {
-      return;
     }
-  }, []);
 
-  useEffect(() => {
-    try {
-      if (tracking == null) {
-        window.localStorage.removeItem("thetaRewardsTracking.v1");
-        return;
-      }
-      window.localStorage.setItem(
-        "thetaRewardsTracking.v1",
-        JSON.stringify(tracking),
-      );
-    } catch {
-      return;
-    }
-  }, [tracking]);
+    void load();
+    const id = hasOpen ? window.setInterval(load, ORDER_POLL_MS) : null;
+    return () => {
+      cancelled = true;
+      if (id != null) window.clearInterval(id);
+    };
+  }, [reloadNonce, hasOpen]);
 
-  useEffect(() => {
-    let cancelled = false;
-    async function load() {
-      setLoading(true);
-      try {
-        const res = await fetch(
-          `/api/theta/rewards?addresses=${encodeURIComponent(defaultAddresses.join(","))}`,
-          { cache: "no-store" },
-        );
-        const json = (await res.json()) as ThetaRewardsResponse;
-        if (cancelled) return;
-        setData(json);
-        setStakingLastUpdatedAt(Date.now());
+  return (
+    <div className="mt-3 flex flex-col gap-2">
+      {orders.length === 0 ? (
+        <p className="text-[11px] text-zinc-500">No exchanges yet.</p>
+      ) : (
+        orders.map((o) => {
+          const status = ORDER_STATUS_STYLE[o.status];
+          const received = o.amountTo ?? o.expectedAmount;
+          return (
+            <div key={o.id} className="rounded-xl border border-white/10 bg-black/20 p-2 text-xs">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-semibold text-zinc-100">
+                  {formatCompactNumber(o.amountFrom, 4)} {tokenLabel(o.symbol)} →{" "}
+                  {feeTargetLabel(o.to)}
+                </span>
+                <span className={`font-semibold ${status.className}`}>{status.label}</span>
+              </div>
+              <div className="mt-1 flex items-center justify-between gap-3 text-[11px] text-zinc-400">
+                <span>
+                  {new Date(o.createdAt).toLocaleString()} · {o.fixed ? "fixed" : "floating"}
+                </span>
+                <span>
+                  {o.amountTo != null ? "Received" : "Expected"}{" "}
+                  {received == null ? "—" : formatCompactNumber(received, 2)}
+                </span>
+              </div>
+              {o.status === "waiting" ? (
+                <div className="mt-1 break-all text-[11px] text-zinc-300">
+                  Deposit to <span className="font-mono">{o.depositAddress}</span>
+                  {o.depositExtraId ? ` (memo ${o.depositExtraId})` : ""}
+                  {o.rateHeldUntil != null
+                    ? ` · fixed rate held until ${new Date(o.rateHeldUntil).toLocaleTimeString()}`
+                    : ""}
+                </div>
+              ) : null}
+              {o.txTo ? (
+                <div className="mt-1 break-all text-[11px] text-zinc-500">
+                  Payout tx <span className="font-mono">{o.txTo}</span>
+                </div>
+              ) : null}
+            </div>
+          );
+        })
+      )}
+      {error ? <p className="text-[11px] text-red-300">{error}</p> : null}
+    </div>
+  );
+}
 
-        const k = dayKeyLocal(Date.now());
-        setTracking((prev) => {
-          if (prev == null) return prev;
-          const nextSeries: Record<string, Record<string, number>> = {
-            ...prev.series,
-          };
+/** Fixed vs floating for the same swap, so the guarantee's price is visible. */
+function FixedRateCompare({ fixed }: { fixed: FixedRateQuote }) {
+  const premium = fixed.premium;
+  return (
+    <div className="mt-3 rounded-xl border border-white/10 bg-black/20 p-2">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-[11px] text-zinc-400">Fixed rate</span>
+        <span className="text-sm font-semibold text-zinc-50">
+          {formatMoney(fixed.estimated, "USDC")}
+        </span>
+      </div>
+      {premium != null ? (
+        <div
+          className={`mt-1 text-[11px] ${premium > 0 ? "text-amber-300" : "text-emerald-300"}`}
+        >
+          {premium > 0
+            ? `Costs ${formatMoney(premium, "USDC")} more than floating`
+            : `Pays ${formatMoney(-premium, "USDC")} more than floating`}
+          {fixed.premiumPct == null ? "" : ` (${Math.abs(fixed.premiumPct).toFixed(2)}%)`}
+        </div>
+      ) : null}
+      {fixed.heldForMs != null ? (
+        <div className="mt-1 text-[11px] text-zinc-400">
+          Estimate only; the rate is held {formatDuration(fixed.heldForMs)} after creating the
+          exchange
+        </div>
+      ) : null}
+      {fixed.error ? (
+        <div className="mt-1 text-[11px] text-zinc-400">{fixed.error}</div>
+      ) : null}
+    </div>
+  );
+}
 
-          for (const r of json.results) {
-            const base = prev.baselines[r.address];
-            if (base == null || r.tfuelBalance == null) continue;
-            const earned = Math.max(0, r.tfuelBalance - base);
-            const walletSeries = { ...(nextSeries[r.address] ?? {}) };
-            walletSeries[k] = earned;
-            nextSeries[r.address] = walletSeries;
-          }
+type RouteResponse = RouteResult & { maxSlippagePct: number; fetchedAt: number };
 
-          return { ...prev, series: nextSeries };
+const ROUTE_SLIPPAGE_OPTIONS = [0.5, 1, 2, 5];
+
+/** Every venue for one destination, ranked, plus a split when one venue can't take the size. */
+function BestRoute({
+  symbol,
+  amount,
+  autoRefreshMs,
+  refreshNonce,
+}: {
+  symbol: string;
+  amount: string;
+  autoRefreshMs: number;
+  refreshNonce?: number;
+}) {
+  const [to, setTo] = useState<FeeTarget>("usdc-sol");
+  const [maxSlippagePct, setMaxSlippagePct] = useState(1);
+  const [data, setData] = useState<RouteResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const amountNum = useMemo(() => {
+    const v = Number(amount);
+    if (!Number.isFinite(v) || v <= 0) return null;
+    return v;
+  }, [amount]);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      if (amountNum == null) return;
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          symbol,
+          amount: String(amountNum),
+          to,
+          maxSlippagePct: String(maxSlippagePct),
         });
+        const res = await fetch(`/api/route?${params}`, { cache: "no-store" });
+        const json = (await res.json()) as RouteResponse | { error: string };
+        if (cancelled) return;
+        if ("error" in json) {
+          setError(json.error);
+          setData(null);
+        } else {
+          setData(json);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Request failed");
       } finally {
         if (!cancelled) setLoading(false);
       }
     }
 
     void load();
-    const id =
-      autoRefreshMs > 0
-        ? window.setInterval(load, autoRefreshMs)
-        : null;
+    const id = autoRefreshMs > 0 ? window.setInterval(load, autoRefreshMs) : null;
     return () => {
       cancelled = true;
       if (id != null) window.clearInterval(id);
     };
-  }, [defaultAddresses, autoRefreshMs, refreshNonce]);
+  }, [symbol, amountNum, to, maxSlippagePct, autoRefreshMs, refreshNonce]);
 
-  const startedAt = tracking?.startedAt ?? null;
-  const days = startedAt == null ? 0 : daysBetween(startedAt, Date.now());
+  const best = data?.routes.find((r) => r.eligible && !r.indicative) ?? null;
 
-  function dailyDeltas(address: string): Array<{ day: string; delta: number }>
-    | null {
-    const s = tracking?.series?.[address];
-    if (!s) return null;
-    const keys = Object.keys(s).sort();
-    const deltas: Array<{ day: string; delta: number }> = [];
-    for (let i = 0; i < keys.length; i++) {
-      const k = keys[i];
-      const prev = i === 0 ? 0 : s[keys[i - 1]] ?? 0;
-      const cur = s[k] ?? 0;
-      deltas.push({ day: k, delta: Math.max(0, cur - prev) });
-    }
-    return deltas.slice(-30);
-  }
+  return (
+    <div className="mt-3 flex flex-col gap-2">
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          className="h-9 rounded-xl border border-white/10 bg-black/30 px-2 text-xs font-semibold outline-none"
+          style={{ color: feeTargetColor(to) }}
+          value={to}
+          onChange={(e) => setTo(parseFeeTarget(e.target.value) ?? "usdc-sol")}
+        >
+          {FEE_TARGETS.map((t) => (
+            <option key={t} value={t}>
+              {feeTargetLabel(t)}
+            </option>
+          ))}
+        </select>
+        <select
+          className="h-9 rounded-xl border border-white/10 bg-black/30 px-2 text-xs font-semibold text-zinc-200 outline-none"
+          value={maxSlippagePct}
+          onChange={(e) => setMaxSlippagePct(Number(e.target.value))}
+        >
+          {ROUTE_SLIPPAGE_OPTIONS.map((v) => (
+            <option key={v} value={v}>
+              Split above {v}% slippage
+            </option>
+          ))}
+        </select>
+      </div>
 
-  const totalEarnedAll = (data?.results ?? [])
-    .map((r) => {
-      if (!tracking || r.tfuelBalance == null) return null;
-      const base = tracking.baselines[r.address];
-      if (base == null) return null;
-      return Math.max(0, r.tfuelBalance - base);
-    })
-    .filter((v): v is number => v != null)
-    .reduce((a, b) => a + b, 0);
+      {amountNum == null ? (
+        <p className="text-[11px] text-zinc-500">Enter an amount in the Converter.</p>
+      ) : loading && !data ? (
+        <p className="text-[11px] text-zinc-500">Quoting venues…</p>
+      ) : null}
 
-  const totalEarnedUsd =
-    tfuelUsd == null ? null : totalEarnedAll * tfuelUsd;
+      {data?.split ? (
+        <div className="rounded-xl border border-emerald-400/30 bg-emerald-400/10 p-2 text-xs">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-semibold text-emerald-200">Recommended split</span>
+            <span className="font-semibold text-zinc-50">
+              {formatMoney(data.split.amountOut, "USDC")}
+            </span>
+          </div>
+          {data.split.legs.map((leg) => (
+            <div
+              key={leg.label}
+              className="mt-1 flex items-center justify-between gap-3 text-[11px] text-zinc-300"
+            >
+              <span>
+                {formatCompactNumber(leg.amount, 4)} {tokenLabel(data.symbol)} via {leg.label}
+              </span>
+              <span>{formatMoney(leg.amountOut, "USDC")}</span>
+            </div>
+          ))}
+          <div className="mt-1 text-[11px] text-emerald-300">
+            {formatMoney(data.split.gain, "USDC")} ({data.split.gainPct.toFixed(2)}%) more than
+            the best single venue
+          </div>
+        </div>
+      ) : best?.slippagePct != null && best.slippagePct > (data?.maxSlippagePct ?? 0) ? (
+        <p className="text-[11px] text-amber-300">
+          {best.label} loses {best.slippagePct.toFixed(2)}% to size and no split does better.
+        </p>
+      ) : null}
 
-  const alertThresholdUsdNum = useMemo(() => {
-    const v = Number(alertThresholdUsd);
-    if (!Number.isFinite(v) || v <= 0) return null;
-    return v;
-  }, [alertThresholdUsd]);
+      {(data?.routes ?? []).map((r, idx) => {
+        const isBest = best != null && r.venue === best.venue;
+        return (
+          <div
+            key={r.venue}
+            className={`rounded-xl border p-2 text-xs ${
+              isBest ? "border-white/20 bg-white/10" : "border-white/10 bg-black/20"
+            } ${r.eligible ? "" : "opacity-60"}`}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-semibold text-zinc-100">
+                {idx + 1}. {r.label}
+                {r.indicative ? (
+                  <span className="ml-1 text-[11px] font-normal text-zinc-400">estimate</span>
+                ) : null}
+              </span>
+              <span className="font-semibold text-zinc-50">{formatMoney(r.amountOut, "USDC")}</span>
+            </div>
+            <div className="mt-1 flex items-center justify-between gap-3 text-[11px] text-zinc-400">
+              <span>
+                {r.feeUsdc == null
+                  ? "Fee —"
+                  : `Fee ${formatMoney(r.feeUsdc, "USDC")}${r.feePct == null ? "" : ` (${r.feePct.toFixed(2)}%)`}`}
+                {r.slippagePct == null ? "" : ` · slippage ${r.slippagePct.toFixed(2)}%`}
+              </span>
+              <span>
+                {r.minAmount == null
+                  ? ""
+                  : `Min ${formatCompactNumber(r.minAmount, 4)} ${tokenLabel(data?.symbol ?? symbol)}`}
+              </span>
+            </div>
+            {r.note ? <div className="mt-1 text-[11px] text-zinc-500">{r.note}</div> : null}
+            {r.error ? <div className="mt-1 text-[11px] text-zinc-400">{r.error}</div> : null}
+          </div>
+        );
+      })}
 
-  useEffect(() => {
-    if (!alertEnabled) return;
-    if (!alertArmed) {
-      if (
-        alertThresholdUsdNum != null &&
-        totalEarnedUsd != null &&
-        totalEarnedUsd < alertThresholdUsdNum
-      ) {
-        setAlertArmed(true);
-      }
-      return;
-    }
+      {data ? (
+        <div className="text-[11px] text-zinc-500">
+          Quoted {new Date(data.fetchedAt).toLocaleTimeString()}
+          {loading ? " · refreshing…" : ""}
+        </div>
+      ) : null}
+      {error ? <p className="text-[11px] text-red-300">{error}</p> : null}
+    </div>
+  );
+}
 
-    if (alertThresholdUsdNum == null || totalEarnedUsd == null) return;
-    if (totalEarnedUsd < alertThresholdUsdNum) return;
-    if (tracking == null) return;
+function daysBetween(startMs: number, endMs: number) {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.floor((endMs - startMs) / msPerDay));
+}
 
-    const msg = `Staking rewards reached ${formatMoney(totalEarnedUsd, "USD")} (target ${formatMoney(alertThresholdUsdNum, "USD")}).`;
-    setAlertBanner(msg);
-    setAlertArmed(false);
+/** Units of `currency` per USD. */
+async function fetchFxRate(currency: FiatCurrency): Promise<number | null> {
+  if (currency === "USD") return 1;
+  try {
+    const res = await fetch(`/api/fx?currency=${currency}`, { cache: "no-store" });
+    const json = (await res.json()) as { rate?: number | null };
+    return typeof json.rate === "number" && json.rate > 0 ? json.rate : null;
+  } catch {
+    return null;
+  }
+}
 
-    if (!alertUseBrowserNotifications) return;
-    if (typeof window === "undefined") return;
-    if (typeof Notification === "undefined") return;
+function StakingTracker({
+  prices,
+  currency,
+  wallets,
+  autoRefreshMs,
+  refreshLabel,
+  refreshNonce,
+}: {
+  prices: Record<string, PriceRow>;
+  currency: FiatCurrency;
+  wallets: TrackedWallet[];
+  autoRefreshMs: number;
+  refreshLabel: (ms: number) => string;
+  refreshNonce?: number;
+}) {
+  const defaultAddresses = useMemo(
+    () => wallets.filter((w) => w.enabled).map((w) => w.address),
+    [wallets],
+  );
+  const walletLabels = useMemo(
+    () => new Map(wallets.map((w) => [w.address, w.label] as const)),
+    [wallets],
+  );
 
-    try {
-      if (Notification.permission === "granted") {
-        new Notification("T-Fuel Staking Rewards", {
-          body: msg,
+  const [data, setData] = useState<ThetaRewardsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [stakingLastUpdatedAt, setStakingLastUpdatedAt] = useState<number | null>(
+    null,
+  );
+  const [tracking, setTracking] = useState<{
+    startedAt: number;
+    baselines: Record<string, number | null>;
+    series: Record<string, Record<string, number>>;
+  } | null>(null);
+  const [lifetimeStartedAt, setLifetimeStartedAt] = useState<number | null>(null);
+  const [lifetimeEarned, setLifetimeEarned] = useState<ThetaEarnedResponse | null>(
+    null,
+  );
+
+  const [alertEnabled, setAlertEnabled] = useState(false);
+  const [alertThreshold, setAlertThreshold] = useState<string>("200");
+  // The currency the threshold was entered in; it follows the quote currency
+  // only once the number has been converted.
+  const [alertCurrency, setAlertCurrency] = useState<FiatCurrency>(currency);
+  const [alertUseBrowserNotifications, setAlertUseBrowserNotifications] =
+    useState(false);
+  const [alertArmed, setAlertArmed] = useState(true);
+  const [alertBanner, setAlertBanner] = useState<string | null>(null);
+
+  const tfuelPrice = prices.tfuel?.price ?? null;
+  const thetaPrice = prices.theta?.price ?? null;
+
+  // Nothing is written back until the server copy has been read, so the
+  // initial defaults never overwrite stored state.
+  const [alertLoaded, setAlertLoaded] = useState(false);
+  const [trackingLoaded, setTrackingLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch(`/api/alerts/${STAKING_VALUE_ALERT.id}`, {
+          cache: "no-store",
         });
+        if (res.ok) {
+          const { alert } = (await res.json()) as {
+            alert: {
+              enabled: boolean;
+              armed: boolean;
+              config: Partial<StakingValueAlertConfig>;
+            };
+          };
+          if (cancelled) return;
+          setAlertEnabled(alert.enabled);
+          setAlertArmed(alert.armed);
+          const threshold = alert.config.threshold;
+          if (typeof threshold === "number" && Number.isFinite(threshold)) {
+            setAlertThreshold(String(threshold));
+          }
+          const savedCurrency = parseFiatCurrency(alert.config.currency);
+          if (savedCurrency) setAlertCurrency(savedCurrency);
+          if (typeof alert.config.useBrowserNotifications === "boolean") {
+            setAlertUseBrowserNotifications(alert.config.useBrowserNotifications);
+          }
+        }
+      } catch {
+        // Fall back to defaults.
       }
-    } catch {
-      return;
+      if (!cancelled) setAlertLoaded(true);
     }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!alertLoaded) return;
+    const threshold = Number(alertThreshold);
+    const config: StakingValueAlertConfig = {
+      threshold: Number.isFinite(threshold) ? threshold : null,
+      currency: alertCurrency,
+      useBrowserNotifications: alertUseBrowserNotifications,
+    };
+
+    // Debounced so typing a threshold doesn't send a request per keystroke.
+    const id = window.setTimeout(() => {
+      sendJson(`/api/alerts/${STAKING_VALUE_ALERT.id}`, "PUT", {
+        kind: STAKING_VALUE_ALERT.kind,
+        enabled: alertEnabled,
+        armed: alertArmed,
+        config,
+      }).catch(() => undefined);
+    }, 500);
+    return () => window.clearTimeout(id);
   }, [
+    alertLoaded,
     alertEnabled,
-    alertArmed,
-    alertThresholdUsdNum,
+    alertThreshold,
+    alertCurrency,
     alertUseBrowserNotifications,
-    totalEarnedUsd,
-    tracking,
+    alertArmed,
   ]);
 
-  const lifetimeEarnedTotal = (lifetimeEarned?.results ?? [])
-    .map((r) => r.earned)
-    .filter((v): v is number => typeof v === "number" && Number.isFinite(v))
-    .reduce((a, b) => a + b, 0);
+  // Carry the threshold over when the quote currency changes, so 200 USD
+  // doesn't turn into 200 KRW. Without a rate the alert is switched off
+  // rather than left comparing against a number in the wrong currency.
+  useEffect(() => {
+    if (!alertLoaded || alertCurrency === currency) return;
+    let cancelled = false;
 
-  const shortAddress = (addr: string) =>
-    addr.length <= 14 ? addr : `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+    async function convert() {
+      const [from, to] = await Promise.all([
+        fetchFxRate(alertCurrency),
+        fetchFxRate(currency),
+      ]);
+      if (cancelled) return;
+      const threshold = Number(alertThreshold);
+      if (from != null && to != null && Number.isFinite(threshold)) {
+        const digits = FIAT_CURRENCIES.find((c) => c.code === currency)?.fractionDigits ?? 2;
+        setAlertThreshold(((threshold / from) * to).toFixed(digits));
+      } else {
+        setAlertEnabled(false);
+      }
+      setAlertCurrency(currency);
+    }
 
-  return (
-    <div className="flex flex-col gap-3">
-      {alertBanner ? (
-        <div className="app-glass rounded-xl p-3">
-          <div className="flex items-start justify-between gap-3">
-            <div className="text-xs text-zinc-50">{alertBanner}</div>
-            <button
-              type="button"
-              className="ios-press h-7 shrink-0 rounded-full border border-white/10 bg-black/40 px-3 text-[11px] font-semibold text-zinc-50 hover:bg-black/50"
-              onClick={() => setAlertBanner(null)}
-            >
-              Dismiss
-            </button>
-          </div>
-        </div>
-      ) : null}
+    void convert();
+    return () => {
+      cancelled = true;
+    };
+  }, [alertLoaded, alertCurrency, currency, alertThreshold]);
 
-      <div className="app-glass rounded-xl p-3">
-        <div className="flex items-start justify-between gap-3">
-          <div>
-            <div className="text-xs font-semibold text-zinc-200">Tracking summary</div>
-            <div className="mt-1 text-[11px] text-zinc-400">
-              Last updated: {stakingLastUpdatedAt == null ? "—" : new Date(stakingLastUpdatedAt).toLocaleTimeString()}
-            </div>
-            <div className="mt-1 text-[11px] text-zinc-400">
-              {loading ? "Refreshing…" : `Auto refresh: ${refreshLabel(autoRefreshMs)}`}
-            </div>
-          </div>
-          <div className="text-[11px] text-zinc-400">
-            {tracking ? "Running" : "Not started"}
-          </div>
-        </div>
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const [session, startedAt] = await Promise.all([
+          fetchTrackingSession(),
+          fetchLifetimeStartedAt(),
+        ]);
+        if (cancelled) return;
+        setTracking(session);
+        setLifetimeStartedAt(startedAt);
+      } catch {
+        // Keep local state; saving stays disabled below.
+        return;
+      }
+      if (!cancelled) setTrackingLoaded(true);
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!trackingLoaded) return;
+    const save =
+      tracking == null
+        ? sendJson("/api/tracking", "DELETE")
+        : sendJson("/api/tracking", "PUT", tracking);
+    save.catch(() => undefined);
+  }, [tracking, trackingLoaded]);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      if (defaultAddresses.length === 0) {
+        setData(null);
+        return;
+      }
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/theta/rewards?addresses=${encodeURIComponent(defaultAddresses.join(","))}`,
+          { cache: "no-store" },
+        );
+        const json = (await res.json()) as ThetaRewardsResponse;
+        if (cancelled) return;
+        setData(json);
+        setStakingLastUpdatedAt(Date.now());
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    const id =
+      autoRefreshMs > 0
+        ? window.setInterval(load, autoRefreshMs)
+        : null;
+    return () => {
+      cancelled = true;
+      if (id != null) window.clearInterval(id);
+    };
+  }, [defaultAddresses, autoRefreshMs, refreshNonce]);
+
+  const startedAt = tracking?.startedAt ?? null;
+  const days = startedAt == null ? 0 : daysBetween(startedAt, Date.now());
+
+  // Earnings come from coinbase rewards only; balance changes from transfers
+  // and fees are reported next to them instead of being counted as earned.
+  const [activity, setActivity] = useState<ThetaActivityResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      if (startedAt == null || defaultAddresses.length === 0) {
+        setActivity(null);
+        return;
+      }
+      try {
+        const res = await fetch(
+          `/api/theta/activity?addresses=${encodeURIComponent(defaultAddresses.join(","))}&since=${Math.floor(startedAt / 1000)}&tzOffset=${new Date().getTimezoneOffset()}`,
+          { cache: "no-store" },
+        );
+        if (!res.ok) return;
+        const json = (await res.json()) as ThetaActivityResponse;
+        if (cancelled) return;
+        setActivity(json);
+
+        setTracking((prev) => {
+          if (prev == null || prev.startedAt !== startedAt) return prev;
+          const nextSeries: Record<string, Record<string, number>> = {
+            ...prev.series,
+          };
+          for (const r of json.results) {
+            // The series stores cumulative rewards per day.
+            let total = 0;
+            const walletSeries: Record<string, number> = {};
+            for (const d of r.days) {
+              total += d.rewards;
+              walletSeries[d.day] = total;
+            }
+            walletSeries[dayKeyLocal(Date.now())] ??= total;
+            nextSeries[r.address] = walletSeries;
+          }
+          return { ...prev, series: nextSeries };
+        });
+      } catch {
+        // Keep the last known activity.
+      }
+    }
+
+    void load();
+    const id =
+      autoRefreshMs > 0
+        ? window.setInterval(load, autoRefreshMs)
+        : null;
+    return () => {
+      cancelled = true;
+      if (id != null) window.clearInterval(id);
+    };
+  }, [startedAt, defaultAddresses, autoRefreshMs, refreshNonce]);
+
+  const [anomalies, setAnomalies] = useState<RewardAnomaliesResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      if (defaultAddresses.length === 0) {
+        setAnomalies(null);
+        return;
+      }
+      try {
+        const res = await fetch(
+          `/api/theta/anomalies?addresses=${encodeURIComponent(defaultAddresses.join(","))}`,
+          { cache: "no-store" },
+        );
+        if (!res.ok) return;
+        const json = (await res.json()) as RewardAnomaliesResponse;
+        if (!cancelled) setAnomalies(json);
+      } catch {
+        // Warnings are best-effort.
+      }
+    }
+
+    void load();
+    const id =
+      autoRefreshMs > 0
+        ? window.setInterval(load, autoRefreshMs)
+        : null;
+    return () => {
+      cancelled = true;
+      if (id != null) window.clearInterval(id);
+    };
+  }, [defaultAddresses, autoRefreshMs, refreshNonce]);
+
+  const anomalyWarnings = (anomalies?.results ?? []).flatMap((r) =>
+    r.anomalies.map((a) => {
+      const wallet = walletLabels.get(r.address) || shortAddress(r.address);
+      return a.type === "gap"
+        ? `${wallet}: no reward for ${formatDuration(a.elapsedSec * 1000)} (usually every ${formatDuration(a.expectedIntervalSec * 1000)}).`
+        : `${wallet}: recent rewards ≈${formatCompactNumber(a.recentAmount, 4)} TFUEL vs usual ${formatCompactNumber(a.usualAmount, 4)}.`;
+    }),
+  );
+
+  const activityByAddress = useMemo(
+    () => new Map((activity?.results ?? []).map((r) => [r.address, r] as const)),
+    [activity],
+  );
+
+  function dailyDeltas(address: string): Array<{ day: string; delta: number }>
+    | null {
+    const s = tracking?.series?.[address];
+    if (!s) return null;
+    const keys = Object.keys(s).sort();
+    const deltas: Array<{ day: string; delta: number }> = [];
+    for (let i = 0; i < keys.length; i++) {
+      const k = keys[i];
+      const prev = i === 0 ? 0 : s[keys[i - 1]] ?? 0;
+      const cur = s[k] ?? 0;
+      deltas.push({ day: k, delta: Math.max(0, cur - prev) });
+    }
+    return deltas.slice(-30);
+  }
+
+  const totalEarnedAll = (activity?.results ?? [])
+    .map((r) => r.totals.rewards)
+    .reduce((a, b) => a + b, 0);
+
+  const totalEarnedFiat =
+    tfuelPrice == null ? null : totalEarnedAll * tfuelPrice;
+
+  const alertThresholdNum = useMemo(() => {
+    const v = Number(alertThreshold);
+    if (!Number.isFinite(v) || v <= 0) return null;
+    return v;
+  }, [alertThreshold]);
+
+  useEffect(() => {
+    // Wait for the threshold to be converted before comparing.
+    if (!alertEnabled || alertCurrency !== currency) return;
+    if (!alertArmed) {
+      if (
+        alertThresholdNum != null &&
+        totalEarnedFiat != null &&
+        totalEarnedFiat < alertThresholdNum
+      ) {
+        setAlertArmed(true);
+      }
+      return;
+    }
+
+    if (alertThresholdNum == null || totalEarnedFiat == null) return;
+    if (totalEarnedFiat < alertThresholdNum) return;
+    if (tracking == null) return;
+
+    const msg = `Staking rewards reached ${formatMoney(totalEarnedFiat, currency)} (target ${formatMoney(alertThresholdNum, currency)}).`;
+    setAlertBanner(msg);
+    setAlertArmed(false);
+
+    if (!alertUseBrowserNotifications) return;
+    if (typeof window === "undefined") return;
+    if (typeof Notification === "undefined") return;
+
+    try {
+      if (Notification.permission === "granted") {
+        new Notification("T-Fuel Staking Rewards", {
+          body: msg,
+        });
+      }
+    } catch {
+      return;
+    }
+  }, [
+    alertEnabled,
+    alertArmed,
+    alertThresholdNum,
+    alertCurrency,
+    currency,
+    alertUseBrowserNotifications,
+    totalEarnedFiat,
+    tracking,
+  ]);
+
+  const lifetimeEarnedTotal = (lifetimeEarned?.results ?? [])
+    .map((r) => r.earned)
+    .filter((v): v is number => typeof v === "number" && Number.isFinite(v))
+    .reduce((a, b) => a + b, 0);
+
+  const projectionInputs = useMemo(() => {
+    const rows = data?.results ?? [];
+    const rewards30d = rows.some((r) => r.rewards30d != null)
+      ? rows.reduce((a, r) => a + (r.rewards30d ?? 0), 0)
+      : null;
+    const stakedValue =
+      tfuelPrice == null || thetaPrice == null
+        ? null
+        : rows.reduce(
+            (a, r) => a + (r.stakedTheta ?? 0) * thetaPrice + (r.stakedTfuel ?? 0) * tfuelPrice,
+            0,
+          );
+    return {
+      rewards30d,
+      stakedValueTfuel:
+        stakedValue == null || tfuelPrice == null || tfuelPrice <= 0
+          ? null
+          : stakedValue / tfuelPrice,
+    };
+  }, [data, tfuelPrice, thetaPrice]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      {alertBanner ? (
+        <div className="app-glass rounded-xl p-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="text-xs text-zinc-50">{alertBanner}</div>
+            <button
+              type="button"
+              className="ios-press h-7 shrink-0 rounded-full border border-white/10 bg-black/40 px-3 text-[11px] font-semibold text-zinc-50 hover:bg-black/50"
+              onClick={() => setAlertBanner(null)}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {anomalyWarnings.length > 0 ? (
+        <div className="app-glass rounded-xl border border-[rgba(255,106,0,0.35)] p-3">
+          <div className="text-xs font-semibold text-[#ff6a00]">Rewards look off</div>
+          <div className="mt-1 text-[11px] text-zinc-400">
+            This usually means the node your stake is delegated to is down.
+          </div>
+          <div className="mt-2 grid gap-1">
+            {anomalyWarnings.map((w) => (
+              <div key={w} className="text-xs text-zinc-50">
+                {w}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div className="app-glass rounded-xl p-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-xs font-semibold text-zinc-200">Tracking summary</div>
+            <div className="mt-1 text-[11px] text-zinc-400">
+              Last updated: {stakingLastUpdatedAt == null ? "—" : new Date(stakingLastUpdatedAt).toLocaleTimeString()}
+            </div>
+            <div className="mt-1 text-[11px] text-zinc-400">
+              {loading ? "Refreshing…" : `Auto refresh: ${refreshLabel(autoRefreshMs)}`}
+            </div>
+          </div>
+          <div className="text-[11px] text-zinc-400">
+            {tracking ? "Running" : "Not started"}
+          </div>
+        </div>
 
         <div className="mt-3">
           <button
@@ -2346,13 +3416,12 @@ function StakingTracker({
 
               if (!data) return;
 
-              const existingLifetime = readNumberFromLocalStorage(
-                "tfuelLifetimeStartedAt.v1",
-              );
-              if (existingLifetime == null) {
+              if (lifetimeStartedAt == null) {
                 const now = Date.now();
-                writeNumberToLocalStorage("tfuelLifetimeStartedAt.v1", now);
                 setLifetimeStartedAt(now);
+                sendJson("/api/settings", "PUT", { lifetimeStartedAt: now }).catch(
+                  () => undefined,
+                );
               }
 
               const baselines: Record<string, number | null> = {};
@@ -2382,9 +3451,9 @@ function StakingTracker({
             <div className="mt-1 text-lg font-semibold text-zinc-50">{days}</div>
           </div>
           <div className="rounded-xl border border-white/10 bg-black/30 p-3">
-            <div className="text-[11px] text-zinc-400">Earned (USD)</div>
+            <div className="text-[11px] text-zinc-400">Earned ({currency})</div>
             <div className="mt-1 text-lg font-semibold text-[#ff6a00]">
-              {tracking == null ? "—" : formatMoney(totalEarnedUsd, "USD")}
+              {tracking == null ? "—" : formatMoney(totalEarnedFiat, currency)}
             </div>
           </div>
           <div className="rounded-xl border border-white/10 bg-black/30 p-3">
@@ -2411,7 +3480,7 @@ function StakingTracker({
           <div>
             <div className="text-xs font-semibold text-[#14b8a6]">Alerts</div>
             <div className="mt-1 text-[11px] text-zinc-400">
-              Notify when Earned (USD) reaches a threshold.
+              Notify when Earned ({currency}) reaches a threshold.
             </div>
           </div>
         </div>
@@ -2434,13 +3503,13 @@ function StakingTracker({
 
           <div className="grid grid-cols-[1fr_120px] items-center gap-3">
             <div className="text-xs text-zinc-400">
-              Threshold (USD)
+              Threshold ({currency})
             </div>
             <input
               className="h-9 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400"
               inputMode="decimal"
-              value={alertThresholdUsd}
-              onChange={(e) => setAlertThresholdUsd(e.target.value)}
+              value={alertThreshold}
+              onChange={(e) => setAlertThreshold(e.target.value)}
               placeholder="200"
             />
           </div>
@@ -2503,7 +3572,11 @@ function StakingTracker({
           <div>
             <div className="text-xs font-semibold">Wallets</div>
             <div className="mt-1 text-[11px] text-zinc-400">
-              {data == null ? "Loading wallet rewards…" : `${data.results.length} wallets`}
+              {defaultAddresses.length === 0
+                ? "No wallets enabled"
+                : data == null
+                  ? "Loading wallet rewards…"
+                  : `${data.results.length} wallets`}
             </div>
           </div>
         </div>
@@ -2511,12 +3584,13 @@ function StakingTracker({
         <div className="mt-3 grid gap-2">
           {(data?.results ?? []).map((r) => {
             const base = tracking?.baselines?.[r.address] ?? null;
+            const walletActivity = activityByAddress.get(r.address) ?? null;
             const earned =
-              tracking == null || base == null || r.tfuelBalance == null
+              tracking == null || walletActivity == null
                 ? null
-                : Math.max(0, r.tfuelBalance - base);
-            const earnedUsd =
-              earned == null || tfuelUsd == null ? null : earned * tfuelUsd;
+                : walletActivity.totals.rewards;
+            const earnedFiat =
+              earned == null || tfuelPrice == null ? null : earned * tfuelPrice;
 
             const deltas = tracking == null ? null : dailyDeltas(r.address);
             const maxDelta = deltas
@@ -2528,98 +3602,2155 @@ function StakingTracker({
                 ? null
                 : deltas.reduce((a, d) => a + d.delta, 0) / deltas.length;
 
-            const projMonth = avgPerDay == null ? null : avgPerDay * 30;
-            const projYear = avgPerDay == null ? null : avgPerDay * 365;
-            const projYearUsd =
-              projYear == null || tfuelUsd == null ? null : projYear * tfuelUsd;
-            const stakedUsd =
-              r.stakedTheta == null || thetaUsd == null
-                ? null
-                : r.stakedTheta * thetaUsd;
-            const aprUsd =
-              projYearUsd == null || stakedUsd == null || stakedUsd <= 0
-                ? null
-                : (projYearUsd / stakedUsd) * 100;
+            const projMonth = avgPerDay == null ? null : avgPerDay * 30;
+            const projYear = avgPerDay == null ? null : avgPerDay * 365;
+            const projYearFiat =
+              projYear == null || tfuelPrice == null ? null : projYear * tfuelPrice;
+            // Coinbase pays one amount per wallet, so rewards are split across
+            // stake kinds by their share of the staked value.
+            const stakeRows = (Object.keys(STAKE_KINDS) as StakeKind[])
+              .map((kind) => {
+                const amount = r.stakes?.[kind] ?? (kind === "guardian" ? r.stakedTheta ?? 0 : 0);
+                const price = STAKE_KINDS[kind].token === "theta" ? thetaPrice : tfuelPrice;
+                return { kind, amount, value: price == null ? null : amount * price };
+              })
+              .filter((k) => k.amount > 0);
+            const stakedFiat = stakeRows.some((k) => k.value == null)
+              ? null
+              : stakeRows.reduce((a, k) => a + (k.value ?? 0), 0);
+            const apr =
+              projYearFiat == null || stakedFiat == null || stakedFiat <= 0
+                ? null
+                : (projYearFiat / stakedFiat) * 100;
+
+            return (
+              <div
+                key={r.address}
+                className="rounded-xl border border-[rgba(255,106,0,0.18)] bg-black/30 p-3"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-xs font-semibold text-zinc-50">
+                      {walletLabels.get(r.address) || shortAddress(r.address)}
+                    </div>
+                    <div className="mt-1 text-[11px] text-zinc-400">
+                      Earned ({currency}): {earnedFiat == null ? "—" : formatMoney(earnedFiat, currency)}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-[11px] text-zinc-400">Implied APR</div>
+                    <div className="mt-1 text-sm font-semibold text-zinc-50">
+                      {apr == null ? "—" : `${apr.toFixed(2)}%`}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="mt-3 grid grid-cols-2 gap-2">
+                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+                    <div className="text-[11px] text-zinc-400">Staked THETA</div>
+                    <div className="mt-1 text-sm font-semibold text-zinc-50">
+                      {formatCompactNumber(r.stakedTheta, 3)}
+                    </div>
+                    {r.stakedTfuel ? (
+                      <div className="mt-1 text-[11px] text-zinc-400">
+                        + {formatCompactNumber(r.stakedTfuel, 3)} TFUEL (EEN)
+                      </div>
+                    ) : null}
+                  </div>
+                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+                    <div className="text-[11px] text-zinc-400">TFUEL balance</div>
+                    <div className="mt-1 text-sm font-semibold text-zinc-50">
+                      {formatCompactNumber(r.tfuelBalance, 3)}
+                    </div>
+                  </div>
+                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+                    <div className="text-[11px] text-zinc-400">Baseline</div>
+                    <div className="mt-1 text-sm font-semibold text-zinc-50">
+                      {tracking == null ? "—" : formatCompactNumber(base, 3)}
+                    </div>
+                  </div>
+                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+                    <div className="text-[11px] text-zinc-400">Avg/day</div>
+                    <div className="mt-1 text-sm font-semibold text-zinc-50">
+                      {formatCompactNumber(avgPerDay, 3)}
+                    </div>
+                  </div>
+                </div>
+
+                {tracking != null && walletActivity != null ? (
+                  <div className="mt-3 grid grid-cols-3 gap-2 text-[11px]">
+                    <div className="rounded-xl border border-white/10 bg-black/20 p-2">
+                      <div className="text-zinc-400">Transfers in</div>
+                      <div className="mt-1 font-semibold text-zinc-50">
+                        +{formatCompactNumber(walletActivity.totals.transfersIn, 3)}
+                      </div>
+                    </div>
+                    <div className="rounded-xl border border-white/10 bg-black/20 p-2">
+                      <div className="text-zinc-400">Transfers out</div>
+                      <div className="mt-1 font-semibold text-zinc-50">
+                        −{formatCompactNumber(walletActivity.totals.transfersOut, 3)}
+                      </div>
+                    </div>
+                    <div className="rounded-xl border border-white/10 bg-black/20 p-2">
+                      <div className="text-zinc-400">Fees</div>
+                      <div className="mt-1 font-semibold text-zinc-50">
+                        −{formatCompactNumber(walletActivity.totals.fees, 4)}
+                      </div>
+                    </div>
+                    {!walletActivity.complete ? (
+                      <div className="col-span-3 text-zinc-400">
+                        Still syncing transaction history…
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+
+                {stakeRows.length > 0 ? (
+                  <div className="mt-3 grid gap-1">
+                    {stakeRows.map((k) => {
+                      const share =
+                        stakedFiat == null || stakedFiat <= 0 || k.value == null
+                          ? null
+                          : k.value / stakedFiat;
+                      const rewards30d =
+                        share == null || r.rewards30d == null ? null : r.rewards30d * share;
+                      return (
+                        <div
+                          key={k.kind}
+                          className="grid grid-cols-[1fr_auto_auto] items-center gap-3 text-[11px]"
+                        >
+                          <span className="text-zinc-300">
+                            {STAKE_KINDS[k.kind].label} ·{" "}
+                            {formatCompactNumber(k.amount, 3)}{" "}
+                            {tokenLabel(STAKE_KINDS[k.kind].token)}
+                          </span>
+                          <span className="text-right text-zinc-400">
+                            {rewards30d == null
+                              ? "—"
+                              : `≈${formatCompactNumber(rewards30d, 3)} TFUEL/30d`}
+                          </span>
+                          <span className="w-12 text-right font-semibold text-zinc-50">
+                            {share == null ? "—" : `${(share * 100).toFixed(0)}%`}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : null}
+
+                {tracking != null && deltas != null && deltas.length > 0 ? (
+                  <div className="mt-3">
+                    <div className="text-[11px] text-zinc-400">
+                      Daily earnings (last {deltas.length}d)
+                    </div>
+                    <div className="mt-2 flex h-14 items-end gap-1 overflow-hidden rounded-xl border border-white/10 bg-black/20 p-2">
+                      {deltas.map((d) => {
+                        const h =
+                          maxDelta > 0
+                            ? Math.max(2, Math.round((d.delta / maxDelta) * 48))
+                            : 2;
+                        return (
+                          <div
+                            key={d.day}
+                            className="flex w-2 flex-col items-center"
+                            title={`${formatDayLabel(d.day)}: ${formatCompactNumber(d.delta, 4)} TFUEL`}
+                          >
+                            <div
+                              className="w-2 rounded-sm bg-white/40"
+                              style={{ height: `${h}px` }}
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <RewardProjection
+        currency={currency}
+        tfuelPrice={tfuelPrice}
+        rewards30d={projectionInputs.rewards30d}
+        stakedValueTfuel={projectionInputs.stakedValueTfuel}
+      />
+    </div>
+  );
+}
+
+const PROJECTION_YEARS = [1, 2, 3, 4, 5];
+
+function RewardProjection({
+  currency,
+  tfuelPrice,
+  rewards30d,
+  stakedValueTfuel,
+}: {
+  currency: FiatCurrency;
+  tfuelPrice: number | null;
+  rewards30d: number | null;
+  /** Everything staked, valued in TFUEL; gives the observed yield. */
+  stakedValueTfuel: number | null;
+}) {
+  const [years, setYears] = useState(3);
+  const [restake, setRestake] = useState(false);
+  const [eenAprInput, setEenAprInput] = useState("");
+  const [priceModel, setPriceModel] = useState<PriceModel | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch(`/api/history?symbol=tfuel&days=90&currency=${currency}`, {
+          cache: "no-store",
+        });
+        if (!res.ok) return;
+        const json = (await res.json()) as HistoryResponse;
+        const model = estimatePriceModel(json.prices);
+        // 90 days of drift says little about the next five years.
+        if (!cancelled) setPriceModel(model == null ? null : { ...model, drift: 0 });
+      } catch {
+        // Scenarios stay hidden without history.
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [currency]);
+
+  const dailyRewards = rewards30d == null ? null : rewards30d / 30;
+  const observedApr =
+    dailyRewards == null || stakedValueTfuel == null || stakedValueTfuel <= 0
+      ? null
+      : (dailyRewards * 365) / stakedValueTfuel;
+  const eenAprParsed = Number(eenAprInput);
+  const eenApr =
+    eenAprInput.trim() !== "" && Number.isFinite(eenAprParsed) && eenAprParsed >= 0
+      ? eenAprParsed / 100
+      : observedApr ?? 0;
+
+  const points = useMemo(
+    () =>
+      dailyRewards == null
+        ? null
+        : projectRewards({
+            dailyRewards,
+            years,
+            restake,
+            eenApr,
+            restakeMinimum: EEN_MIN_STAKE,
+          }),
+    [dailyRewards, years, restake, eenApr],
+  );
+
+  if (points == null) return null;
+
+  const scenarios = Object.keys(PRICE_SCENARIOS) as PriceScenario[];
+  const valueAt = (month: number, earned: number, scenario: PriceScenario) =>
+    tfuelPrice == null || priceModel == null
+      ? null
+      : earned * scenarioPrice(tfuelPrice, priceModel, month / 12, scenario);
+
+  const band = points.map((p) => ({
+    month: p.month,
+    bear: valueAt(p.month, p.earned, "bear"),
+    base: valueAt(p.month, p.earned, "base"),
+    bull: valueAt(p.month, p.earned, "bull"),
+  }));
+  const maxValue = band.reduce((m, b) => Math.max(m, b.bull ?? 0), 0);
+  const lastMonth = points.at(-1)?.month ?? 1;
+  const x = (month: number) => (month / lastMonth) * 300;
+  const y = (v: number) => (maxValue > 0 ? 90 - (v / maxValue) * 86 : 90);
+  const line = (key: PriceScenario) =>
+    band.map((b) => `${x(b.month).toFixed(1)},${y(b[key] ?? 0).toFixed(1)}`).join(" ");
+  const area = `${line("bull")} ${band
+    .slice()
+    .reverse()
+    .map((b) => `${x(b.month).toFixed(1)},${y(b.bear ?? 0).toFixed(1)}`)
+    .join(" ")}`;
+
+  const yearRows = points.filter((p) => p.month > 0 && p.month % 12 === 0);
+
+  return (
+    <div className="app-glass rounded-xl p-3 text-sm">
+      <div className="text-xs font-semibold">Projection</div>
+      <div className="mt-1 text-[11px] text-zinc-400">
+        From the last 30 days ({formatCompactNumber(rewards30d, 3)} TFUEL). Price range
+        uses 90-day TFUEL volatility
+        {priceModel == null
+          ? " (unavailable)"
+          : ` (${(priceModel.volatility * 100).toFixed(0)}%/yr)`}
+        , no trend.
+      </div>
+
+      <div className="mt-3 grid gap-2">
+        <div className="grid grid-cols-[1fr_120px] items-center gap-3">
+          <div className="text-xs text-zinc-400">Horizon</div>
+          <select
+            className="h-9 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none"
+            value={years}
+            onChange={(e) => setYears(Number(e.target.value))}
+          >
+            {PROJECTION_YEARS.map((n) => (
+              <option key={n} value={n}>
+                {n} {n === 1 ? "year" : "years"}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+          <div className="text-xs text-zinc-400">
+            Re-stake rewards into an EEN (every {formatCompactNumber(EEN_MIN_STAKE, 0)} TFUEL)
+          </div>
+          <button
+            type="button"
+            className={
+              restake
+                ? "ios-press h-9 rounded-xl border border-white/10 bg-black/40 px-4 text-xs font-semibold text-zinc-50"
+                : "ios-press h-9 rounded-xl border border-white/10 bg-black/20 px-4 text-xs font-semibold text-zinc-200 hover:bg-black/30"
+            }
+            onClick={() => setRestake((v) => !v)}
+          >
+            {restake ? "On" : "Off"}
+          </button>
+        </div>
+        {restake ? (
+          <div className="grid grid-cols-[1fr_120px] items-center gap-3">
+            <div className="text-xs text-zinc-400">EEN APR (%)</div>
+            <input
+              className="h-9 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400"
+              inputMode="decimal"
+              value={eenAprInput}
+              onChange={(e) => setEenAprInput(e.target.value)}
+              placeholder={observedApr == null ? "0" : (observedApr * 100).toFixed(2)}
+            />
+          </div>
+        ) : null}
+      </div>
+
+      {priceModel != null && tfuelPrice != null && maxValue > 0 ? (
+        <div className="mt-3 overflow-hidden rounded-xl border border-white/10 bg-black/30 p-3">
+          <svg viewBox="0 0 300 90" className="h-[90px] w-full">
+            <polygon points={area} fill={tokenColor("tfuel")} opacity="0.15" />
+            <polyline
+              fill="none"
+              stroke={tokenColor("tfuel")}
+              strokeWidth="2"
+              points={line("base")}
+              opacity="0.95"
+            />
+          </svg>
+        </div>
+      ) : null}
+
+      <div className="mt-3 grid gap-1">
+        <div className="grid grid-cols-[48px_1fr_repeat(3,minmax(0,1fr))] gap-2 text-[11px] text-zinc-400">
+          <span>Year</span>
+          <span className="text-right">TFUEL</span>
+          {scenarios.map((sc) => (
+            <span key={sc} className="text-right">
+              {PRICE_SCENARIOS[sc].label}
+            </span>
+          ))}
+        </div>
+        {yearRows.map((p) => (
+          <div
+            key={p.month}
+            className="grid grid-cols-[48px_1fr_repeat(3,minmax(0,1fr))] gap-2 text-[11px]"
+          >
+            <span className="text-zinc-300">{p.month / 12}</span>
+            <span className="text-right font-semibold text-zinc-50">
+              {formatCompactNumber(p.earned, 0)}
+              {p.restaked > 0 ? (
+                <span className="block font-normal text-zinc-400">
+                  {formatCompactNumber(p.restaked, 0)} staked
+                </span>
+              ) : null}
+            </span>
+            {scenarios.map((sc) => (
+              <span key={sc} className="text-right text-zinc-50">
+                {formatMoney(valueAt(p.month, p.earned, sc), currency)}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+type StakeResponse = {
+  currentHeight: number | null;
+  results: Array<{
+    address: string;
+    positions: Array<StakePosition & { status: StakeStatus; unlockAt: number | null }>;
+  }>;
+};
+
+type StakeEventsResponse = {
+  address: string;
+  currentHeight: number | null;
+  events: StakeEvent[];
+};
+
+function formatDuration(ms: number) {
+  const mins = Math.round(ms / 60_000);
+  if (mins < 60) return `${Math.max(1, mins)}m`;
+  const hours = Math.round(mins / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+function StakeWithdrawals({
+  wallets,
+  autoRefreshMs,
+  refreshNonce,
+}: {
+  wallets: TrackedWallet[];
+  autoRefreshMs: number;
+  refreshNonce?: number;
+}) {
+  const addresses = useMemo(
+    () => wallets.filter((w) => w.enabled).map((w) => w.address),
+    [wallets],
+  );
+  const walletLabels = useMemo(
+    () => new Map(wallets.map((w) => [w.address, w.label] as const)),
+    [wallets],
+  );
+
+  const [data, setData] = useState<StakeResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const [timelineWallet, setTimelineWallet] = useState("");
+  const [timeline, setTimeline] = useState<StakeEventsResponse | null>(null);
+  const [timelineLoading, setTimelineLoading] = useState(false);
+  const [timelineError, setTimelineError] = useState<string | null>(null);
+
+  const [alertLoaded, setAlertLoaded] = useState(false);
+  const [alertEnabled, setAlertEnabled] = useState(false);
+  const [alertConfig, setAlertConfig] = useState<StakeLiquidAlertConfig>({
+    useBrowserNotifications: false,
+    pending: [],
+  });
+  const [banner, setBanner] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch(`/api/alerts/${STAKE_LIQUID_ALERT.id}`, {
+          cache: "no-store",
+        });
+        if (res.ok) {
+          const { alert } = (await res.json()) as {
+            alert: { enabled: boolean; config: Partial<StakeLiquidAlertConfig> };
+          };
+          if (cancelled) return;
+          setAlertEnabled(alert.enabled);
+          setAlertConfig({
+            useBrowserNotifications: alert.config.useBrowserNotifications === true,
+            pending: Array.isArray(alert.config.pending) ? alert.config.pending : [],
+          });
+        }
+      } catch {
+        // Fall back to defaults.
+      }
+      if (!cancelled) setAlertLoaded(true);
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!alertLoaded) return;
+    sendJson(`/api/alerts/${STAKE_LIQUID_ALERT.id}`, "PUT", {
+      kind: STAKE_LIQUID_ALERT.kind,
+      enabled: alertEnabled,
+      armed: true,
+      config: alertConfig,
+    }).catch(() => undefined);
+  }, [alertLoaded, alertEnabled, alertConfig]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      if (addresses.length === 0) {
+        setData(null);
+        return;
+      }
+      try {
+        const res = await fetch(
+          `/api/theta/stake?addresses=${encodeURIComponent(addresses.join(","))}`,
+          { cache: "no-store" },
+        );
+        const json = (await res.json()) as StakeResponse & { error?: string };
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(json.error ?? "Could not load stakes");
+          return;
+        }
+        setData(json);
+        setNow(Date.now());
+        setError(null);
+      } catch {
+        if (!cancelled) setError("Could not load stakes");
+      }
+    }
+
+    void load();
+    const id = autoRefreshMs > 0 ? window.setInterval(load, autoRefreshMs) : null;
+    return () => {
+      cancelled = true;
+      if (id != null) window.clearInterval(id);
+    };
+  }, [addresses, autoRefreshMs, refreshNonce]);
+
+  const withdrawals = useMemo(
+    () =>
+      (data?.results ?? []).flatMap((r) =>
+        r.positions
+          .filter((p) => p.withdrawn)
+          .map((p) => ({ ...p, address: r.address, key: stakePositionKey(r.address, p) })),
+      ),
+    [data],
+  );
+  const pending = useMemo(
+    () => withdrawals.filter((w) => w.status === "unstaking"),
+    [withdrawals],
+  );
+  const liquid = useMemo(
+    () => withdrawals.filter((w) => w.status === "returned"),
+    [withdrawals],
+  );
+
+  // Unstaking withdrawals, as the alert remembers them.
+  const unstaking = useMemo(
+    () =>
+      pending.flatMap((w): PendingWithdrawal[] =>
+        w.returnHeight == null
+          ? []
+          : [
+              {
+                key: w.key,
+                address: w.address,
+                kind: w.kind,
+                amount: w.amount,
+                returnHeight: w.returnHeight,
+              },
+            ],
+      ),
+    [pending],
+  );
+
+  useEffect(() => {
+    if (!alertLoaded || !alertEnabled || !data) return;
+
+    // A returned stake is usually gone from the explorer by the next poll, so
+    // remembered withdrawals fire when they pass their return height or vanish.
+    const listed = new Set(withdrawals.map((w) => w.key));
+    const polled = new Set(data.results.map((r) => r.address));
+    const height = data.currentHeight;
+    const fresh = alertConfig.pending.filter(
+      (p) =>
+        polled.has(p.address) &&
+        (!listed.has(p.key) || (height != null && height >= p.returnHeight)),
+    );
+    const next = [
+      ...alertConfig.pending.filter((p) => !polled.has(p.address)),
+      ...unstaking.filter((w) => !fresh.some((p) => p.key === w.key)),
+    ];
+    const keys = (list: PendingWithdrawal[]) =>
+      list
+        .map((p) => p.key)
+        .sort()
+        .join("|");
+    if (keys(next) !== keys(alertConfig.pending)) {
+      setAlertConfig((prev) => ({ ...prev, pending: next }));
+    }
+    if (fresh.length === 0) return;
+
+    const msg = fresh
+      .map(
+        (w) =>
+          `${formatCompactNumber(w.amount, 3)} ${tokenLabel(STAKE_KINDS[w.kind].token)} from ${walletLabels.get(w.address) || shortAddress(w.address)} is liquid again.`,
+      )
+      .join(" ");
+    setBanner(msg);
+
+    if (!alertConfig.useBrowserNotifications) return;
+    if (typeof Notification === "undefined") return;
+    try {
+      if (Notification.permission === "granted") {
+        new Notification("Unstaked funds available", { body: msg });
+      }
+    } catch {
+      return;
+    }
+  }, [alertLoaded, alertEnabled, alertConfig, data, withdrawals, unstaking, walletLabels]);
+
+  async function loadTimeline() {
+    const address = timelineWallet || addresses[0];
+    if (!address) return;
+    setTimelineLoading(true);
+    try {
+      const res = await fetch(
+        `/api/theta/stake/events?address=${encodeURIComponent(address)}`,
+        { cache: "no-store" },
+      );
+      const json = (await res.json()) as StakeEventsResponse & { error?: string };
+      if (!res.ok) {
+        setTimelineError(json.error ?? "Could not load stake history");
+        return;
+      }
+      setTimeline(json);
+      setTimelineError(null);
+    } catch {
+      setTimelineError("Could not load stake history");
+    } finally {
+      setTimelineLoading(false);
+    }
+  }
+
+  if (addresses.length === 0) return null;
+
+  const eventLabels: Record<StakeEvent["type"], string> = {
+    deposit: "Deposit",
+    withdraw: "Withdraw request",
+    return: "Returned",
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {banner ? (
+        <div className="app-glass rounded-xl p-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="text-xs text-zinc-50">{banner}</div>
+            <button
+              type="button"
+              className="ios-press h-7 shrink-0 rounded-full border border-white/10 bg-black/40 px-3 text-[11px] font-semibold text-zinc-50 hover:bg-black/50"
+              onClick={() => setBanner(null)}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="app-glass rounded-xl p-3 text-sm">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-xs font-semibold">Unstaking</div>
+            <div className="mt-1 text-[11px] text-zinc-400">
+              {error
+                ? error
+                : data == null
+                  ? "Loading stakes…"
+                  : pending.length === 0
+                    ? "No pending withdrawals"
+                    : `${pending.length} pending withdrawal${pending.length === 1 ? "" : "s"}`}
+            </div>
+          </div>
+          <div className="text-right text-[11px] text-zinc-400">
+            Block {data?.currentHeight ?? "—"}
+          </div>
+        </div>
+
+        {pending.length + liquid.length > 0 ? (
+          <div className="mt-3 grid gap-2">
+            {[...pending, ...liquid].map((w) => (
+              <div
+                key={w.key}
+                className="grid grid-cols-[1fr_auto] items-center gap-3 rounded-xl border border-white/10 bg-black/20 p-3 text-[11px]"
+              >
+                <div className="min-w-0">
+                  <div className="font-semibold text-zinc-50">
+                    {formatCompactNumber(w.amount, 3)}{" "}
+                    <span style={{ color: tokenColor(STAKE_KINDS[w.kind].token) }}>
+                      {tokenLabel(STAKE_KINDS[w.kind].token)}
+                    </span>{" "}
+                    · {STAKE_KINDS[w.kind].label}
+                  </div>
+                  <div className="mt-1 truncate text-zinc-400">
+                    {walletLabels.get(w.address) || shortAddress(w.address)} · node{" "}
+                    {shortAddress(w.holder)} · return block {w.returnHeight ?? "—"}
+                  </div>
+                </div>
+                <div className="text-right">
+                  {w.status === "returned" ? (
+                    <div className="font-semibold text-[#14b8a6]">Liquid</div>
+                  ) : w.unlockAt == null ? (
+                    <div className="text-zinc-400">—</div>
+                  ) : (
+                    <>
+                      <div className="font-semibold text-zinc-50">
+                        in ~{formatDuration(w.unlockAt - now)}
+                      </div>
+                      <div className="mt-1 text-zinc-400">
+                        {new Date(w.unlockAt).toLocaleString()}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="mt-3 grid gap-2">
+          <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+            <div className="text-xs text-zinc-400">Alert when funds are liquid</div>
+            <button
+              type="button"
+              className={
+                alertEnabled
+                  ? "ios-press h-9 rounded-xl border border-white/10 bg-black/40 px-4 text-xs font-semibold text-zinc-50"
+                  : "ios-press h-9 rounded-xl border border-white/10 bg-black/20 px-4 text-xs font-semibold text-zinc-200 hover:bg-black/30"
+              }
+              onClick={() => {
+                // Stakes that are already liquid when the alert is turned on aren't news.
+                if (!alertEnabled) setAlertConfig((prev) => ({ ...prev, pending: unstaking }));
+                setAlertEnabled((v) => !v);
+              }}
+            >
+              {alertEnabled ? "On" : "Off"}
+            </button>
+          </div>
+          <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+            <div className="text-xs text-zinc-400">Browser notification</div>
+            <button
+              type="button"
+              className={
+                alertConfig.useBrowserNotifications
+                  ? "ios-press h-9 rounded-xl border border-white/10 bg-black/40 px-4 text-xs font-semibold text-zinc-50"
+                  : "ios-press h-9 rounded-xl border border-white/10 bg-black/20 px-4 text-xs font-semibold text-zinc-200 hover:bg-black/30"
+              }
+              onClick={() =>
+                setAlertConfig((prev) => ({
+                  ...prev,
+                  useBrowserNotifications: !prev.useBrowserNotifications,
+                }))
+              }
+            >
+              {alertConfig.useBrowserNotifications ? "On" : "Off"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="app-glass rounded-xl p-3 text-sm">
+        <div className="text-xs font-semibold">Stake history</div>
+        <div className="mt-1 text-[11px] text-zinc-400">
+          Deposits, withdraw requests and returns. Return times are estimated from
+          block heights.
+        </div>
+
+        <div className="mt-3 grid grid-cols-[1fr_auto] gap-2">
+          <select
+            className="h-9 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none"
+            value={timelineWallet || addresses[0]}
+            onChange={(e) => setTimelineWallet(e.target.value)}
+          >
+            {addresses.map((a) => (
+              <option key={a} value={a}>
+                {walletLabels.get(a) || shortAddress(a)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="ios-press h-9 rounded-xl border border-white/10 bg-black/30 px-4 text-xs font-semibold text-zinc-50 hover:bg-black/40 disabled:opacity-50"
+            onClick={() => void loadTimeline()}
+            disabled={timelineLoading}
+          >
+            {timelineLoading ? "Loading…" : "Show"}
+          </button>
+        </div>
+
+        {timelineError ? (
+          <p className="mt-2 text-[11px] text-red-300">{timelineError}</p>
+        ) : null}
+
+        {timeline ? (
+          <div className="mt-3 grid gap-1">
+            {timeline.events.length === 0 ? (
+              <div className="text-[11px] text-zinc-400">No stake transactions found.</div>
+            ) : (
+              timeline.events.map((e, i) => (
+                <div
+                  key={`${e.hash ?? e.type}-${e.height ?? i}-${e.holder}`}
+                  className="grid grid-cols-[auto_1fr_auto] items-center gap-3 text-[11px]"
+                >
+                  <span className="w-24 text-zinc-400">
+                    {e.timestamp == null
+                      ? "—"
+                      : `${e.estimated ? "~" : ""}${new Date(e.timestamp * 1000).toLocaleDateString()}`}
+                  </span>
+                  <span className="truncate text-zinc-300">
+                    {eventLabels[e.type]} · {STAKE_KINDS[e.kind].label} · node{" "}
+                    {shortAddress(e.holder)}
+                  </span>
+                  <span className="text-right font-semibold text-zinc-50">
+                    {e.amount == null
+                      ? "—"
+                      : `${formatCompactNumber(e.amount, 3)} ${tokenLabel(STAKE_KINDS[e.kind].token)}`}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function WalletManager({
+  wallets,
+  onWalletsChange,
+}: {
+  wallets: TrackedWallet[];
+  onWalletsChange: (next: TrackedWallet[]) => void;
+}) {
+  const [newAddress, setNewAddress] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const enabledCount = wallets.filter((w) => w.enabled).length;
+
+  function addWallet() {
+    const address = normalizeAddress(newAddress);
+    if (!isHexAddress(address)) {
+      setError("Enter a 0x-prefixed Theta address (40 hex characters).");
+      return;
+    }
+    if (wallets.some((w) => w.address === address)) {
+      setError("That wallet is already in the list.");
+      return;
+    }
+
+    onWalletsChange([
+      ...wallets,
+      { address, label: newLabel.trim(), enabled: true },
+    ]);
+    setNewAddress("");
+    setNewLabel("");
+    setError(null);
+  }
+
+  function updateWallet(address: string, patch: Partial<TrackedWallet>) {
+    onWalletsChange(
+      wallets.map((w) => (w.address === address ? { ...w, ...patch } : w)),
+    );
+  }
+
+  return (
+    <div className="app-glass rounded-xl p-3 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs font-semibold text-[#14b8a6]">Manage wallets</div>
+          <div className="mt-1 text-[11px] text-zinc-400">
+            Enabled wallets are used on every tab.
+          </div>
+        </div>
+        <div className="text-[11px] text-zinc-400">
+          {enabledCount}/{wallets.length} enabled
+        </div>
+      </div>
+
+      <div className="mt-3 grid gap-2">
+        {wallets.map((w) => (
+          <div
+            key={w.address}
+            className="rounded-xl border border-white/10 bg-black/30 p-3"
+          >
+            <div className="break-all text-[11px] text-zinc-400">{w.address}</div>
+            <div className="mt-2 grid grid-cols-[1fr_auto_auto] items-center gap-2">
+              <input
+                className="h-9 min-w-0 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400"
+                placeholder="Label"
+                value={w.label}
+                onChange={(e) => updateWallet(w.address, { label: e.target.value })}
+              />
+              <button
+                type="button"
+                className={
+                  w.enabled
+                    ? "ios-press h-9 rounded-xl border border-white/10 bg-black/40 px-3 text-xs font-semibold text-zinc-50"
+                    : "ios-press h-9 rounded-xl border border-white/10 bg-black/20 px-3 text-xs font-semibold text-zinc-400 hover:bg-black/30"
+                }
+                onClick={() => updateWallet(w.address, { enabled: !w.enabled })}
+              >
+                {w.enabled ? "On" : "Off"}
+              </button>
+              <button
+                type="button"
+                className="ios-press h-9 rounded-xl border border-white/10 bg-black/20 px-3 text-xs font-semibold text-zinc-300 hover:bg-black/30"
+                onClick={() =>
+                  onWalletsChange(wallets.filter((x) => x.address !== w.address))
+                }
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {wallets.length === 0 ? (
+          <div className="text-[11px] text-zinc-400">No wallets yet.</div>
+        ) : null}
+      </div>
+
+      <form
+        className="mt-3 grid gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addWallet();
+        }}
+      >
+        <input
+          className="h-9 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400"
+          placeholder="0x… wallet address"
+          value={newAddress}
+          onChange={(e) => {
+            setNewAddress(e.target.value);
+            setError(null);
+          }}
+        />
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <input
+            className="h-9 min-w-0 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400"
+            placeholder="Label (optional)"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="ios-press h-9 rounded-xl bg-[#ff6a00] px-4 text-xs font-semibold text-white"
+          >
+            Add
+          </button>
+        </div>
+        {error ? <p className="text-[11px] text-red-300">{error}</p> : null}
+      </form>
+    </div>
+  );
+}
+
+type GainsResponse = {
+  currency: FiatCurrency;
+  complete: boolean;
+  priceNow: number | null;
+  methods: Record<string, CostBasisMethod>;
+  years: Array<{
+    year: number;
+    method: CostBasisMethod;
+    disposals: number;
+    unpriced: number;
+    proceeds: number;
+    basis: number;
+    gain: number;
+  }>;
+  disposals: Array<{
+    id: number;
+    address: string;
+    timestamp: number;
+    amount: number;
+    proceeds: number | null;
+    proceedsSource: "recorded" | "market";
+    source: "manual" | "detected";
+    txHash: string | null;
+    note: string | null;
+    gain: number | null;
+    unmatchedAmount: number | null;
+  }>;
+  unrealized: {
+    amount: number;
+    basis: number;
+    value: number | null;
+    gain: number | null;
+    lots: number;
+    unpricedLots: number;
+  };
+};
+
+function GainsTracker({
+  wallets,
+  currency,
+}: {
+  wallets: TrackedWallet[];
+  currency: FiatCurrency;
+}) {
+  const addresses = useMemo(
+    () => wallets.filter((w) => w.enabled).map((w) => w.address),
+    [wallets],
+  );
+  const [data, setData] = useState<GainsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadNonce, setReloadNonce] = useState(0);
+
+  const [wallet, setWallet] = useState("");
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [amount, setAmount] = useState("");
+  const [proceeds, setProceeds] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      if (addresses.length === 0) {
+        setData(null);
+        return;
+      }
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/gains?addresses=${encodeURIComponent(addresses.join(","))}&currency=${currency}`,
+          { cache: "no-store" },
+        );
+        const json = (await res.json()) as GainsResponse & { error?: string };
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(json.error ?? "Could not load gains");
+          return;
+        }
+        setData(json);
+        setError(null);
+      } catch {
+        if (!cancelled) setError("Could not load gains");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [addresses, currency, reloadNonce]);
+
+  async function setMethod(year: number, method: CostBasisMethod) {
+    const methods = { ...(data?.methods ?? {}), [String(year)]: method };
+    await sendJson("/api/settings", "PUT", { costBasisMethods: methods }).catch(
+      () => undefined,
+    );
+    setReloadNonce((n) => n + 1);
+  }
+
+  async function detectTransfers() {
+    await sendJson(
+      `/api/gains/detect?addresses=${encodeURIComponent(addresses.join(","))}`,
+      "POST",
+    ).catch(() => undefined);
+    setReloadNonce((n) => n + 1);
+  }
+
+  async function removeDisposal(id: number) {
+    await sendJson(`/api/gains/disposals/${id}`, "DELETE").catch(() => undefined);
+    setReloadNonce((n) => n + 1);
+  }
+
+  async function addDisposal() {
+    const address = wallet || addresses[0];
+    const amountNum = Number(amount);
+    const proceedsNum = proceeds.trim() === "" ? null : Number(proceeds);
+    const timestampMs = Date.parse(`${date}T12:00:00Z`);
+    if (!address || !Number.isFinite(amountNum) || amountNum <= 0) {
+      setFormError("Enter the TFUEL amount that was sold.");
+      return;
+    }
+    if (proceedsNum != null && (!Number.isFinite(proceedsNum) || proceedsNum < 0)) {
+      setFormError("Proceeds must be a positive number.");
+      return;
+    }
+    if (!Number.isFinite(timestampMs)) {
+      setFormError("Pick the date of the sale.");
+      return;
+    }
+
+    try {
+      await sendJson("/api/gains/disposals", "POST", {
+        address,
+        timestamp: Math.floor(timestampMs / 1000),
+        amount: amountNum,
+        proceeds: proceedsNum,
+        currency,
+      });
+      setAmount("");
+      setProceeds("");
+      setFormError(null);
+      setReloadNonce((n) => n + 1);
+    } catch {
+      setFormError("Could not save the sale.");
+    }
+  }
+
+  const inputClass =
+    "h-9 min-w-0 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400";
+  const signed = (v: number | null) =>
+    v == null ? "—" : `${v >= 0 ? "+" : ""}${formatMoney(v, currency)}`;
+
+  return (
+    <div className="app-glass rounded-xl p-3 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs font-semibold text-[#14b8a6]">Gains</div>
+          <div className="mt-1 text-[11px] text-zinc-400">
+            Rewards are lots at their value when received.
+            {data && !data.complete ? " Reward history still syncing." : ""}
+          </div>
+        </div>
+        <button
+          type="button"
+          className="ios-press h-8 rounded-xl border border-white/10 bg-black/30 px-3 text-[11px] font-semibold text-zinc-200 hover:bg-black/40 disabled:opacity-50"
+          disabled={addresses.length === 0 || loading}
+          onClick={() => void detectTransfers()}
+        >
+          Detect transfers
+        </button>
+      </div>
+
+      {error ? <p className="mt-2 text-[11px] text-red-300">{error}</p> : null}
+
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <div className="rounded-xl border border-white/10 bg-black/30 p-3">
+          <div className="text-[11px] text-zinc-400">Unrealized</div>
+          <div className="mt-1 text-sm font-semibold text-zinc-50">
+            {signed(data?.unrealized.gain ?? null)}
+          </div>
+          <div className="mt-1 text-[11px] text-zinc-400">
+            {data ? `${formatCompactNumber(data.unrealized.amount, 3)} TFUEL held` : "—"}
+          </div>
+        </div>
+        <div className="rounded-xl border border-white/10 bg-black/30 p-3">
+          <div className="text-[11px] text-zinc-400">Cost basis (open)</div>
+          <div className="mt-1 text-sm font-semibold text-zinc-50">
+            {formatMoney(data?.unrealized.basis ?? null, currency)}
+          </div>
+          <div className="mt-1 text-[11px] text-zinc-400">
+            {data ? `${data.unrealized.lots} lots` : "—"}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-3 grid gap-2">
+        {(data?.years ?? []).map((y) => (
+          <div
+            key={y.year}
+            className="grid grid-cols-[auto_auto_1fr] items-center gap-3 rounded-xl border border-white/10 bg-black/20 p-2 text-[11px]"
+          >
+            <span className="font-semibold text-zinc-200">{y.year}</span>
+            <select
+              className="h-7 rounded-lg border border-white/10 bg-black/30 px-2 text-[11px] text-zinc-50 outline-none"
+              value={y.method}
+              onChange={(e) => void setMethod(y.year, e.target.value as CostBasisMethod)}
+            >
+              {COST_BASIS_METHODS.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <span className="text-right text-zinc-300">
+              Realized {signed(y.gain)} · {y.disposals} sale{y.disposals === 1 ? "" : "s"}
+              {y.unpriced > 0 ? ` (${y.unpriced} without a price)` : ""}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {data && data.disposals.length > 0 ? (
+        <div className="mt-3 grid gap-1">
+          {[...data.disposals].reverse().map((d) => (
+            <div
+              key={d.id}
+              className="grid grid-cols-[1fr_auto_auto] items-center gap-2 text-[11px]"
+              title={d.txHash ?? d.note ?? undefined}
+            >
+              <span className="text-zinc-300">
+                {new Date(d.timestamp * 1000).toLocaleDateString()} ·{" "}
+                {formatCompactNumber(d.amount, 3)} TFUEL
+                {d.source === "detected" ? " (transfer)" : ""}
+                {d.proceedsSource === "market" ? " · market value" : ""}
+              </span>
+              <span className="text-right font-semibold text-zinc-50">{signed(d.gain)}</span>
+              <button
+                type="button"
+                className="ios-press text-zinc-500 hover:text-zinc-200"
+                onClick={() => void removeDisposal(d.id)}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <form
+        className="mt-3 grid grid-cols-2 gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void addDisposal();
+        }}
+      >
+        <select className={inputClass} value={wallet} onChange={(e) => setWallet(e.target.value)}>
+          {wallets
+            .filter((w) => w.enabled)
+            .map((w) => (
+              <option key={w.address} value={w.address}>
+                {w.label || shortAddress(w.address)}
+              </option>
+            ))}
+        </select>
+        <input
+          type="date"
+          className={inputClass}
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+        />
+        <input
+          className={inputClass}
+          inputMode="decimal"
+          placeholder="TFUEL sold"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <input
+          className={inputClass}
+          inputMode="decimal"
+          placeholder={`Proceeds (${currency}, optional)`}
+          value={proceeds}
+          onChange={(e) => setProceeds(e.target.value)}
+        />
+        <button
+          type="submit"
+          className="ios-press col-span-2 h-9 rounded-xl bg-[#ff6a00] px-4 text-xs font-semibold text-white disabled:opacity-50"
+          disabled={addresses.length === 0}
+        >
+          Record sale
+        </button>
+        {formError ? (
+          <p className="col-span-2 text-[11px] text-red-300">{formError}</p>
+        ) : null}
+      </form>
+    </div>
+  );
+}
+
+function TaxExport({
+  wallets,
+  currency,
+}: {
+  wallets: TrackedWallet[];
+  currency: FiatCurrency;
+}) {
+  const year = new Date().getFullYear();
+  const [from, setFrom] = useState(`${year}-01-01`);
+  const [to, setTo] = useState(`${year}-12-31`);
+  const [format, setFormat] = useState<TaxExportFormat>("csv");
+  // "" exports every enabled wallet.
+  const [wallet, setWallet] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const enabled = wallets.filter((w) => w.enabled);
+  const addresses = wallet ? [wallet] : enabled.map((w) => w.address);
+
+  async function download() {
+    if (addresses.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        addresses: addresses.join(","),
+        from,
+        to,
+        format,
+        currency,
+      });
+      const res = await fetch(`/api/export/rewards?${params.toString()}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) {
+        const json = (await res.json().catch(() => null)) as { error?: string } | null;
+        setError(json?.error ?? `Export failed (${res.status})`);
+        return;
+      }
+
+      const blob = await res.blob();
+      const filename =
+        /filename="([^"]+)"/.exec(res.headers.get("content-disposition") ?? "")?.[1] ??
+        "staking-income.csv";
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("Export failed. Check your connection and try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "h-9 min-w-0 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400";
+
+  return (
+    <div className="app-glass rounded-xl p-3 text-sm">
+      <div className="text-xs font-semibold text-[#14b8a6]">Tax export</div>
+      <div className="mt-1 text-[11px] text-zinc-400">
+        Staking income per reward, valued in {currency} at receipt.
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <label className="grid gap-1 text-[11px] text-zinc-400">
+          From
+          <input
+            type="date"
+            className={inputClass}
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1 text-[11px] text-zinc-400">
+          To
+          <input
+            type="date"
+            className={inputClass}
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </label>
+        <select
+          className={inputClass}
+          value={wallet}
+          onChange={(e) => setWallet(e.target.value)}
+        >
+          <option value="">All enabled wallets</option>
+          {enabled.map((w) => (
+            <option key={w.address} value={w.address}>
+              {w.label || shortAddress(w.address)}
+            </option>
+          ))}
+        </select>
+        <select
+          className={inputClass}
+          value={format}
+          onChange={(e) => setFormat(e.target.value as TaxExportFormat)}
+        >
+          {TAX_EXPORT_FORMATS.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        type="button"
+        className="ios-press mt-3 h-9 w-full rounded-xl bg-[#ff6a00] px-4 text-xs font-semibold text-white disabled:opacity-50"
+        disabled={busy || addresses.length === 0 || !from || !to}
+        onClick={() => void download()}
+      >
+        {busy ? "Preparing…" : "Download CSV"}
+      </button>
+      {error ? <p className="mt-2 text-[11px] text-red-300">{error}</p> : null}
+    </div>
+  );
+}
+
+type WebhookRow = {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+};
+
+type AlertRuleRow = {
+  id: string;
+  kind: string;
+  enabled: boolean;
+  armed: boolean;
+  config: Record<string, unknown>;
+};
+
+type DeliveryRow = {
+  id: number;
+  webhookId: number;
+  event: AlertEvent;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastError: string | null;
+  createdAt: number;
+};
+
+// Price rules live in the price alert list on the Prices tab.
+type StakingRuleKind = Exclude<WebhookAlertKind, PriceAlertKind>;
+
+const WEBHOOK_RULE_LABELS: Record<StakingRuleKind, string> = {
+  reward_value: "Rewards worth more than",
+  fee_below: "Swap fee below",
+  missed_rewards: "Missed rewards",
+};
+
+function describeWebhookRule(rule: AlertRuleRow): string {
+  const c = rule.config;
+  switch (rule.kind) {
+    case "reward_value":
+      return `Tracked rewards reach ${c.threshold} ${c.currency}`;
+    case "fee_below":
+      return `${c.amount} ${tokenLabel(String(c.symbol))} → ${feeTargetLabel(parseFeeTarget(c.to) ?? "usdc-sol")} under ${c.percent}%`;
+    case "missed_rewards":
+      return `Reward gaps or drops on ${Array.isArray(c.addresses) ? c.addresses.length : 0} wallet(s)`;
+    default:
+      return rule.kind;
+  }
+}
+
+function WebhookAlerts({
+  wallets,
+  currency,
+}: {
+  wallets: TrackedWallet[];
+  currency: FiatCurrency;
+}) {
+  const addresses = useMemo(
+    () => wallets.filter((w) => w.enabled).map((w) => w.address),
+    [wallets],
+  );
+
+  const [webhooks, setWebhooks] = useState<WebhookRow[]>([]);
+  const [rules, setRules] = useState<AlertRuleRow[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [reloadNonce, setReloadNonce] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [hookName, setHookName] = useState("");
+  const [hookUrl, setHookUrl] = useState("");
+  const [hookFormat, setHookFormat] = useState<WebhookFormat>("discord");
+
+  const [ruleKind, setRuleKind] = useState<StakingRuleKind>("reward_value");
+  const [ruleSymbol, setRuleSymbol] = useState("tfuel");
+  const [ruleValue, setRuleValue] = useState("");
+  const [ruleAmount, setRuleAmount] = useState("1000");
+  const [ruleTo, setRuleTo] = useState<FeeTarget>("usdc-sol");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const [hooksRes, rulesRes, deliveriesRes] = await Promise.all([
+          fetch("/api/webhooks", { cache: "no-store" }),
+          fetch("/api/alerts", { cache: "no-store" }),
+          fetch("/api/webhooks/deliveries?limit=20", { cache: "no-store" }),
+        ]);
+        const hooks = (await hooksRes.json()) as { webhooks: WebhookRow[] };
+        const alerts = (await rulesRes.json()) as { alerts: AlertRuleRow[] };
+        const log = (await deliveriesRes.json()) as { deliveries: DeliveryRow[] };
+        if (cancelled) return;
+        setWebhooks(hooks.webhooks ?? []);
+        setRules(
+          (alerts.alerts ?? []).filter(
+            (a) => isWebhookAlertKind(a.kind) && !isPriceAlertKind(a.kind),
+          ),
+        );
+        setDeliveries(log.deliveries ?? []);
+      } catch {
+        if (!cancelled) setError("Could not load webhook alerts");
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadNonce]);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed");
+    } finally {
+      setBusy(false);
+      setReloadNonce((n) => n + 1);
+    }
+  }
+
+  function addWebhook() {
+    void run(async () => {
+      await sendJson("/api/webhooks", "POST", {
+        name: hookName,
+        url: hookUrl,
+        format: hookFormat,
+      });
+      setHookName("");
+      setHookUrl("");
+    });
+  }
+
+  function addRule() {
+    const value = Number(ruleValue);
+    let config: Record<string, unknown>;
+    switch (ruleKind) {
+      case "reward_value":
+        config = { threshold: value, currency };
+        break;
+      case "fee_below":
+        config = { symbol: ruleSymbol, amount: Number(ruleAmount), to: ruleTo, percent: value };
+        break;
+      case "missed_rewards":
+        config = { addresses };
+        break;
+    }
+    if (ruleKind !== "missed_rewards" && (!Number.isFinite(value) || value <= 0)) {
+      setError("Enter a positive number for the rule.");
+      return;
+    }
+
+    const id = `rule-${Date.now().toString(36)}`;
+    void run(async () => {
+      await sendJson(`/api/alerts/${id}`, "PUT", {
+        kind: ruleKind,
+        enabled: true,
+        armed: true,
+        config,
+      });
+      setRuleValue("");
+    });
+  }
+
+  const inputClass =
+    "h-9 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400";
+  const smallButton =
+    "ios-press h-7 rounded-full border border-white/10 bg-black/30 px-3 text-[11px] font-semibold text-zinc-50 hover:bg-black/40 disabled:opacity-50";
+
+  return (
+    <div className="app-glass rounded-xl p-3 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs font-semibold text-[#14b8a6]">Webhook alerts</div>
+          <div className="mt-1 text-[11px] text-zinc-400">
+            Checked on the server every minute, even with this tab closed.
+          </div>
+        </div>
+        <button
+          type="button"
+          className={smallButton}
+          disabled={busy}
+          onClick={() => void run(() => sendJson("/api/alerts/run", "POST"))}
+        >
+          Check now
+        </button>
+      </div>
+
+      {error ? <p className="mt-2 text-[11px] text-red-300">{error}</p> : null}
+
+      <div className="mt-3 text-[11px] font-semibold text-zinc-300">Webhooks</div>
+      <div className="mt-2 grid gap-2">
+        {webhooks.map((w) => (
+          <div
+            key={w.id}
+            className="grid grid-cols-[1fr_auto] items-center gap-3 rounded-xl border border-white/10 bg-black/20 p-2 text-[11px]"
+          >
+            <div className="min-w-0">
+              <div className="font-semibold text-zinc-50">
+                {w.name} · {WEBHOOK_FORMATS.find((f) => f.id === w.format)?.label}
+              </div>
+              <div className="truncate text-zinc-400">{w.url}</div>
+            </div>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                className={smallButton}
+                disabled={busy}
+                onClick={() =>
+                  void run(() =>
+                    sendJson(`/api/webhooks/${w.id}`, "PUT", { ...w, enabled: !w.enabled }),
+                  )
+                }
+              >
+                {w.enabled ? "On" : "Off"}
+              </button>
+              <button
+                type="button"
+                className={smallButton}
+                disabled={busy}
+                onClick={() => void run(() => sendJson(`/api/webhooks/${w.id}/test`, "POST"))}
+              >
+                Test
+              </button>
+              <button
+                type="button"
+                className={smallButton}
+                disabled={busy}
+                onClick={() => void run(() => sendJson(`/api/webhooks/${w.id}`, "DELETE"))}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+        <div className="grid grid-cols-[1fr_2fr_auto_auto] gap-2">
+          <input
+            className={inputClass}
+            value={hookName}
+            onChange={(e) => setHookName(e.target.value)}
+            placeholder="Name"
+          />
+          <input
+            className={inputClass}
+            value={hookUrl}
+            onChange={(e) => setHookUrl(e.target.value)}
+            placeholder="https://…"
+          />
+          <select
+            className={inputClass}
+            value={hookFormat}
+            onChange={(e) => setHookFormat(e.target.value as WebhookFormat)}
+          >
+            {WEBHOOK_FORMATS.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="ios-press h-9 rounded-xl border border-white/10 bg-black/30 px-3 text-xs font-semibold text-zinc-50 hover:bg-black/40 disabled:opacity-50"
+            disabled={busy || hookUrl.trim() === ""}
+            onClick={addWebhook}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 text-[11px] font-semibold text-zinc-300">Rules</div>
+      <div className="mt-2 grid gap-2">
+        {rules.map((r) => (
+          <div
+            key={r.id}
+            className="grid grid-cols-[1fr_auto] items-center gap-3 rounded-xl border border-white/10 bg-black/20 p-2 text-[11px]"
+          >
+            <div className="min-w-0">
+              <div className="font-semibold text-zinc-50">{describeWebhookRule(r)}</div>
+              <div className="text-zinc-400">
+                {!r.enabled
+                  ? "Paused"
+                  : r.armed
+                    ? "Waiting"
+                    : "Fired, re-arms when the condition clears"}
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                className={smallButton}
+                disabled={busy}
+                onClick={() =>
+                  void run(() =>
+                    sendJson(`/api/alerts/${r.id}`, "PUT", { ...r, enabled: !r.enabled }),
+                  )
+                }
+              >
+                {r.enabled ? "On" : "Off"}
+              </button>
+              <button
+                type="button"
+                className={smallButton}
+                disabled={busy}
+                onClick={() => void run(() => sendJson(`/api/alerts/${r.id}`, "DELETE"))}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            className={inputClass}
+            value={ruleKind}
+            onChange={(e) => setRuleKind(e.target.value as StakingRuleKind)}
+          >
+            {(Object.keys(WEBHOOK_RULE_LABELS) as StakingRuleKind[]).map((k) => (
+              <option key={k} value={k}>
+                {WEBHOOK_RULE_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          {ruleKind === "fee_below" ? (
+            <select
+              className={inputClass}
+              value={ruleSymbol}
+              onChange={(e) => setRuleSymbol(e.target.value)}
+            >
+              {TOKENS.filter((t) => t.simpleswapCode).map((t) => (
+                <option key={t.symbol} value={t.symbol}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div />
+          )}
+          {ruleKind === "fee_below" ? (
+            <>
+              <input
+                className={inputClass}
+                inputMode="decimal"
+                value={ruleAmount}
+                onChange={(e) => setRuleAmount(e.target.value)}
+                placeholder="Amount"
+              />
+              <select
+                className={inputClass}
+                value={ruleTo}
+                onChange={(e) => setRuleTo(parseFeeTarget(e.target.value) ?? "usdc-sol")}
+              >
+                {FEE_TARGETS.map((t) => (
+                  <option key={t} value={t}>
+                    {feeTargetLabel(t)}
+                  </option>
+                ))}
+              </select>
+            </>
+          ) : null}
+          {ruleKind !== "missed_rewards" ? (
+            <input
+              className={inputClass}
+              inputMode="decimal"
+              value={ruleValue}
+              onChange={(e) => setRuleValue(e.target.value)}
+              placeholder={
+                ruleKind === "fee_below" ? "Fee %" : `Value (${currency})`
+              }
+            />
+          ) : (
+            <div className="text-[11px] text-zinc-400">
+              Watches the {addresses.length} enabled wallet(s).
+            </div>
+          )}
+          <button
+            type="button"
+            className="ios-press col-span-2 h-9 rounded-xl border border-white/10 bg-black/30 px-3 text-xs font-semibold text-zinc-50 hover:bg-black/40 disabled:opacity-50"
+            disabled={busy || (ruleKind === "missed_rewards" && addresses.length === 0)}
+            onClick={addRule}
+          >
+            Add rule
+          </button>
+        </div>
+      </div>
+
+      {deliveries.length > 0 ? (
+        <>
+          <div className="mt-4 text-[11px] font-semibold text-zinc-300">Recent deliveries</div>
+          <div className="mt-2 grid gap-1">
+            {deliveries.map((d) => (
+              <div
+                key={d.id}
+                className="grid grid-cols-[auto_1fr_auto] items-center gap-3 text-[11px]"
+                title={d.lastError ?? undefined}
+              >
+                <span className="text-zinc-400">{new Date(d.createdAt).toLocaleString()}</span>
+                <span className="truncate text-zinc-300">
+                  {d.event.title} → {webhooks.find((w) => w.id === d.webhookId)?.name ?? `#${d.webhookId}`}
+                </span>
+                <span
+                  className={
+                    d.status === "delivered"
+                      ? "font-semibold text-[#14b8a6]"
+                      : d.status === "failed"
+                        ? "font-semibold text-red-300"
+                        : "font-semibold text-zinc-50"
+                  }
+                >
+                  {d.status === "pending" && d.attempts > 0
+                    ? `Retrying (${d.attempts})`
+                    : d.status === "delivered"
+                      ? "Delivered"
+                      : d.status === "failed"
+                        ? "Failed"
+                        : "Queued"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+type PriceAlertRow = AlertRuleRow & {
+  lastValue: number | null;
+  lastCheckedAt: number | null;
+  lastFiredAt: number | null;
+};
+
+const PRICE_ALERT_LABELS: Record<PriceAlertKind, string> = {
+  price_cross: "Price level",
+  price_move: "% move",
+  price_ratio: "TFUEL/THETA ratio",
+};
+
+const PRICE_MOVE_WINDOWS = [1, 4, 24, 72, 168];
+
+const PRICE_ALERT_POLL_MS = 60_000;
+
+function describePriceAlert(rule: PriceAlertRow): string {
+  const c = rule.config;
+  const hysteresis =
+    typeof c.hysteresisPct === "number" ? c.hysteresisPct : DEFAULT_HYSTERESIS_PCT;
+  switch (rule.kind) {
+    case "price_cross":
+      return `${tokenLabel(String(c.symbol))} ${c.direction === "below" ? "≤" : "≥"} ${c.price} ${c.currency} (±${hysteresis}%)`;
+    case "price_move": {
+      const dir = c.direction === "up" ? "up" : c.direction === "down" ? "down" : "±";
+      return `${tokenLabel(String(c.symbol))} ${dir} ${c.percent}% in ${c.windowHours}h (${c.currency ?? "USD"})`;
+    }
+    case "price_ratio":
+      return `TFUEL/THETA ${c.direction === "below" ? "≤" : "≥"} ${c.ratio} (±${hysteresis}%)`;
+    default:
+      return rule.kind;
+  }
+}
+
+function formatPriceAlertValue(rule: PriceAlertRow, currency: FiatCurrency): string {
+  const v = rule.lastValue;
+  if (v == null) return "—";
+  switch (rule.kind) {
+    case "price_cross": {
+      const c = parseFiatCurrency(String(rule.config.currency)) ?? currency;
+      return formatMoney(v, c);
+    }
+    case "price_move":
+      return `${v >= 0 ? "+" : ""}${v.toFixed(2)}%`;
+    default:
+      return v.toFixed(5);
+  }
+}
+
+function PriceAlerts({
+  prices,
+  currency,
+}: {
+  prices: Record<string, PriceRow>;
+  currency: FiatCurrency;
+}) {
+  const [rules, setRules] = useState<PriceAlertRow[] | null>(null);
+  const [reloadNonce, setReloadNonce] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [banner, setBanner] = useState<string | null>(null);
+  // Fire times already seen, so only new firings raise a banner.
+  const seenFiredAt = useRef<Map<string, number | null> | null>(null);
+
+  const [kind, setKind] = useState<PriceAlertKind>("price_cross");
+  const [symbol, setSymbol] = useState("tfuel");
+  const [direction, setDirection] = useState<"above" | "below" | "up" | "down" | "any">(
+    "above",
+  );
+  const [value, setValue] = useState("");
+  const [windowHours, setWindowHours] = useState(24);
+  const [hysteresis, setHysteresis] = useState(String(DEFAULT_HYSTERESIS_PCT));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch("/api/alerts", { cache: "no-store" });
+        if (!res.ok) return;
+        const json = (await res.json()) as { alerts: PriceAlertRow[] };
+        if (cancelled) return;
+        const list = (json.alerts ?? []).filter((a) => isPriceAlertKind(a.kind));
+        setRules(list);
+
+        const seen = seenFiredAt.current;
+        const fresh = seen
+          ? list.filter(
+              (r) => r.lastFiredAt != null && r.lastFiredAt !== (seen.get(r.id) ?? null),
+            )
+          : [];
+        seenFiredAt.current = new Map(list.map((r) => [r.id, r.lastFiredAt] as const));
+        if (fresh.length === 0) return;
+
+        const msg = fresh
+          .map((r) => `${describePriceAlert(r)}: now ${formatPriceAlertValue(r, currency)}.`)
+          .join(" ");
+        setBanner(msg);
+        if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+          try {
+            new Notification("Price alert", { body: msg });
+          } catch {
+            // The in-app banner is enough.
+          }
+        }
+      } catch {
+        if (!cancelled) setError("Could not load price alerts");
+      }
+    }
+
+    void load();
+    const id = window.setInterval(load, PRICE_ALERT_POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(id);
+    };
+  }, [currency, reloadNonce]);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed");
+    } finally {
+      setBusy(false);
+      setReloadNonce((n) => n + 1);
+    }
+  }
+
+  function changeKind(next: PriceAlertKind) {
+    setKind(next);
+    setDirection(next === "price_move" ? "any" : "above");
+    setValue("");
+  }
+
+  function addAlert() {
+    const v = Number(value);
+    const h = Number(hysteresis);
+    if (!Number.isFinite(v) || v <= 0) {
+      setError("Enter a positive threshold.");
+      return;
+    }
+    const hysteresisPct = Number.isFinite(h) && h >= 0 ? h : DEFAULT_HYSTERESIS_PCT;
+
+    let config: Record<string, unknown>;
+    switch (kind) {
+      case "price_cross":
+        config = { symbol, currency, direction, price: v, hysteresisPct };
+        break;
+      case "price_move":
+        config = { symbol, currency, windowHours, direction, percent: v, hysteresisPct };
+        break;
+      case "price_ratio":
+        config = { currency, direction, ratio: v, hysteresisPct };
+        break;
+    }
+
+    const id = `price-${Date.now().toString(36)}`;
+    void run(async () => {
+      await sendJson(`/api/alerts/${id}`, "PUT", { kind, enabled: true, armed: true, config });
+      setValue("");
+    });
+  }
+
+  const tfuelPrice = prices.tfuel?.price ?? null;
+  const thetaPrice = prices.theta?.price ?? null;
+  const ratioNow =
+    tfuelPrice == null || thetaPrice == null || thetaPrice <= 0 ? null : tfuelPrice / thetaPrice;
+  const valuePlaceholder =
+    kind === "price_move"
+      ? "Move %"
+      : kind === "price_ratio"
+        ? ratioNow == null
+          ? "Ratio"
+          : ratioNow.toFixed(5)
+        : prices[symbol]?.price == null
+          ? `Price (${currency})`
+          : String(prices[symbol]?.price);
+
+  const inputClass =
+    "h-9 rounded-lg border border-white/10 bg-black/30 px-2 text-xs text-zinc-50 outline-none focus:ring-2 focus:ring-zinc-400";
+  const smallButton =
+    "ios-press h-7 rounded-full border border-white/10 bg-black/30 px-3 text-[11px] font-semibold text-zinc-50 hover:bg-black/40 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-col gap-3">
+      {banner ? (
+        <div className="app-glass rounded-xl p-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="text-xs text-zinc-50">{banner}</div>
+            <button
+              type="button"
+              className="ios-press h-7 shrink-0 rounded-full border border-white/10 bg-black/40 px-3 text-[11px] font-semibold text-zinc-50 hover:bg-black/50"
+              onClick={() => setBanner(null)}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="app-glass rounded-xl p-3 text-sm">
+        <div className="text-xs font-semibold text-[#14b8a6]">Price alerts</div>
+        <div className="mt-1 text-[11px] text-zinc-400">
+          Checked on the server every minute and sent to your webhooks. A fired alert
+          re-arms once the value moves back past the threshold by the margin.
+        </div>
 
-            return (
+        {error ? <p className="mt-2 text-[11px] text-red-300">{error}</p> : null}
+
+        <div className="mt-3 grid gap-2">
+          {rules == null ? (
+            <div className="text-[11px] text-zinc-400">Loading…</div>
+          ) : rules.length === 0 ? (
+            <div className="text-[11px] text-zinc-400">No price alerts yet.</div>
+          ) : (
+            rules.map((r) => (
               <div
-                key={r.address}
-                className="rounded-xl border border-[rgba(255,106,0,0.18)] bg-black/30 p-3"
+                key={r.id}
+                className="grid grid-cols-[1fr_auto] items-center gap-3 rounded-xl border border-white/10 bg-black/20 p-2 text-[11px]"
               >
-                <div className="flex items-start justify-between gap-3">
-                  <div className="min-w-0">
-                    <div className="text-xs font-semibold text-zinc-50">
-                      {shortAddress(r.address)}
-                    </div>
-                    <div className="mt-1 text-[11px] text-zinc-400">
-                      Earned (USD): {earnedUsd == null ? "—" : formatMoney(earnedUsd, "USD")}
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-[11px] text-zinc-400">Implied APR (USD)</div>
-                    <div className="mt-1 text-sm font-semibold text-zinc-50">
-                      {aprUsd == null ? "—" : `${aprUsd.toFixed(2)}%`}
-                    </div>
+                <div className="min-w-0">
+                  <div className="font-semibold text-zinc-50">{describePriceAlert(r)}</div>
+                  <div className="text-zinc-400">
+                    Now {formatPriceAlertValue(r, currency)} ·{" "}
+                    {!r.enabled
+                      ? "Paused"
+                      : r.armed
+                        ? "Armed"
+                        : `Fired ${r.lastFiredAt == null ? "" : new Date(r.lastFiredAt).toLocaleString()}`}
                   </div>
                 </div>
-
-                <div className="mt-3 grid grid-cols-2 gap-2">
-                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
-                    <div className="text-[11px] text-zinc-400">Staked THETA</div>
-                    <div className="mt-1 text-sm font-semibold text-zinc-50">
-                      {formatCompactNumber(r.stakedTheta, 3)}
-                    </div>
-                  </div>
-                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
-                    <div className="text-[11px] text-zinc-400">TFUEL balance</div>
-                    <div className="mt-1 text-sm font-semibold text-zinc-50">
-                      {formatCompactNumber(r.tfuelBalance, 3)}
-                    </div>
-                  </div>
-                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
-                    <div className="text-[11px] text-zinc-400">Baseline</div>
-                    <div className="mt-1 text-sm font-semibold text-zinc-50">
-                      {tracking == null ? "—" : formatCompactNumber(base, 3)}
-                    </div>
-                  </div>
-                  <div className="rounded-xl border border-white/10 bg-black/20 p-3">
-                    <div className="text-[11px] text-zinc-400">Avg/day</div>
-                    <div className="mt-1 text-sm font-semibold text-zinc-50">
-                      {formatCompactNumber(avgPerDay, 3)}
-                    </div>
-                  </div>
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    className={smallButton}
+                    disabled={busy}
+                    onClick={() =>
+                      void run(() =>
+                        sendJson(`/api/alerts/${r.id}`, "PUT", { ...r, enabled: !r.enabled }),
+                      )
+                    }
+                  >
+                    {r.enabled ? "On" : "Off"}
+                  </button>
+                  <button
+                    type="button"
+                    className={smallButton}
+                    disabled={busy}
+                    onClick={() => void run(() => sendJson(`/api/alerts/${r.id}`, "DELETE"))}
+                  >
+                    Remove
+                  </button>
                 </div>
-
-                {tracking != null && deltas != null && deltas.length > 0 ? (
-                  <div className="mt-3">
-                    <div className="text-[11px] text-zinc-400">
-                      Daily earnings (last {deltas.length}d)
-                    </div>
-                    <div className="mt-2 flex h-14 items-end gap-1 overflow-hidden rounded-xl border border-white/10 bg-black/20 p-2">
-                      {deltas.map((d) => {
-                        const h =
-                          maxDelta > 0
-                            ? Math.max(2, Math.round((d.delta / maxDelta) * 48))
-                            : 2;
-                        return (
-                          <div
-                            key={d.day}
-                            className="flex w-2 flex-col items-center"
-                            title={`${formatDayLabel(d.day)}: ${formatCompactNumber(d.delta, 4)} TFUEL`}
-                          >
-                            <div
-                              className="w-2 rounded-sm bg-white/40"
-                              style={{ height: `${h}px` }}
-                            />
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                ) : null}
               </div>
-            );
-          })}
+            ))
+          )}
+        </div>
+
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <select
+            className={inputClass}
+            value={kind}
+            onChange={(e) => changeKind(e.target.value as PriceAlertKind)}
+          >
+            {PRICE_ALERT_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {PRICE_ALERT_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          {kind !== "price_ratio" ? (
+            <select
+              className={inputClass}
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+            >
+              {TOKENS.filter((t) => t.coingeckoId).map((t) => (
+                <option key={t.symbol} value={t.symbol}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div className="self-center text-[11px] text-zinc-400">
+              Now {ratioNow == null ? "—" : ratioNow.toFixed(5)}
+            </div>
+          )}
+          <select
+            className={inputClass}
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as typeof direction)}
+          >
+            {kind === "price_move" ? (
+              <>
+                <option value="any">Up or down</option>
+                <option value="up">Up</option>
+                <option value="down">Down</option>
+              </>
+            ) : (
+              <>
+                <option value="above">At or above</option>
+                <option value="below">At or below</option>
+              </>
+            )}
+          </select>
+          {kind === "price_move" ? (
+            <select
+              className={inputClass}
+              value={windowHours}
+              onChange={(e) => setWindowHours(Number(e.target.value))}
+            >
+              {PRICE_MOVE_WINDOWS.map((h) => (
+                <option key={h} value={h}>
+                  Over {h}h
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div />
+          )}
+          <input
+            className={inputClass}
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={valuePlaceholder}
+          />
+          <input
+            className={inputClass}
+            inputMode="decimal"
+            value={hysteresis}
+            onChange={(e) => setHysteresis(e.target.value)}
+            placeholder="Re-arm margin %"
+            title="Re-arm margin (%)"
+          />
+          <button
+            type="button"
+            className="ios-press col-span-2 h-9 rounded-xl border border-white/10 bg-black/30 px-3 text-xs font-semibold text-zinc-50 hover:bg-black/40 disabled:opacity-50"
+            disabled={busy}
+            onClick={addAlert}
+          >
+            Add price alert
+          </button>
         </div>
       </div>
     </div>
@@ -2700,9 +5831,6 @@ function NetworkFees({
     return Math.max(...vals);
   }, [data]);
 
-  const tokenAccentClass = symbol === "tfuel" ? "text-[#ff6a00]" : "text-[#14b8a6]";
-  const tokenAccentFromClass =
-    symbol === "tfuel" ? "from-[#ff6a00]/20" : "from-[#14b8a6]/20";
 
   return (
     <div className="mt-3 flex flex-col gap-3">
@@ -2715,16 +5843,19 @@ function NetworkFees({
           onChange={(e) => onAmountChange(e.target.value)}
         />
         <select
-          className={
-            symbol === "tfuel"
-              ? "h-11 rounded-xl border border-white/10 bg-black px-3 text-sm text-[#ff6a00] outline-none focus:ring-2 focus:ring-[#ff6a00]"
-              : "h-11 rounded-xl border border-white/10 bg-black px-3 text-sm text-[#14b8a6] outline-none focus:ring-2 focus:ring-[#14b8a6]"
-          }
+          className="h-11 rounded-xl border border-white/10 bg-black px-3 text-sm outline-none focus:ring-2"
+          style={{
+            color: tokenColor(symbol),
+            ["--tw-ring-color" as string]: tokenColor(symbol),
+          }}
           value={symbol}
           onChange={(e) => onSymbolChange(e.target.value)}
         >
-          <option value="tfuel">TFUEL</option>
-          <option value="theta">THETA</option>
+          {TOKENS.map((t) => (
+            <option key={t.symbol} value={t.symbol}>
+              {t.label}
+            </option>
+          ))}
         </select>
       </div>
 
@@ -2772,26 +5903,32 @@ function NetworkFees({
               ? null
               : Math.max(0, bestEstimated - r.estimatedUsdc);
 
-          const networkTextClass =
-            r.to === "usdc-sol" ? "text-[#7c3aed]" : "text-[#38bdf8]";
-          const networkSubtleTextClass =
-            r.to === "usdc-sol" ? "text-[#7c3aed]/80" : "text-[#38bdf8]/80";
-
-          const rowBg = isBest
-            ? "bg-white/5"
-            : r.to === "usdc-sol"
-              ? "bg-[#7c3aed]/10"
-              : "bg-[#38bdf8]/10";
+          // Chain colours are data, so they go through inline styles.
+          const color = feeTargetColor(r.to);
+          const networkSubtleTextClass = "opacity-80";
 
           return (
-            <div key={r.to} className={`${rowBg} p-3 text-sm`}>
+            <div
+              key={r.to}
+              className={`${isBest ? "bg-white/5" : ""} p-3 text-sm`}
+              style={isBest ? undefined : { backgroundColor: `${color}1a` }}
+            >
               {idx > 0 ? <div className="mb-3 h-px w-full bg-white/10" /> : null}
-              <div className={`flex items-start justify-between gap-3 ${networkTextClass}`}>
+              <div className="flex items-start justify-between gap-3" style={{ color }}>
                 <div className="flex flex-col">
-                  <span className="text-sm font-semibold">{labelNetwork(r.to)}</span>
+                  <span className="text-sm font-semibold">
+                    {idx + 1}. {feeTargetLabel(r.to)}
+                  </span>
                   <span className={`text-[11px] ${networkSubtleTextClass}`}>
-                    Estimated received
+                    {r.source === "thetaswap" ? "ThetaSwap pools" : "SimpleSwap"} · estimated
+                    received
                   </span>
+                  {r.dex ? (
+                    <span className={`text-[11px] ${networkSubtleTextClass}`}>
+                      {r.dex.path.map((t) => tokenLabel(t)).join(" → ")} · impact{" "}
+                      {r.dex.priceImpactPct.toFixed(2)}% · pool fees {r.dex.lpFeePct.toFixed(2)}%
+                    </span>
+                  ) : null}
                 </div>
                 <div className="flex flex-col items-end">
                   <span className="text-sm font-semibold">
@@ -2803,6 +5940,14 @@ function NetworkFees({
                       {r.impliedFeePct == null ? "" : ` (${r.impliedFeePct.toFixed(2)}%)`}
                     </span>
                   ) : null}
+                  {r.fixed?.estimated != null ? (
+                    <span className={`text-[11px] ${networkSubtleTextClass}`}>
+                      Fixed rate: {formatMoney(r.fixed.estimated, "USDC")}
+                      {r.fixed.premiumPct == null
+                        ? ""
+                        : ` (${r.fixed.premiumPct >= 0 ? "+" : ""}${r.fixed.premiumPct.toFixed(2)}% premium)`}
+                    </span>
+                  ) : null}
                   {deltaVsBest != null && deltaVsBest > 0 ? (
                     <span className={`text-[11px] ${networkSubtleTextClass}`}>
                       Difference vs best: {formatMoney(deltaVsBest, "USDC")}
@@ -2819,6 +5964,375 @@ function NetworkFees({
           );
         })}
       </div>
+
+      {amountNum != null ? (
+        <FeeDepthCurve
+          symbol={symbol}
+          amount={amountNum}
+          destinations={(data?.rows ?? []).map((r) => r.to)}
+          refreshNonce={(refreshNonce ?? 0) + localRefreshNonce}
+        />
+      ) : null}
+
+      <FeeHistory symbol={symbol} destinations={(data?.rows ?? []).map((r) => r.to)} />
+    </div>
+  );
+}
+
+const DEPTH_CHART_W = 300;
+const DEPTH_CHART_H = 90;
+
+/** Price and implied fee at 1×, 10×, 100×… the amount, to see what selling in one go costs. */
+function FeeDepthCurve({
+  symbol,
+  amount,
+  destinations,
+  refreshNonce,
+}: {
+  symbol: string;
+  amount: number;
+  destinations: FeeTarget[];
+  refreshNonce: number;
+}) {
+  const [to, setTo] = useState<FeeTarget>("usdc-sol");
+  const [data, setData] = useState<DepthResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ symbol, amount: String(amount), to });
+        const res = await fetch(`/api/fees/depth?${params}`, { cache: "no-store" });
+        const json = (await res.json()) as DepthResponse | { error: string };
+        if (cancelled) return;
+        if ("error" in json) {
+          setError(json.error);
+          setData(null);
+        } else {
+          setData(json);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Request failed");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, amount, to, refreshNonce]);
+
+  const options = destinations.length > 0 ? [...new Set(destinations)] : FEE_TARGETS;
+  const curves = data?.curves ?? [];
+  const spot = data?.spotUsdc ?? null;
+  const rates = curves.flatMap((c) =>
+    c.rungs.flatMap((r) => (r.effectivePrice == null ? [] : [r.effectivePrice])),
+  );
+  // Keep at least a 1% span so a flat curve doesn't get stretched into a cliff.
+  const top = Math.max(spot ?? 0, ...rates);
+  const bottom = Math.min(top * 0.99, ...rates);
+  const rungCount = Math.max(0, ...curves.map((c) => c.rungs.length));
+  const xAt = (i: number) => (rungCount < 2 ? 0 : (i / (rungCount - 1)) * DEPTH_CHART_W);
+  const yAt = (price: number) =>
+    DEPTH_CHART_H - 3 - ((price - bottom) / (top - bottom || 1)) * (DEPTH_CHART_H - 6);
+  const color = feeTargetColor(to);
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex flex-col">
+          <span className="text-xs font-semibold text-zinc-200">Depth curve</span>
+          <span className="text-[11px] text-zinc-400">
+            Price received as the sale grows{spot == null ? "" : ", against spot"}
+            {loading ? " · loading…" : ""}
+          </span>
+        </div>
+        <select
+          className="h-8 rounded-lg border border-white/10 bg-black/30 px-2 text-[11px] font-semibold outline-none"
+          style={{ color }}
+          value={to}
+          onChange={(e) => setTo(parseFeeTarget(e.target.value) ?? "usdc-sol")}
+        >
+          {(options.includes(to) ? options : [to, ...options]).map((t) => (
+            <option key={t} value={t}>
+              {feeTargetLabel(t)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {rates.length > 0 ? (
+        <svg
+          viewBox={`0 0 ${DEPTH_CHART_W} ${DEPTH_CHART_H}`}
+          className="mt-3 h-[90px] w-full overflow-visible"
+        >
+          {spot != null ? (
+            <line
+              x1="0"
+              x2={DEPTH_CHART_W}
+              y1={yAt(spot)}
+              y2={yAt(spot)}
+              stroke="currentColor"
+              strokeDasharray="2 3"
+              className="text-zinc-500"
+            />
+          ) : null}
+          {curves.map((c) => {
+            const pts = c.rungs.flatMap((r, i) =>
+              r.effectivePrice == null ? [] : [{ x: xAt(i), y: yAt(r.effectivePrice) }],
+            );
+            return (
+              <g key={c.source}>
+                <polyline
+                  fill="none"
+                  stroke={color}
+                  strokeWidth="2"
+                  strokeDasharray={c.source === "thetaswap" ? "4 3" : undefined}
+                  points={pts.map((p) => `${p.x.toFixed(2)},${p.y.toFixed(2)}`).join(" ")}
+                  opacity="0.95"
+                />
+                {pts.map((p) => (
+                  <circle key={p.x} cx={p.x} cy={p.y} r="2.5" fill={color} />
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+      ) : null}
+
+      {curves.map((c) => (
+        <div key={c.source} className="mt-2 grid gap-1">
+          {curves.length > 1 ? (
+            <div className="text-[11px] font-semibold text-zinc-300">
+              {c.source === "thetaswap" ? "ThetaSwap pools (dashed)" : "SimpleSwap"}
+            </div>
+          ) : null}
+          <div className="grid grid-cols-[40px_1fr_1fr_1fr] gap-2 text-[11px] text-zinc-400">
+            <span>Size</span>
+            <span className="text-right">{tokenLabel(symbol)}</span>
+            <span className="text-right">Price</span>
+            <span className="text-right">Fee</span>
+          </div>
+          {c.rungs.map((r) => (
+            <div
+              key={r.multiple}
+              className="grid grid-cols-[40px_1fr_1fr_1fr] gap-2 text-[11px]"
+              title={r.error}
+            >
+              <span className="text-zinc-300">{r.multiple}×</span>
+              <span className="text-right text-zinc-50">{formatCompactNumber(r.amount, 2)}</span>
+              <span className="text-right text-zinc-50">
+                {r.effectivePrice == null ? "—" : formatCompactNumber(r.effectivePrice, 6)}
+              </span>
+              <span className="text-right text-zinc-50">
+                {r.impliedFeePct == null ? "—" : `${r.impliedFeePct.toFixed(2)}%`}
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {data ? (
+        <div className="mt-2 text-[11px] text-zinc-500">
+          Quoted {new Date(data.fetchedAt).toLocaleTimeString()}; cached for a few minutes.
+        </div>
+      ) : null}
+      {error ? <p className="mt-2 text-[11px] text-red-300">{error}</p> : null}
+    </div>
+  );
+}
+
+const FEE_HISTORY_RANGES = [
+  { id: "1d", label: "24h", ms: 24 * 60 * 60_000 },
+  { id: "7d", label: "7d", ms: 7 * 24 * 60 * 60_000 },
+  { id: "30d", label: "30d", ms: 30 * 24 * 60 * 60_000 },
+] as const;
+
+const FEE_HISTORY_POLL_MS = 5 * 60_000;
+
+/** Recorded implied fees over time, to spot when a swap is historically cheap. */
+function FeeHistory({ symbol, destinations }: { symbol: string; destinations: FeeTarget[] }) {
+  const [to, setTo] = useState<FeeTarget>("usdc-sol");
+  const [range, setRange] = useState<(typeof FEE_HISTORY_RANGES)[number]["id"]>("7d");
+  const [data, setData] = useState<FeeHistoryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeMs = FEE_HISTORY_RANGES.find((r) => r.id === range)?.ms ?? FEE_HISTORY_RANGES[1].ms;
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      try {
+        const params = new URLSearchParams({
+          symbol,
+          to,
+          since: String(Date.now() - rangeMs),
+        });
+        const res = await fetch(`/api/fees/history?${params}`, { cache: "no-store" });
+        const json = (await res.json()) as FeeHistoryResponse | { error: string };
+        if (cancelled) return;
+        if ("error" in json) {
+          setError(json.error);
+        } else {
+          setData(json);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Request failed");
+      }
+    }
+
+    void load();
+    const id = window.setInterval(load, FEE_HISTORY_POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(id);
+    };
+  }, [symbol, to, rangeMs]);
+
+  const options = destinations.length > 0 ? [...new Set(destinations)] : FEE_TARGETS;
+  const series = (data?.series ?? []).filter((s) => s.to === to);
+  const color = feeTargetColor(to);
+
+  const points = series.flatMap((s) =>
+    s.samples.flatMap((p) => (p.impliedFeePct == null ? [] : [{ t: p.t, fee: p.impliedFeePct }])),
+  );
+  const end = data ? Math.max(data.sinceMs + rangeMs, ...points.map((p) => p.t)) : 0;
+  const start = data?.sinceMs ?? 0;
+  const minFee = Math.min(...points.map((p) => p.fee));
+  const maxFee = Math.max(...points.map((p) => p.fee));
+  const feeSpan = maxFee - minFee || 1;
+  const xAt = (t: number) => ((t - start) / (end - start || 1)) * DEPTH_CHART_W;
+  const yAt = (fee: number) => DEPTH_CHART_H - 3 - ((fee - minFee) / feeSpan) * (DEPTH_CHART_H - 6);
+
+  // Average fee by local hour of day, cheapest first.
+  const byHour = new Map<number, { sum: number; n: number }>();
+  for (const p of points) {
+    const h = new Date(p.t).getHours();
+    const b = byHour.get(h) ?? { sum: 0, n: 0 };
+    byHour.set(h, { sum: b.sum + p.fee, n: b.n + 1 });
+  }
+  const cheapestHours = [...byHour]
+    .map(([hour, b]) => ({ hour, avg: b.sum / b.n }))
+    .sort((a, b) => a.avg - b.avg)
+    .slice(0, 3);
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex flex-col">
+          <span className="text-xs font-semibold text-zinc-200">Fee history</span>
+          <span className="text-[11px] text-zinc-400">Implied fee from recorded quotes</span>
+        </div>
+        <select
+          className="h-8 rounded-lg border border-white/10 bg-black/30 px-2 text-[11px] font-semibold outline-none"
+          style={{ color }}
+          value={to}
+          onChange={(e) => setTo(parseFeeTarget(e.target.value) ?? "usdc-sol")}
+        >
+          {(options.includes(to) ? options : [to, ...options]).map((t) => (
+            <option key={t} value={t}>
+              {feeTargetLabel(t)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-2 grid grid-cols-3 gap-2">
+        {FEE_HISTORY_RANGES.map((r) => (
+          <button
+            key={r.id}
+            type="button"
+            className={
+              range === r.id
+                ? "ios-press h-7 rounded-lg border border-white/10 bg-white/15 text-[11px] font-semibold text-zinc-50"
+                : "ios-press h-7 rounded-lg border border-white/10 bg-black/20 text-[11px] font-semibold text-zinc-300 hover:bg-black/30"
+            }
+            onClick={() => setRange(r.id)}
+          >
+            {r.label}
+          </button>
+        ))}
+      </div>
+
+      {points.length >= 2 ? (
+        <svg viewBox={`0 0 ${DEPTH_CHART_W} ${DEPTH_CHART_H}`} className="mt-3 h-[90px] w-full">
+          {series.map((s) => {
+            const median = s.stats?.medianPct;
+            return (
+              <g key={s.source}>
+                {median != null ? (
+                  <line
+                    x1="0"
+                    x2={DEPTH_CHART_W}
+                    y1={yAt(median)}
+                    y2={yAt(median)}
+                    stroke="currentColor"
+                    strokeDasharray="2 3"
+                    className="text-zinc-500"
+                  />
+                ) : null}
+                <polyline
+                  fill="none"
+                  stroke={color}
+                  strokeWidth="2"
+                  strokeDasharray={s.source === "thetaswap" ? "4 3" : undefined}
+                  points={s.samples
+                    .flatMap((p) =>
+                      p.impliedFeePct == null
+                        ? []
+                        : [`${xAt(p.t).toFixed(2)},${yAt(p.impliedFeePct).toFixed(2)}`],
+                    )
+                    .join(" ")}
+                  opacity="0.95"
+                />
+              </g>
+            );
+          })}
+        </svg>
+      ) : data ? (
+        <p className="mt-2 text-[11px] text-zinc-500">
+          Not enough samples yet. The server records quotes every 15 minutes by default
+          (FEE_RECORD_INTERVAL_MS) while SIMPLESWAP_API_KEY is set.
+        </p>
+      ) : null}
+
+      {series.map((s) =>
+        s.stats ? (
+          <div key={s.source} className="mt-2 text-[11px] text-zinc-300">
+            {series.length > 1 ? (
+              <span className="font-semibold">
+                {s.source === "thetaswap" ? "ThetaSwap (dashed): " : "SimpleSwap: "}
+              </span>
+            ) : null}
+            Now {s.stats.latestPct.toFixed(2)}% · median {s.stats.medianPct.toFixed(2)}% · range{" "}
+            {s.stats.minPct.toFixed(2)}–{s.stats.maxPct.toFixed(2)}%
+            <span
+              className={`block ${
+                s.stats.latestPct <= s.stats.medianPct ? "text-emerald-300" : "text-amber-300"
+              }`}
+            >
+              Cheaper than {s.stats.cheaperThanPct.toFixed(0)}% of {s.samples.length} samples
+            </span>
+          </div>
+        ) : null,
+      )}
+
+      {cheapestHours.length > 0 && points.length >= 24 ? (
+        <div className="mt-2 text-[11px] text-zinc-400">
+          Usually cheapest around{" "}
+          {cheapestHours
+            .map((h) => `${String(h.hour).padStart(2, "0")}:00 (${h.avg.toFixed(2)}%)`)
+            .join(", ")}
+        </div>
+      ) : null}
+      {error ? <p className="mt-2 text-[11px] text-red-300">{error}</p> : null}
     </div>
   );
 }
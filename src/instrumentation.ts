@@ -0,0 +1,15 @@
+export async function register() {
+  // Schedulers run on the Node server only. Set ALERT_SCHEDULER=off to stop
+  // alert checks and FEE_RECORDER=off to stop fee sampling.
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  if (process.env.ALERT_SCHEDULER !== "off") {
+    const { startAlertScheduler } = await import("@/lib/alertScheduler");
+    startAlertScheduler();
+  }
+
+  if (process.env.FEE_RECORDER !== "off") {
+    const { startFeeRecorder } = await import("@/lib/feeRecorder");
+    startFeeRecorder();
+  }
+}
@@ -0,0 +1,41 @@
+export function normalizeAddress(raw: string): string {
+  return raw.trim().toLowerCase();
+}
+
+export function isHexAddress(s: string): boolean {
+  return /^0x[a-f0-9]{40}$/.test(s);
+}
+
+export function toAddressList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map(normalizeAddress)
+    .filter(Boolean);
+}
+
+export type TrackedWallet = {
+  address: string;
+  label: string;
+  enabled: boolean;
+};
+
+/** Keeps well-formed wallets, lowercased and without repeats; null when `raw` isn't a list. */
+export function parseTrackedWallets(raw: unknown): TrackedWallet[] | null {
+  if (!Array.isArray(raw)) return null;
+  const seen = new Set<string>();
+  const wallets: TrackedWallet[] = [];
+  for (const w of raw) {
+    if (!w || typeof w !== "object") continue;
+    const obj = w as Record<string, unknown>;
+    if (typeof obj.address !== "string") continue;
+    const address = normalizeAddress(obj.address);
+    if (!isHexAddress(address) || seen.has(address)) continue;
+    seen.add(address);
+    wallets.push({
+      address,
+      label: typeof obj.label === "string" ? obj.label : "",
+      enabled: typeof obj.enabled === "boolean" ? obj.enabled : true,
+    });
+  }
+  return wallets;
+}
@@ -0,0 +1,290 @@
+import {
+  isWebhookAlertKind,
+  type AlertEvent,
+  type FeeBelowRuleConfig,
+  type MissedRewardsRuleConfig,
+  thresholdState,
+  type PriceCrossRuleConfig,
+  type PriceMoveRuleConfig,
+  type PriceRatioRuleConfig,
+  type RewardValueRuleConfig,
+  type WebhookAlertKind,
+} from "@/lib/alerts";
+import { listAlerts, recordAlertCheck, type AlertRecord } from "@/lib/alertStore";
+import { fetchMarketChart, fetchUsdRate } from "@/lib/coingecko";
+import { formatFiat, parseFiatCurrency } from "@/lib/currency";
+import { errorMessage } from "@/lib/http";
+import { quoteNetworkFees } from "@/lib/networkFees";
+import { fetchAggregatedUsd } from "@/lib/priceProviders";
+import { detectRewardAnomalies, learnRewardCadence } from "@/lib/rewardAnomalies";
+import { syncRewardLedger } from "@/lib/rewardLedger";
+import { fetchTfuelPriceNow, priceAt } from "@/lib/rewardValuation";
+import { feeTargetLabel, parseFeeTarget } from "@/lib/stableNetworks";
+import { tokenLabel } from "@/lib/tokens";
+import { getActiveTrackingSession } from "@/lib/trackingStore";
+import { processWebhookDeliveries } from "@/lib/webhooks";
+import { enqueueDeliveries, listWebhooks } from "@/lib/webhookStore";
+
+/** Whether a rule's condition currently holds, and what to say when it fires. */
+type RuleCheck = {
+  active: boolean;
+  /** Whether a fired rule may fire again; defaults to `!active`. */
+  rearm?: boolean;
+  /** The measured value, kept for display. */
+  value?: number;
+  title: string;
+  message: string;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function requireNumber(config: Record<string, unknown>, key: string): number {
+  const v = config[key];
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new Error(`Missing ${key}`);
+  }
+  return v;
+}
+
+function optionalNumber(config: Record<string, unknown>, key: string): number | undefined {
+  const v = config[key];
+  return typeof v === "number" && Number.isFinite(v) ? v : undefined;
+}
+
+function requireCurrency(config: Record<string, unknown>) {
+  const currency = parseFiatCurrency(
+    typeof config.currency === "string" ? config.currency : "USD",
+  );
+  if (!currency) throw new Error("Invalid currency");
+  return currency;
+}
+
+async function checkRewardValue(config: RewardValueRuleConfig): Promise<RuleCheck> {
+  const threshold = requireNumber(config, "threshold");
+  const currency = requireCurrency(config);
+  const session = getActiveTrackingSession();
+  const title = "Staking rewards threshold";
+  if (!session) return { active: false, title, message: "" };
+
+  const sinceSec = Math.floor(session.startedAt / 1000);
+  const ledgers = await Promise.all(
+    Object.keys(session.baselines).map((a) => syncRewardLedger(a)),
+  );
+  const earned = ledgers
+    .flatMap((l) => l.rewards)
+    .filter((r) => r.timestamp >= sinceSec)
+    .reduce((a, r) => a + r.amount, 0);
+
+  const price = await fetchTfuelPriceNow(currency);
+  if (price == null) throw new Error("No TFUEL price");
+  const value = earned * price;
+
+  return {
+    active: value >= threshold,
+    value,
+    title,
+    message: `Rewards since tracking started are worth ${formatFiat(value, currency)} (${earned.toFixed(3)} TFUEL), target ${formatFiat(threshold, currency)}.`,
+  };
+}
+
+async function checkPriceCross(config: PriceCrossRuleConfig): Promise<RuleCheck> {
+  const target = requireNumber(config, "price");
+  const currency = requireCurrency(config);
+  const symbol = String(config.symbol ?? "").toLowerCase();
+  const [usd, rate] = await Promise.all([fetchAggregatedUsd(symbol), fetchUsdRate(currency)]);
+  const price = usd * rate;
+
+  const direction = config.direction === "below" ? "below" : "above";
+  return {
+    ...thresholdState(price, target, direction, optionalNumber(config, "hysteresisPct")),
+    value: price,
+    title: `${tokenLabel(symbol)} ${direction} ${formatFiat(target, currency)}`,
+    message: `${tokenLabel(symbol)} is at ${formatFiat(price, currency)}.`,
+  };
+}
+
+async function checkPriceMove(config: PriceMoveRuleConfig): Promise<RuleCheck> {
+  const percent = requireNumber(config, "percent");
+  const windowHours = Math.min(24 * 30, Math.max(1, requireNumber(config, "windowHours")));
+  const currency = requireCurrency(config);
+  const symbol = String(config.symbol ?? "").toLowerCase();
+
+  const [usd, rate, history] = await Promise.all([
+    fetchAggregatedUsd(symbol),
+    fetchUsdRate(currency),
+    fetchMarketChart(symbol, Math.ceil(windowHours / 24), currency),
+  ]);
+  const now = usd * rate;
+  const then = priceAt(history, Date.now() - windowHours * HOUR_MS);
+  if (then == null || then <= 0) throw new Error(`No ${tokenLabel(symbol)} history`);
+
+  const move = (now / then - 1) * 100;
+  // Compare the move in the watched direction against the threshold.
+  const measured =
+    config.direction === "up" ? move : config.direction === "down" ? -move : Math.abs(move);
+  const sign = move >= 0 ? "+" : "";
+
+  return {
+    ...thresholdState(measured, percent, "above", optionalNumber(config, "hysteresisPct")),
+    value: move,
+    title: `${tokenLabel(symbol)} moved ${sign}${move.toFixed(2)}% in ${windowHours}h`,
+    message: `${tokenLabel(symbol)} went from ${formatFiat(then, currency)} to ${formatFiat(now, currency)} over the last ${windowHours}h (alert at ${percent}%).`,
+  };
+}
+
+async function checkPriceRatio(config: PriceRatioRuleConfig): Promise<RuleCheck> {
+  const target = requireNumber(config, "ratio");
+  const currency = requireCurrency(config);
+  const [tfuel, theta, rate] = await Promise.all([
+    fetchAggregatedUsd("tfuel"),
+    fetchAggregatedUsd("theta"),
+    fetchUsdRate(currency),
+  ]);
+  if (theta <= 0) throw new Error("No THETA price");
+  const ratio = tfuel / theta;
+
+  const direction = config.direction === "below" ? "below" : "above";
+  return {
+    ...thresholdState(ratio, target, direction, optionalNumber(config, "hysteresisPct")),
+    value: ratio,
+    title: `TFUEL/THETA ${direction} ${target}`,
+    message: `TFUEL/THETA is at ${ratio.toFixed(5)} (TFUEL ${formatFiat(tfuel * rate, currency)}, THETA ${formatFiat(theta * rate, currency)}).`,
+  };
+}
+
+async function checkFeeBelow(config: FeeBelowRuleConfig): Promise<RuleCheck> {
+  const percent = requireNumber(config, "percent");
+  const amount = requireNumber(config, "amount");
+  const symbol = String(config.symbol ?? "").toLowerCase();
+  const to = parseFeeTarget(config.to);
+  if (!to) throw new Error("Unknown fee target");
+  const { rows } = await quoteNetworkFees(symbol, amount, { only: to, withFixed: false });
+  const row = rows[0];
+  if (!row) throw new Error(`${feeTargetLabel(to)} is not listed on SimpleSwap`);
+  // The no-API-key fallback reports a 0% fee, which would always fire.
+  if (row.error || row.impliedFeePct == null) throw new Error(row.error ?? "No fee quote");
+
+  return {
+    active: row.impliedFeePct < percent,
+    value: row.impliedFeePct,
+    title: `${tokenLabel(symbol)} → ${feeTargetLabel(to)} fee below ${percent}%`,
+    message: `Selling ${amount} ${tokenLabel(symbol)} to ${feeTargetLabel(to)} costs ${row.impliedFeePct.toFixed(2)}% right now.`,
+  };
+}
+
+async function checkMissedRewards(config: MissedRewardsRuleConfig): Promise<RuleCheck> {
+  const addresses = Array.isArray(config.addresses)
+    ? config.addresses.filter((a): a is string => typeof a === "string")
+    : [];
+  if (addresses.length === 0) throw new Error("No addresses");
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  const lines: string[] = [];
+  for (const address of addresses) {
+    const ledger = await syncRewardLedger(address);
+    if (!ledger.complete) continue;
+    const anomalies = detectRewardAnomalies(
+      ledger.rewards,
+      learnRewardCadence(ledger.rewards),
+      nowSec,
+    );
+    for (const a of anomalies) {
+      lines.push(
+        a.type === "gap"
+          ? `${address}: no reward for ${Math.round(a.elapsedSec / 60)} min (usually every ${Math.round(a.expectedIntervalSec / 60)} min).`
+          : `${address}: recent rewards ${a.recentAmount.toFixed(4)} TFUEL vs usual ${a.usualAmount.toFixed(4)}.`,
+      );
+    }
+  }
+
+  return {
+    active: lines.length > 0,
+    title: "Missed staking rewards",
+    message: lines.join("\n"),
+  };
+}
+
+function checkRule(kind: WebhookAlertKind, config: Record<string, unknown>) {
+  switch (kind) {
+    case "reward_value":
+      return checkRewardValue(config as RewardValueRuleConfig);
+    case "price_cross":
+      return checkPriceCross(config as PriceCrossRuleConfig);
+    case "price_move":
+      return checkPriceMove(config as PriceMoveRuleConfig);
+    case "price_ratio":
+      return checkPriceRatio(config as PriceRatioRuleConfig);
+    case "fee_below":
+      return checkFeeBelow(config as FeeBelowRuleConfig);
+    case "missed_rewards":
+      return checkMissedRewards(config as MissedRewardsRuleConfig);
+  }
+}
+
+export type RuleRunResult = {
+  alertId: string;
+  kind: string;
+  active: boolean | null;
+  fired: boolean;
+  error?: string;
+};
+
+type RuleRun = { results: RuleRunResult[]; attempted: number };
+
+async function checkAlertRules(): Promise<RuleRun> {
+  const rules = listAlerts().filter(
+    (a): a is AlertRecord & { kind: WebhookAlertKind } =>
+      a.enabled && isWebhookAlertKind(a.kind),
+  );
+  const webhookIds = listWebhooks()
+    .filter((w) => w.enabled)
+    .map((w) => w.id);
+
+  const results: RuleRunResult[] = [];
+  for (const rule of rules) {
+    try {
+      const check = await checkRule(rule.kind, rule.config);
+      const fired = check.active && rule.armed;
+      if (fired) {
+        const event: AlertEvent = {
+          alertId: rule.id,
+          kind: rule.kind,
+          title: check.title,
+          message: check.message,
+          firedAt: Date.now(),
+        };
+        enqueueDeliveries(event, webhookIds);
+      }
+      const armed = fired ? false : rule.armed || (check.rearm ?? !check.active);
+      recordAlertCheck(rule.id, { armed, value: check.value ?? null, fired });
+      results.push({ alertId: rule.id, kind: rule.kind, active: check.active, fired });
+    } catch (e) {
+      results.push({
+        alertId: rule.id,
+        kind: rule.kind,
+        active: null,
+        fired: false,
+        error: errorMessage(e),
+      });
+    }
+  }
+
+  const attempted = await processWebhookDeliveries();
+  return { results, attempted };
+}
+
+// The scheduler and "check now" share one run so a rule can't fire twice.
+let inFlight: Promise<RuleRun> | null = null;
+
+/**
+ * Checks every enabled webhook rule. A rule fires once when its condition
+ * starts holding (queuing a delivery per enabled webhook) and re-arms once
+ * it clears, past the hysteresis margin where the rule has one. Queued
+ * deliveries are then sent.
+ */
+export function runAlertRules(): Promise<RuleRun> {
+  inFlight ??= checkAlertRules().finally(() => {
+    inFlight = null;
+  });
+  return inFlight;
+}
@@ -0,0 +1,23 @@
+import { runAlertRules } from "@/lib/alertRules";
+
+const DEFAULT_INTERVAL_MS = 60_000;
+const MIN_INTERVAL_MS = 10_000;
+
+// Survives dev-server module reloads so only one timer ever runs.
+const globalForScheduler = globalThis as unknown as {
+  alertSchedulerTimer?: ReturnType<typeof setInterval>;
+};
+
+function intervalMs(): number {
+  const n = Number(process.env.ALERT_CHECK_INTERVAL_MS);
+  return Number.isFinite(n) && n > 0 ? Math.max(MIN_INTERVAL_MS, n) : DEFAULT_INTERVAL_MS;
+}
+
+/** Checks webhook alert rules and retries deliveries every `ALERT_CHECK_INTERVAL_MS`. */
+export function startAlertScheduler() {
+  if (globalForScheduler.alertSchedulerTimer) return;
+
+  globalForScheduler.alertSchedulerTimer = setInterval(() => {
+    runAlertRules().catch((e) => console.error("Alert check failed", e));
+  }, intervalMs());
+}
@@ -0,0 +1,283 @@
+import { isHexAddress, normalizeAddress } from "@/lib/address";
+import {
+  STAKE_LIQUID_ALERT,
+  STAKING_VALUE_ALERT,
+  type FeeBelowRuleConfig,
+  type MissedRewardsRuleConfig,
+  type PendingWithdrawal,
+  type PriceCrossRuleConfig,
+  type PriceMoveRuleConfig,
+  type PriceRatioRuleConfig,
+  type RewardValueRuleConfig,
+  type StakeLiquidAlertConfig,
+  type StakingValueAlertConfig,
+} from "@/lib/alerts";
+import { parseFiatCurrency } from "@/lib/currency";
+import { fromJson, getDb, toJson } from "@/lib/db";
+import { parseFeeTarget } from "@/lib/stableNetworks";
+import { STAKE_KINDS, type StakeKind } from "@/lib/stakes";
+import { getToken } from "@/lib/tokens";
+
+export type AlertRecord = {
+  id: string;
+  kind: string;
+  enabled: boolean;
+  /** False after firing until the condition clears again. */
+  armed: boolean;
+  config: Record<string, unknown>;
+  /** What the server-side check last measured (price, ratio, % move, …). */
+  lastValue: number | null;
+  lastCheckedAt: number | null;
+  lastFiredAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type AlertRow = {
+  id: string;
+  kind: string;
+  enabled: number;
+  armed: number;
+  config: string;
+  last_value: number | null;
+  last_checked_at: number | null;
+  last_fired_at: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+function toAlert(row: AlertRow): AlertRecord {
+  return {
+    id: row.id,
+    kind: row.kind,
+    enabled: row.enabled === 1,
+    armed: row.armed === 1,
+    config: fromJson(row.config, {}),
+    lastValue: row.last_value,
+    lastCheckedAt: row.last_checked_at,
+    lastFiredAt: row.last_fired_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listAlerts(kind?: string): AlertRecord[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM alerts WHERE (@kind IS NULL OR kind = @kind) ORDER BY created_at ASC`,
+    )
+    .all({ kind: kind ?? null }) as AlertRow[];
+  return rows.map(toAlert);
+}
+
+export function getAlert(id: string): AlertRecord | null {
+  const row = getDb().prepare(`SELECT * FROM alerts WHERE id = ?`).get(id) as
+    | AlertRow
+    | undefined;
+  return row ? toAlert(row) : null;
+}
+
+export type AlertInput = Pick<AlertRecord, "kind" | "enabled" | "armed" | "config">;
+
+type Config = Record<string, unknown>;
+
+function isRecord(v: unknown): v is Config {
+  return v != null && typeof v === "object" && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isPositive(v: unknown): v is number {
+  return isFiniteNumber(v) && v > 0;
+}
+
+function optionalHysteresis(c: Config): { hysteresisPct?: number } | null {
+  if (c.hysteresisPct == null) return {};
+  const h = c.hysteresisPct;
+  return isFiniteNumber(h) && h >= 0 ? { hysteresisPct: h } : null;
+}
+
+function parseSymbol(raw: unknown): string | null {
+  const symbol = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+  return getToken(symbol) ? symbol : null;
+}
+
+function parsePending(raw: unknown): PendingWithdrawal[] | null {
+  if (!Array.isArray(raw)) return null;
+  const pending = raw.flatMap((p: unknown) =>
+    isRecord(p) &&
+    typeof p.key === "string" &&
+    typeof p.address === "string" &&
+    typeof p.kind === "string" &&
+    Object.keys(STAKE_KINDS).includes(p.kind) &&
+    isFiniteNumber(p.amount) &&
+    isFiniteNumber(p.returnHeight)
+      ? [
+          {
+            key: p.key,
+            address: p.address,
+            kind: p.kind as StakeKind,
+            amount: p.amount,
+            returnHeight: p.returnHeight,
+          },
+        ]
+      : [],
+  );
+  return pending.length === raw.length ? pending : null;
+}
+
+/** The config a rule of `kind` runs on, with unknown fields dropped; null when invalid. */
+function parseAlertConfig(kind: string, c: Config): Config | null {
+  const currency = parseFiatCurrency(typeof c.currency === "string" ? c.currency : "USD");
+  const hysteresis = optionalHysteresis(c);
+  const crossing = c.direction === "above" || c.direction === "below";
+
+  switch (kind) {
+    case STAKING_VALUE_ALERT.kind: {
+      // The staking card saves while the threshold is being typed, so any number goes.
+      const threshold = c.threshold ?? null;
+      if (!currency || (threshold !== null && !isFiniteNumber(threshold))) return null;
+      return {
+        threshold,
+        currency,
+        useBrowserNotifications: c.useBrowserNotifications === true,
+      } satisfies StakingValueAlertConfig;
+    }
+    case STAKE_LIQUID_ALERT.kind: {
+      const pending = parsePending(c.pending ?? []);
+      if (!pending) return null;
+      return {
+        useBrowserNotifications: c.useBrowserNotifications === true,
+        pending,
+      } satisfies StakeLiquidAlertConfig;
+    }
+    case "reward_value":
+      if (!currency || !isPositive(c.threshold)) return null;
+      return { threshold: c.threshold, currency } satisfies RewardValueRuleConfig;
+    case "price_cross": {
+      const symbol = parseSymbol(c.symbol);
+      if (!symbol || !currency || !crossing || !isPositive(c.price) || !hysteresis) return null;
+      return {
+        symbol,
+        currency,
+        direction: c.direction as PriceCrossRuleConfig["direction"],
+        price: c.price,
+        ...hysteresis,
+      } satisfies PriceCrossRuleConfig;
+    }
+    case "price_move": {
+      const symbol = parseSymbol(c.symbol);
+      const direction = c.direction;
+      if (
+        !symbol ||
+        !currency ||
+        (direction !== "up" && direction !== "down" && direction !== "any") ||
+        !isPositive(c.windowHours) ||
+        !isPositive(c.percent) ||
+        !hysteresis
+      ) {
+        return null;
+      }
+      return {
+        symbol,
+        currency,
+        windowHours: c.windowHours,
+        direction,
+        percent: c.percent,
+        ...hysteresis,
+      } satisfies PriceMoveRuleConfig;
+    }
+    case "price_ratio":
+      if (!currency || !crossing || !isPositive(c.ratio) || !hysteresis) return null;
+      return {
+        currency,
+        direction: c.direction as PriceRatioRuleConfig["direction"],
+        ratio: c.ratio,
+        ...hysteresis,
+      } satisfies PriceRatioRuleConfig;
+    case "fee_below": {
+      const symbol = parseSymbol(c.symbol);
+      const to = parseFeeTarget(c.to);
+      if (!symbol || !to || !isPositive(c.amount) || !isPositive(c.percent)) return null;
+      return { symbol, amount: c.amount, to, percent: c.percent } satisfies FeeBelowRuleConfig;
+    }
+    case "missed_rewards": {
+      const addresses = Array.isArray(c.addresses)
+        ? c.addresses.map((a) => (typeof a === "string" ? normalizeAddress(a) : ""))
+        : [];
+      if (addresses.length === 0 || !addresses.every(isHexAddress)) return null;
+      return { addresses } satisfies MissedRewardsRuleConfig;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Validates a create/update request body against the rule kinds the app knows. */
+export function parseAlertInput(body: Record<string, unknown> | null): AlertInput | null {
+  if (!body || typeof body.kind !== "string" || typeof body.enabled !== "boolean") return null;
+  if (!isRecord(body.config)) return null;
+
+  const config = parseAlertConfig(body.kind, body.config);
+  if (!config) return null;
+  return {
+    kind: body.kind,
+    enabled: body.enabled,
+    armed: typeof body.armed === "boolean" ? body.armed : true,
+    config,
+  };
+}
+
+export function upsertAlert(
+  input: Pick<AlertRecord, "id" | "kind" | "enabled" | "armed" | "config">,
+): AlertRecord {
+  const now = Date.now();
+  const row = getDb()
+    .prepare(
+      `INSERT INTO alerts (id, kind, enabled, armed, config, created_at, updated_at)
+       VALUES (@id, @kind, @enabled, @armed, @config, @now, @now)
+       ON CONFLICT (id) DO UPDATE SET
+         kind = excluded.kind,
+         enabled = excluded.enabled,
+         armed = excluded.armed,
+         config = excluded.config,
+         updated_at = excluded.updated_at
+       RETURNING *`,
+    )
+    .get({
+      id: input.id,
+      kind: input.kind,
+      enabled: input.enabled ? 1 : 0,
+      armed: input.armed ? 1 : 0,
+      config: toJson(input.config),
+      now,
+    }) as AlertRow;
+  return toAlert(row);
+}
+
+/**
+ * Stores the outcome of a server-side check. Only touches check state, so
+ * config edits made meanwhile are kept.
+ */
+export function recordAlertCheck(
+  id: string,
+  result: { armed: boolean; value: number | null; fired: boolean },
+) {
+  const now = Date.now();
+  getDb()
+    .prepare(
+      `UPDATE alerts SET
+         armed = @armed,
+         last_value = @value,
+         last_checked_at = @now,
+         last_fired_at = CASE WHEN @fired THEN @now ELSE last_fired_at END
+       WHERE id = @id`,
+    )
+    .run({ id, armed: result.armed ? 1 : 0, value: result.value, fired: result.fired ? 1 : 0, now });
+}
+
+export function deleteAlert(id: string): boolean {
+  return getDb().prepare(`DELETE FROM alerts WHERE id = ?`).run(id).changes > 0;
+}
@@ -0,0 +1,152 @@
+import type { FiatCurrency } from "@/lib/currency";
+import type { FeeTarget } from "@/lib/stableNetworks";
+import type { StakeKind } from "@/lib/stakes";
+
+/** The single "staking value crossed a threshold" alert shown in the Staking tab. */
+export const STAKING_VALUE_ALERT = {
+  id: "staking-value",
+  kind: "staking_value",
+} as const;
+
+export type StakingValueAlertConfig = {
+  threshold: number | null;
+  currency: string;
+  useBrowserNotifications: boolean;
+};
+
+/**
+ * Fires once per withdrawn stake when it reaches its return height or drops
+ * out of the explorer's stake list, which is what happens once it's paid back.
+ */
+export const STAKE_LIQUID_ALERT = {
+  id: "stake-liquid",
+  kind: "stake_liquid",
+} as const;
+
+/** A withdrawal seen unstaking, remembered until it's announced. */
+export type PendingWithdrawal = {
+  /** `stakePositionKey` of the position. */
+  key: string;
+  address: string;
+  kind: StakeKind;
+  amount: number;
+  returnHeight: number;
+};
+
+export type StakeLiquidAlertConfig = {
+  useBrowserNotifications: boolean;
+  pending: PendingWithdrawal[];
+};
+
+/** Rules evaluated on the server and delivered through webhooks. */
+export const WEBHOOK_ALERT_KINDS = [
+  "reward_value",
+  "price_cross",
+  "price_move",
+  "price_ratio",
+  "fee_below",
+  "missed_rewards",
+] as const;
+
+export type WebhookAlertKind = (typeof WEBHOOK_ALERT_KINDS)[number];
+
+export function isWebhookAlertKind(kind: string): kind is WebhookAlertKind {
+  return (WEBHOOK_ALERT_KINDS as readonly string[]).includes(kind);
+}
+
+/** The rules managed from the price alert list rather than the webhook card. */
+export const PRICE_ALERT_KINDS = ["price_cross", "price_move", "price_ratio"] as const;
+
+export type PriceAlertKind = (typeof PRICE_ALERT_KINDS)[number];
+
+export function isPriceAlertKind(kind: string): kind is PriceAlertKind {
+  return (PRICE_ALERT_KINDS as readonly string[]).includes(kind);
+}
+
+/** How far (relative %) a value must fall back past its threshold before a rule re-arms. */
+export const DEFAULT_HYSTERESIS_PCT = 1;
+
+/**
+ * `active` while the value is past the threshold in `direction`; `rearm`
+ * only once it has retreated by the hysteresis margin, so a price hovering
+ * at the threshold doesn't fire on every check.
+ */
+export function thresholdState(
+  value: number,
+  threshold: number,
+  direction: "above" | "below",
+  hysteresisPct = DEFAULT_HYSTERESIS_PCT,
+): { active: boolean; rearm: boolean } {
+  const margin = Math.abs(threshold) * (hysteresisPct / 100);
+  return direction === "above"
+    ? { active: value >= threshold, rearm: value < threshold - margin }
+    : { active: value <= threshold, rearm: value > threshold + margin };
+}
+
+/** Rewards in the active tracking session, valued now, reach `threshold`. */
+export type RewardValueRuleConfig = {
+  threshold: number;
+  currency: FiatCurrency;
+};
+
+export type PriceCrossRuleConfig = {
+  symbol: string;
+  currency: FiatCurrency;
+  direction: "above" | "below";
+  price: number;
+  hysteresisPct?: number;
+};
+
+/** The price moved at least `percent` over the last `windowHours`. */
+export type PriceMoveRuleConfig = {
+  symbol: string;
+  /** Measured in this currency; USD for rules saved without one. */
+  currency?: FiatCurrency;
+  windowHours: number;
+  direction: "up" | "down" | "any";
+  percent: number;
+  hysteresisPct?: number;
+};
+
+/** TFUEL price divided by THETA price crosses `ratio`. */
+export type PriceRatioRuleConfig = {
+  /** Only for the prices quoted in the message; the ratio is the same in any currency. */
+  currency?: FiatCurrency;
+  direction: "above" | "below";
+  ratio: number;
+  hysteresisPct?: number;
+};
+
+/** The implied fee for selling `amount` of `symbol` to `to` drops below `percent`. */
+export type FeeBelowRuleConfig = {
+  symbol: string;
+  amount: number;
+  to: FeeTarget;
+  percent: number;
+};
+
+export type MissedRewardsRuleConfig = {
+  addresses: string[];
+};
+
+/** What a fired rule sends to each webhook. */
+export type AlertEvent = {
+  alertId: string | null;
+  kind: WebhookAlertKind | "test";
+  title: string;
+  message: string;
+  /** Unix ms. */
+  firedAt: number;
+};
+
+export type WebhookFormat = "discord" | "slack" | "json";
+
+export const WEBHOOK_FORMATS: Array<{ id: WebhookFormat; label: string }> = [
+  { id: "discord", label: "Discord" },
+  { id: "slack", label: "Slack" },
+  { id: "json", label: "Generic JSON" },
+];
+
+export function parseWebhookFormat(raw: unknown): WebhookFormat | null {
+  return WEBHOOK_FORMATS.find((f) => f.id === raw)?.id ?? null;
+}
@@ -0,0 +1,112 @@
+import { fetchJson, UpstreamError } from "@/lib/http";
+import { getPricingToken } from "@/lib/tokens";
+
+const COINGECKO_API = "https://api.coingecko.com/api/v3";
+
+export function toCoinGeckoId(symbol: string): string | null {
+  return getPricingToken(symbol)?.coingeckoId ?? null;
+}
+
+export type CoinGeckoSpot = {
+  usd: number | null;
+  usdc: number | null;
+};
+
+export async function fetchSpot(
+  symbol: string,
+  signal?: AbortSignal,
+): Promise<CoinGeckoSpot> {
+  const id = toCoinGeckoId(symbol);
+  if (!id) throw new UpstreamError("CoinGecko", "Unsupported token");
+
+  const url = new URL(`${COINGECKO_API}/simple/price`);
+  url.searchParams.set("ids", id);
+  url.searchParams.set("vs_currencies", "usd,usdc");
+
+  const data = await fetchJson<unknown>("CoinGecko", url, {
+    next: { revalidate: 30 },
+    signal,
+  });
+
+  const row =
+    data && typeof data === "object"
+      ? (data as Record<string, unknown>)[id]
+      : undefined;
+  if (!row || typeof row !== "object") {
+    throw new UpstreamError("CoinGecko", "Unexpected CoinGecko response");
+  }
+
+  const obj = row as Record<string, unknown>;
+  const usd = typeof obj.usd === "number" ? obj.usd : null;
+  const usdc = typeof obj.usdc === "number" ? obj.usdc : null;
+
+  // CoinGecko does not always list a USDC quote; USD is a close proxy.
+  return { usd, usdc: usdc ?? usd };
+}
+
+/** Best-effort USDC spot for fee comparisons; null when CoinGecko is unavailable. */
+export async function fetchSpotUsdc(symbol: string): Promise<number | null> {
+  try {
+    return (await fetchSpot(symbol)).usdc;
+  } catch {
+    return null;
+  }
+}
+
+type ExchangeRatesResponse = {
+  rates?: Record<string, { value?: number }>;
+};
+
+/** Units of `currency` per 1 USD, from CoinGecko's BTC-denominated rate table. */
+export async function fetchUsdRate(currency: string): Promise<number> {
+  const code = currency.trim().toLowerCase();
+  if (code === "usd") return 1;
+
+  const json = await fetchJson<ExchangeRatesResponse>(
+    "CoinGecko",
+    `${COINGECKO_API}/exchange_rates`,
+    { next: { revalidate: 300 } },
+  );
+  const usd = json.rates?.usd?.value;
+  const target = json.rates?.[code]?.value;
+  if (
+    typeof usd !== "number" ||
+    typeof target !== "number" ||
+    !Number.isFinite(usd) ||
+    !Number.isFinite(target) ||
+    usd <= 0
+  ) {
+    throw new UpstreamError("CoinGecko", `No CoinGecko exchange rate for ${code}`);
+  }
+  return target / usd;
+}
+
+export type PricePoint = { t: number; price: number };
+
+type MarketChartResponse = {
+  prices?: Array<[number, number]>;
+};
+
+export async function fetchMarketChart(
+  symbol: string,
+  days: number,
+  vsCurrency = "usd",
+): Promise<PricePoint[]> {
+  const id = toCoinGeckoId(symbol);
+  if (!id) throw new UpstreamError("CoinGecko", "Unsupported token");
+
+  // Note: do NOT pass interval=hourly; CoinGecko restricts that to enterprise.
+  // For days in [2, 90], CoinGecko returns hourly-ish data automatically.
+  const url = new URL(`${COINGECKO_API}/coins/${encodeURIComponent(id)}/market_chart`);
+  url.searchParams.set("vs_currency", vsCurrency.toLowerCase());
+  url.searchParams.set("days", String(days));
+
+  const json = await fetchJson<MarketChartResponse>("CoinGecko", url, {
+    headers: { "user-agent": "tfuel-staking-rewards/1.0" },
+    next: { revalidate: 300 },
+  });
+
+  return (json.prices ?? [])
+    .map((p) => ({ t: p[0], price: p[1] }))
+    .filter((p) => Number.isFinite(p.t) && Number.isFinite(p.price));
+}
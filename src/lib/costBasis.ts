@@ -0,0 +1,113 @@
+export type CostBasisMethod = "fifo" | "lifo" | "hifo";
+
+export const COST_BASIS_METHODS: Array<{ id: CostBasisMethod; label: string }> = [
+  { id: "fifo", label: "FIFO" },
+  { id: "lifo", label: "LIFO" },
+  { id: "hifo", label: "HIFO" },
+];
+
+export function parseCostBasisMethod(raw: unknown): CostBasisMethod | null {
+  const id = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+  return COST_BASIS_METHODS.some((m) => m.id === id) ? (id as CostBasisMethod) : null;
+}
+
+/** A reward receipt; its basis is the fair value when it was received. */
+export type Lot = {
+  address: string;
+  hash: string;
+  /** Unix seconds. */
+  acquiredAt: number;
+  amount: number;
+  /** Total fiat basis, or null when no price was available at receipt. */
+  basis: number | null;
+};
+
+export type DisposalInput = {
+  id: number;
+  address: string;
+  /** Unix seconds. */
+  timestamp: number;
+  amount: number;
+  /** Null when no price was available at the time; the amount still uses up lots. */
+  proceeds: number | null;
+};
+
+export type RealizedGain = DisposalInput & {
+  method: CostBasisMethod;
+  basis: number;
+  gain: number | null;
+  /** Amount sold beyond the lots available at the time; treated as zero basis. */
+  unmatchedAmount: number;
+  lots: Array<{ hash: string; amount: number; basis: number }>;
+};
+
+export type OpenLot = Lot & { remaining: number; remainingBasis: number };
+
+const EPSILON = 1e-12;
+
+function unitBasis(lot: Lot): number {
+  return lot.basis == null || lot.amount <= 0 ? 0 : lot.basis / lot.amount;
+}
+
+function orderLots(lots: OpenLot[], method: CostBasisMethod): OpenLot[] {
+  const sorted = [...lots];
+  if (method === "fifo") sorted.sort((a, b) => a.acquiredAt - b.acquiredAt);
+  if (method === "lifo") sorted.sort((a, b) => b.acquiredAt - a.acquiredAt);
+  if (method === "hifo") sorted.sort((a, b) => unitBasis(b) - unitBasis(a));
+  return sorted;
+}
+
+/**
+ * Matches disposals against lots from the same wallet, in time order, using
+ * the method configured for each disposal's calendar year (UTC).
+ */
+export function computeGains(
+  lots: Lot[],
+  disposals: DisposalInput[],
+  methodForYear: (year: number) => CostBasisMethod,
+): { realized: RealizedGain[]; open: OpenLot[] } {
+  const open: OpenLot[] = lots.map((l) => ({
+    ...l,
+    remaining: l.amount,
+    remainingBasis: l.basis ?? 0,
+  }));
+
+  const realized = [...disposals]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((d): RealizedGain => {
+      const method = methodForYear(new Date(d.timestamp * 1000).getUTCFullYear());
+      const candidates = orderLots(
+        open.filter(
+          (l) =>
+            l.address === d.address && l.acquiredAt <= d.timestamp && l.remaining > EPSILON,
+        ),
+        method,
+      );
+
+      let left = d.amount;
+      let basis = 0;
+      const used: RealizedGain["lots"] = [];
+      for (const lot of candidates) {
+        if (left <= EPSILON) break;
+        const take = Math.min(left, lot.remaining);
+        const takeBasis = take * unitBasis(lot);
+        lot.remaining -= take;
+        lot.remainingBasis = Math.max(0, lot.remainingBasis - takeBasis);
+        left -= take;
+        basis += takeBasis;
+        used.push({ hash: lot.hash, amount: take, basis: takeBasis });
+      }
+
+      const unmatchedAmount = left > EPSILON ? left : 0;
+      return {
+        ...d,
+        method,
+        basis,
+        gain: d.proceeds == null ? null : d.proceeds - basis,
+        unmatchedAmount,
+        lots: used,
+      };
+    });
+
+  return { realized, open: open.filter((l) => l.remaining > EPSILON) };
+}
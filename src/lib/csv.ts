@@ -0,0 +1,13 @@
+function escapeCell(value: string | number | null | undefined): string {
+  if (value == null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with CRLF line endings, which spreadsheet importers expect. */
+export function toCsv(
+  headers: string[],
+  rows: Array<Array<string | number | null | undefined>>,
+): string {
+  return [headers, ...rows].map((r) => r.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
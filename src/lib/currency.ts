@@ -0,0 +1,28 @@
+export type FiatCurrency = "USD" | "EUR" | "GBP" | "KRW";
+
+export const FIAT_CURRENCIES: Array<{
+  code: FiatCurrency;
+  label: string;
+  locale: string;
+  fractionDigits: number;
+}> = [
+  { code: "USD", label: "US Dollar", locale: "en-US", fractionDigits: 2 },
+  { code: "EUR", label: "Euro", locale: "de-DE", fractionDigits: 2 },
+  { code: "GBP", label: "British Pound", locale: "en-GB", fractionDigits: 2 },
+  { code: "KRW", label: "South Korean Won", locale: "ko-KR", fractionDigits: 0 },
+];
+
+export function parseFiatCurrency(raw: string | null | undefined): FiatCurrency | null {
+  const code = (raw ?? "").trim().toUpperCase();
+  return FIAT_CURRENCIES.some((c) => c.code === code) ? (code as FiatCurrency) : null;
+}
+
+export function formatFiat(v: number, currency: FiatCurrency): string {
+  const meta = FIAT_CURRENCIES.find((c) => c.code === currency) ?? FIAT_CURRENCIES[0];
+  // Sub-unit token prices need more precision than the currency's minor unit.
+  return new Intl.NumberFormat(meta.locale, {
+    style: "currency",
+    currency: meta.code,
+    maximumFractionDigits: Math.abs(v) < 1 ? 6 : meta.fractionDigits,
+  }).format(v);
+}
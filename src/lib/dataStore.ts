@@ -0,0 +1,10 @@
+import path from "node:path";
+
+/** Root for server-side state; override with DATA_DIR in deployments. */
+export function dataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+export function dataPath(...segments: string[]): string {
+  return path.join(dataDir(), ...segments);
+}
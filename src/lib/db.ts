@@ -0,0 +1,186 @@
+import { mkdirSync } from "node:fs";
+
+import Database from "better-sqlite3";
+
+import { dataDir, dataPath } from "@/lib/dataStore";
+
+/**
+ * Schema migrations, applied in order and tracked with `PRAGMA user_version`.
+ * Append only — never edit an entry that has shipped.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE tracking_sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER,
+    baselines TEXT NOT NULL,
+    series TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE price_samples (
+    symbol TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    t INTEGER NOT NULL,
+    price REAL NOT NULL,
+    PRIMARY KEY (symbol, currency, t)
+  );
+
+  CREATE TABLE alerts (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    enabled INTEGER NOT NULL,
+    armed INTEGER NOT NULL,
+    config TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE reward_ledger (
+    address TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    height INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    amount REAL NOT NULL,
+    PRIMARY KEY (address, hash)
+  );
+  CREATE INDEX reward_ledger_by_height ON reward_ledger (address, height DESC);
+
+  CREATE TABLE reward_ledger_sync (
+    address TEXT PRIMARY KEY,
+    walk TEXT,
+    synced_at INTEGER
+  );
+  `,
+  `
+  CREATE TABLE disposals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    address TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    amount REAL NOT NULL,
+    proceeds REAL,
+    currency TEXT,
+    source TEXT NOT NULL,
+    tx_hash TEXT,
+    note TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX disposals_by_tx ON disposals (address, tx_hash)
+    WHERE tx_hash IS NOT NULL;
+  `,
+  `
+  CREATE TABLE webhooks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    format TEXT NOT NULL,
+    enabled INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id INTEGER NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+    alert_id TEXT,
+    event TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    next_attempt_at INTEGER,
+    last_status INTEGER,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    delivered_at INTEGER
+  );
+  CREATE INDEX webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+  `,
+  `
+  ALTER TABLE alerts ADD COLUMN last_value REAL;
+  ALTER TABLE alerts ADD COLUMN last_checked_at INTEGER;
+  ALTER TABLE alerts ADD COLUMN last_fired_at INTEGER;
+  `,
+  `
+  CREATE TABLE swap_orders (
+    id TEXT PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    fee_target TEXT NOT NULL,
+    fixed INTEGER NOT NULL,
+    amount_from REAL NOT NULL,
+    expected_amount REAL,
+    amount_to REAL,
+    deposit_address TEXT NOT NULL,
+    deposit_extra_id TEXT,
+    address_to TEXT NOT NULL,
+    refund_address TEXT,
+    status TEXT NOT NULL,
+    tx_from TEXT,
+    tx_to TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    checked_at INTEGER
+  );
+  CREATE INDEX swap_orders_by_created ON swap_orders (created_at DESC);
+  `,
+  `
+  CREATE TABLE fee_samples (
+    symbol TEXT NOT NULL,
+    fee_target TEXT NOT NULL,
+    source TEXT NOT NULL,
+    t INTEGER NOT NULL,
+    amount REAL NOT NULL,
+    estimated_usdc REAL NOT NULL,
+    spot_usdc REAL,
+    implied_fee_pct REAL,
+    PRIMARY KEY (symbol, fee_target, source, t)
+  );
+  CREATE INDEX fee_samples_by_time ON fee_samples (t);
+  `,
+];
+
+function migrate(db: Database.Database) {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (let v = current; v < MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+  }
+}
+
+// Survives dev-server module reloads so we don't leak file handles.
+const globalForDb = globalThis as unknown as { appDb?: Database.Database };
+
+/** Shared connection to the app database (`$DATA_DIR/app.db`). */
+export function getDb(): Database.Database {
+  if (globalForDb.appDb) return globalForDb.appDb;
+
+  mkdirSync(dataDir(), { recursive: true });
+  const db = new Database(dataPath("app.db"));
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+
+  globalForDb.appDb = db;
+  return db;
+}
+
+export function toJson(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+/** Parses a JSON column, falling back when the stored text is unreadable. */
+export function fromJson<T>(raw: string | null | undefined, fallback: T): T {
+  if (raw == null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,84 @@
+import { getDb } from "@/lib/db";
+
+import type { FiatCurrency } from "@/lib/currency";
+
+export type DisposalSource = "manual" | "detected";
+
+export type Disposal = {
+  id: number;
+  address: string;
+  /** Unix seconds. */
+  timestamp: number;
+  /** TFUEL. */
+  amount: number;
+  /** Recorded sale proceeds; null means "value at market price". */
+  proceeds: number | null;
+  currency: FiatCurrency | null;
+  source: DisposalSource;
+  txHash: string | null;
+  note: string | null;
+  createdAt: number;
+};
+
+type DisposalRow = {
+  id: number;
+  address: string;
+  timestamp: number;
+  amount: number;
+  proceeds: number | null;
+  currency: string | null;
+  source: string;
+  tx_hash: string | null;
+  note: string | null;
+  created_at: number;
+};
+
+function toDisposal(row: DisposalRow): Disposal {
+  return {
+    id: row.id,
+    address: row.address,
+    timestamp: row.timestamp,
+    amount: row.amount,
+    proceeds: row.proceeds,
+    currency: row.currency as FiatCurrency | null,
+    source: row.source === "detected" ? "detected" : "manual",
+    txHash: row.tx_hash,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+export function listDisposals(addresses: string[]): Disposal[] {
+  if (addresses.length === 0) return [];
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM disposals
+       WHERE address IN (${addresses.map(() => "?").join(",")})
+       ORDER BY timestamp ASC`,
+    )
+    .all(...addresses) as DisposalRow[];
+  return rows.map(toDisposal);
+}
+
+export type NewDisposal = Omit<Disposal, "id" | "createdAt">;
+
+/** Adds disposals; detected ones already recorded for the same tx are skipped. */
+export function addDisposals(disposals: NewDisposal[]): number {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO disposals
+       (address, timestamp, amount, proceeds, currency, source, tx_hash, note, created_at)
+     VALUES
+       (@address, @timestamp, @amount, @proceeds, @currency, @source, @txHash, @note, @createdAt)`,
+  );
+  const createdAt = Date.now();
+  return db.transaction(() => {
+    let inserted = 0;
+    for (const d of disposals) inserted += insert.run({ ...d, createdAt }).changes;
+    return inserted;
+  })();
+}
+
+export function deleteDisposal(id: number): boolean {
+  return getDb().prepare(`DELETE FROM disposals WHERE id = ?`).run(id).changes > 0;
+}
@@ -0,0 +1,63 @@
+import { fetchJson, UpstreamError } from "@/lib/http";
+import { getPricingToken, type ExchangeId } from "@/lib/tokens";
+
+// Exchange tickers quote against USDT, which we treat as USD.
+const EXCHANGE_IDS = {
+  Binance: "binance",
+  KuCoin: "kucoin",
+  Gate: "gate",
+} as const satisfies Record<string, ExchangeId>;
+
+function toBase(provider: "Binance" | "KuCoin" | "Gate", symbol: string) {
+  const base = getPricingToken(symbol)?.tickers[EXCHANGE_IDS[provider]];
+  if (!base) throw new UpstreamError(provider, `Not listed on ${provider}`);
+  return base;
+}
+
+function toPrice(provider: "Binance" | "KuCoin" | "Gate", raw: unknown): number {
+  const n = typeof raw === "string" || typeof raw === "number" ? Number(raw) : NaN;
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new UpstreamError(provider, `Unexpected ${provider} response`);
+  }
+  return n;
+}
+
+export async function fetchBinanceTicker(
+  symbol: string,
+  signal?: AbortSignal,
+): Promise<number> {
+  const url = new URL("https://api.binance.com/api/v3/ticker/price");
+  url.searchParams.set("symbol", `${toBase("Binance", symbol)}USDT`);
+  const data = await fetchJson<{ price?: unknown }>("Binance", url, {
+    cache: "no-store",
+    signal,
+  });
+  return toPrice("Binance", data?.price);
+}
+
+export async function fetchKuCoinTicker(
+  symbol: string,
+  signal?: AbortSignal,
+): Promise<number> {
+  const url = new URL("https://api.kucoin.com/api/v1/market/orderbook/level1");
+  url.searchParams.set("symbol", `${toBase("KuCoin", symbol)}-USDT`);
+  const data = await fetchJson<{ data?: { price?: unknown } | null }>(
+    "KuCoin",
+    url,
+    { cache: "no-store", signal },
+  );
+  return toPrice("KuCoin", data?.data?.price);
+}
+
+export async function fetchGateTicker(
+  symbol: string,
+  signal?: AbortSignal,
+): Promise<number> {
+  const url = new URL("https://api.gateio.ws/api/v4/spot/tickers");
+  url.searchParams.set("currency_pair", `${toBase("Gate", symbol)}_USDT`);
+  const data = await fetchJson<Array<{ last?: unknown }>>("Gate", url, {
+    cache: "no-store",
+    signal,
+  });
+  return toPrice("Gate", Array.isArray(data) ? data[0]?.last : undefined);
+}
@@ -0,0 +1,76 @@
+import { deleteFeeSamplesBefore, insertFeeSamples } from "@/lib/feeSampleStore";
+import { quoteNetworkFees } from "@/lib/networkFees";
+import { hasApiKey } from "@/lib/simpleswap";
+import { getToken } from "@/lib/tokens";
+
+const DEFAULT_INTERVAL_MS = 15 * 60_000;
+const MIN_INTERVAL_MS = 60_000;
+const DEFAULT_SYMBOLS = ["tfuel", "theta"];
+/** Same default sale as the fee comparison, so history lines up with what's shown. */
+const DEFAULT_AMOUNT = 100;
+const RETENTION_MS = 90 * 24 * 60 * 60_000;
+
+// Survives dev-server module reloads so only one timer ever runs.
+const globalForRecorder = globalThis as unknown as {
+  feeRecorderTimer?: ReturnType<typeof setInterval>;
+};
+
+function intervalMs(): number {
+  const n = Number(process.env.FEE_RECORD_INTERVAL_MS);
+  return Number.isFinite(n) && n > 0 ? Math.max(MIN_INTERVAL_MS, n) : DEFAULT_INTERVAL_MS;
+}
+
+function recordedSymbols(): string[] {
+  const raw = process.env.FEE_RECORD_SYMBOLS?.trim();
+  if (!raw) return DEFAULT_SYMBOLS;
+  return raw
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => getToken(s) != null);
+}
+
+function recordedAmount(): number {
+  const n = Number(process.env.FEE_RECORD_AMOUNT);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_AMOUNT;
+}
+
+/**
+ * Quotes every fee comparison destination for each recorded symbol at the
+ * floating rate and stores the results. Without a SimpleSwap key the rows
+ * are only spot, so nothing is recorded.
+ */
+export async function recordFeeSamples(): Promise<number> {
+  if (!hasApiKey()) return 0;
+
+  const amount = recordedAmount();
+  let inserted = 0;
+  for (const symbol of recordedSymbols()) {
+    const t = Date.now();
+    const { spotUsdc, rows } = await quoteNetworkFees(symbol, amount, { withFixed: false });
+    inserted += insertFeeSamples(symbol, t, amount, spotUsdc, rows);
+  }
+  deleteFeeSamplesBefore(Date.now() - RETENTION_MS);
+  return inserted;
+}
+
+/**
+ * Samples the fee comparison every `FEE_RECORD_INTERVAL_MS` for the tokens
+ * in `FEE_RECORD_SYMBOLS`, selling `FEE_RECORD_AMOUNT` of each.
+ */
+export function startFeeRecorder() {
+  if (globalForRecorder.feeRecorderTimer) return;
+
+  // A run slower than the interval skips the next tick rather than sampling twice.
+  let running = false;
+  const record = () => {
+    if (running) return;
+    running = true;
+    recordFeeSamples()
+      .catch((e) => console.error("Fee sampling failed", e))
+      .finally(() => {
+        running = false;
+      });
+  };
+  globalForRecorder.feeRecorderTimer = setInterval(record, intervalMs());
+  record();
+}
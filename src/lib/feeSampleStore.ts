@@ -0,0 +1,104 @@
+import { getDb } from "@/lib/db";
+import type { NetworkFeeRow } from "@/lib/networkFees";
+import { parseFeeTarget, type FeeTarget } from "@/lib/stableNetworks";
+
+/** One recorded quote for selling `amount` into a destination. */
+export type FeeSample = {
+  /** ms since epoch. */
+  t: number;
+  amount: number;
+  estimatedUsdc: number;
+  spotUsdc: number | null;
+  impliedFeePct: number | null;
+};
+
+export type FeeSeries = {
+  to: FeeTarget;
+  source: NetworkFeeRow["source"];
+  /** Oldest first. */
+  samples: FeeSample[];
+};
+
+type FeeSampleRow = {
+  fee_target: string;
+  source: string;
+  t: number;
+  amount: number;
+  estimated_usdc: number;
+  spot_usdc: number | null;
+  implied_fee_pct: number | null;
+};
+
+/** Stored samples for `symbol`, one series per destination and source. */
+export function getFeeSamples(
+  symbol: string,
+  options: { sinceMs?: number; to?: FeeTarget } = {},
+): FeeSeries[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT fee_target, source, t, amount, estimated_usdc, spot_usdc, implied_fee_pct
+       FROM fee_samples
+       WHERE symbol = @symbol AND t >= @since
+         AND (@to IS NULL OR fee_target = @to)
+       ORDER BY t ASC`,
+    )
+    .all({ symbol, since: options.sinceMs ?? 0, to: options.to ?? null }) as FeeSampleRow[];
+
+  const series = new Map<string, FeeSeries>();
+  for (const r of rows) {
+    const to = parseFeeTarget(r.fee_target);
+    if (!to) continue;
+    const source = r.source === "thetaswap" ? "thetaswap" : "simpleswap";
+    const key = `${to}:${source}`;
+    let s = series.get(key);
+    if (!s) {
+      s = { to, source, samples: [] };
+      series.set(key, s);
+    }
+    s.samples.push({
+      t: r.t,
+      amount: r.amount,
+      estimatedUsdc: r.estimated_usdc,
+      spotUsdc: r.spot_usdc,
+      impliedFeePct: r.implied_fee_pct,
+    });
+  }
+  return [...series.values()];
+}
+
+/** Stores the quoted rows of one fee comparison. Returns how many were new. */
+export function insertFeeSamples(
+  symbol: string,
+  t: number,
+  amount: number,
+  spotUsdc: number | null,
+  rows: NetworkFeeRow[],
+): number {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO fee_samples
+       (symbol, fee_target, source, t, amount, estimated_usdc, spot_usdc, implied_fee_pct)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  return db.transaction(() => {
+    let inserted = 0;
+    for (const r of rows) {
+      if (r.estimatedUsdc == null) continue;
+      inserted += insert.run(
+        symbol,
+        r.to,
+        r.source,
+        Math.round(t),
+        amount,
+        r.estimatedUsdc,
+        spotUsdc,
+        r.impliedFeePct,
+      ).changes;
+    }
+    return inserted;
+  })();
+}
+
+export function deleteFeeSamplesBefore(t: number): number {
+  return getDb().prepare(`DELETE FROM fee_samples WHERE t < ?`).run(t).changes;
+}
@@ -0,0 +1,59 @@
+export type UpstreamProvider =
+  | "CoinGecko"
+  | "SimpleSwap"
+  | "Theta Explorer"
+  | "Theta RPC"
+  | "Binance"
+  | "KuCoin"
+  | "Gate";
+
+/**
+ * Error raised by every upstream client. `details` holds the (truncated)
+ * response body when the upstream answered with a non-2xx status.
+ */
+export class UpstreamError extends Error {
+  readonly provider: UpstreamProvider;
+  readonly status: number | null;
+  readonly details?: string;
+
+  constructor(
+    provider: UpstreamProvider,
+    message: string,
+    opts: { status?: number | null; details?: string } = {},
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+    this.provider = provider;
+    this.status = opts.status ?? null;
+    this.details = opts.details;
+  }
+}
+
+export function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : "Unknown error";
+}
+
+export async function fetchJson<T>(
+  provider: UpstreamProvider,
+  url: string | URL,
+  init: RequestInit & { next?: { revalidate?: number } } = {},
+): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { accept: "application/json", ...init.headers },
+  });
+
+  if (!res.ok) {
+    const txt = await res.text().catch(() => "");
+    const details = txt ? txt.slice(0, 300) : undefined;
+    throw new UpstreamError(
+      provider,
+      details
+        ? `${provider} HTTP ${res.status}: ${details}`
+        : `${provider} HTTP ${res.status}`,
+      { status: res.status, details },
+    );
+  }
+
+  return (await res.json()) as T;
+}
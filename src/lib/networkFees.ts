@@ -0,0 +1,306 @@
+import { fetchSpotUsdc } from "@/lib/coingecko";
+import { errorMessage } from "@/lib/http";
+import {
+  compareFixedRate,
+  getAllCurrencies,
+  hasApiKey,
+  tryEstimate,
+  type FixedRateQuote,
+} from "@/lib/simpleswap";
+import {
+  FEE_TARGETS,
+  parseFeeTarget,
+  STABLE_ASSETS,
+  stableNetworkFor,
+  type FeeTarget,
+} from "@/lib/stableNetworks";
+import {
+  isThetaSwapConfigured,
+  parseDexToken,
+  quoteThetaSwap,
+  type DexQuote,
+} from "@/lib/thetaSwap";
+
+/** A stablecoin destination and the SimpleSwap code to swap into. */
+export type FeeDestination = { to: FeeTarget; code: string };
+
+// What we quote when the currency list can't be read.
+const DEFAULT_DESTINATIONS: FeeDestination[] = [
+  { to: "usdc-sol", code: "usdcspl" },
+  { to: "usdc-eth", code: "usdc" },
+];
+
+/**
+ * USDC and USDT listings from SimpleSwap's currency list, one per chain we
+ * know. Bridged variants are skipped and the plainest code wins (`usdc` over
+ * `usdce`).
+ */
+export async function discoverFeeDestinations(): Promise<FeeDestination[]> {
+  if (!hasApiKey()) return DEFAULT_DESTINATIONS;
+
+  let currencies;
+  try {
+    currencies = await getAllCurrencies();
+  } catch {
+    return DEFAULT_DESTINATIONS;
+  }
+
+  const codes = new Map<FeeTarget, string>();
+  for (const c of currencies) {
+    const code = (c.symbol ?? c.code ?? "").toLowerCase();
+    const asset = STABLE_ASSETS.find((a) => code.startsWith(a));
+    const network = c.network ? stableNetworkFor(c.network) : null;
+    if (!asset || !network || /bridged/i.test(c.name ?? "")) continue;
+
+    const to = parseFeeTarget(`${asset}-${network.id}`);
+    if (!to) continue;
+    const prev = codes.get(to);
+    if (!prev || code.length < prev.length) codes.set(to, code);
+  }
+
+  const found = FEE_TARGETS.flatMap((to) => {
+    const code = codes.get(to);
+    return code ? [{ to, code }] : [];
+  });
+  return found.length > 0 ? found : DEFAULT_DESTINATIONS;
+}
+
+/**
+ * Accepts a fee target (`usdt-trx`), a chain (`matic`, `solana`) for its USDC,
+ * or the older `usdcspl` code. Null for anything else.
+ */
+export async function resolveFeeDestination(raw: string): Promise<FeeDestination | null> {
+  const n = raw.trim().toLowerCase();
+  const network = stableNetworkFor(n);
+  const to =
+    parseFeeTarget(n) ??
+    (network ? parseFeeTarget(`usdc-${network.id}`) : null) ??
+    DEFAULT_DESTINATIONS.find((d) => d.code === n)?.to;
+  if (!to) return null;
+
+  const destinations = await discoverFeeDestinations();
+  const found =
+    destinations.find((d) => d.to === to) ?? DEFAULT_DESTINATIONS.find((d) => d.to === to);
+  if (found || hasApiKey()) return found ?? null;
+  // Without a key there's no currency list to take the code from, and nothing
+  // reaches SimpleSwap anyway: callers fall back to spot.
+  return { to, code: to.slice(0, to.indexOf("-")) };
+}
+
+/** Carried by SimpleSwap rows that show the spot value because there is no API key. */
+export const SPOT_FALLBACK_ERROR = "Missing SIMPLESWAP_API_KEY (using CoinGecko spot as fallback)";
+
+export type NetworkFeeRow = {
+  to: FeeTarget;
+  /** SimpleSwap, or the ThetaSwap pools for USDC on Theta. */
+  source: "simpleswap" | "thetaswap";
+  estimatedUsdc: number | null;
+  impliedFeeUsdc: number | null;
+  impliedFeePct: number | null;
+  error?: string;
+  /** The same sale at a fixed rate; null without a SimpleSwap key, for DEX rows and when skipped. */
+  fixed: FixedRateQuote | null;
+  dex?: Pick<DexQuote, "path" | "lpFeePct" | "priceImpactPct">;
+};
+
+function impliedFee(spotUsdc: number | null, amount: number, estimatedUsdc: number | null) {
+  if (spotUsdc == null || estimatedUsdc == null) {
+    return { impliedFeeUsdc: null, impliedFeePct: null };
+  }
+  const spotValue = spotUsdc * amount;
+  const impliedFeeUsdc = Math.max(0, spotValue - estimatedUsdc);
+  return {
+    impliedFeeUsdc,
+    impliedFeePct: spotValue > 0 ? (impliedFeeUsdc / spotValue) * 100 : null,
+  };
+}
+
+async function simpleSwapRows(
+  symbol: string,
+  amount: number,
+  spotUsdc: number | null,
+  destinations: FeeDestination[],
+  withFixed: boolean,
+): Promise<NetworkFeeRow[]> {
+  if (!hasApiKey()) {
+    return destinations.map(({ to }) => {
+      const estimatedUsdc = spotUsdc == null ? null : spotUsdc * amount;
+      return {
+        to,
+        source: "simpleswap",
+        estimatedUsdc,
+        impliedFeeUsdc: estimatedUsdc == null ? null : 0,
+        impliedFeePct: estimatedUsdc == null ? null : 0,
+        error: SPOT_FALLBACK_ERROR,
+        fixed: null,
+      } satisfies NetworkFeeRow;
+    });
+  }
+
+  return Promise.all(
+    destinations.map(async ({ to, code }) => {
+      const params = { from: symbol, to: code, amount };
+      const [floating, fixed] = await Promise.all([
+        tryEstimate(params),
+        withFixed ? tryEstimate({ ...params, fixed: true }) : null,
+      ]);
+      const { estimated: estimatedUsdc, error } = floating;
+
+      return {
+        to,
+        source: "simpleswap",
+        estimatedUsdc,
+        ...impliedFee(spotUsdc, amount, estimatedUsdc),
+        error,
+        fixed: fixed && compareFixedRate(fixed, estimatedUsdc),
+      } satisfies NetworkFeeRow;
+    }),
+  );
+}
+
+/** Selling TFUEL through the ThetaSwap pools, when they're configured. */
+async function thetaSwapRow(
+  symbol: string,
+  amount: number,
+  spotUsdc: number | null,
+): Promise<NetworkFeeRow | null> {
+  const from = parseDexToken(symbol);
+  if (from !== "tfuel" || !isThetaSwapConfigured()) return null;
+
+  const row = {
+    to: "usdc-theta",
+    source: "thetaswap",
+    estimatedUsdc: null,
+    impliedFeeUsdc: null,
+    impliedFeePct: null,
+    fixed: null,
+  } satisfies NetworkFeeRow;
+  try {
+    const quote = await quoteThetaSwap(from, "usdc", amount);
+    if (!quote) return { ...row, error: "No ThetaSwap pools connect TFUEL and USDC" };
+    return {
+      ...row,
+      estimatedUsdc: quote.amountOut,
+      ...impliedFee(spotUsdc, amount, quote.amountOut),
+      dex: {
+        path: quote.path,
+        lpFeePct: quote.lpFeePct,
+        priceImpactPct: quote.priceImpactPct,
+      },
+    };
+  } catch (e) {
+    return { ...row, error: errorMessage(e) };
+  }
+}
+
+type FeeQuoteOptions = {
+  /** Quote a single destination. */
+  only?: FeeTarget;
+  /** Also ask SimpleSwap for a fixed rate; callers that never show it skip the call. */
+  withFixed?: boolean;
+};
+
+async function feeQuoteSetup(symbol: string, only?: FeeTarget) {
+  const [spotUsdc, destinations] = await Promise.all([
+    fetchSpotUsdc(symbol),
+    discoverFeeDestinations(),
+  ]);
+  return { spotUsdc, destinations: destinations.filter((d) => !only || d.to === only) };
+}
+
+async function quoteRows(
+  symbol: string,
+  amount: number,
+  spotUsdc: number | null,
+  destinations: FeeDestination[],
+  { only, withFixed = true }: FeeQuoteOptions,
+): Promise<NetworkFeeRow[]> {
+  const [rows, dexRow] = await Promise.all([
+    simpleSwapRows(symbol, amount, spotUsdc, destinations, withFixed),
+    !only || only === "usdc-theta" ? thetaSwapRow(symbol, amount, spotUsdc) : null,
+  ]);
+  if (dexRow) rows.push(dexRow);
+
+  rows.sort((a, b) => (b.estimatedUsdc ?? -Infinity) - (a.estimatedUsdc ?? -Infinity));
+  return rows;
+}
+
+/**
+ * What selling `amount` of `symbol` to each stablecoin destination would
+ * cost against CoinGecko spot, best net first. SimpleSwap quotes every
+ * listed network; ThetaSwap adds USDC on Theta for TFUEL. Without a
+ * SimpleSwap key the spot value stands in for its rows, each carrying an
+ * explanatory error.
+ */
+export async function quoteNetworkFees(
+  symbol: string,
+  amount: number,
+  options: FeeQuoteOptions = {},
+): Promise<{ spotUsdc: number | null; rows: NetworkFeeRow[] }> {
+  const { spotUsdc, destinations } = await feeQuoteSetup(symbol, options.only);
+  const rows = await quoteRows(symbol, amount, spotUsdc, destinations, options);
+  return { spotUsdc, rows };
+}
+
+/** One amount on a depth curve, quoted the same way as a fee row. */
+export type DepthRung = {
+  amount: number;
+  /** Multiple of the base amount (1, 10, 100, …). */
+  multiple: number;
+  estimatedUsdc: number | null;
+  /** Stablecoin received per token sold. */
+  effectivePrice: number | null;
+  impliedFeeUsdc: number | null;
+  impliedFeePct: number | null;
+  error?: string;
+};
+
+export type DepthCurve = {
+  source: NetworkFeeRow["source"];
+  rungs: DepthRung[];
+};
+
+/**
+ * Quotes `symbol` into `to` at `baseAmount` × 1, 10, 100, … (`rungs` steps)
+ * so the cost of selling in one go shows against selling a slice. USDC on
+ * Theta gets a curve per source; rungs below a venue's minimum carry its error.
+ */
+export async function quoteDepthCurve(
+  symbol: string,
+  baseAmount: number,
+  to: FeeTarget,
+  rungs: number,
+): Promise<{ spotUsdc: number | null; curves: DepthCurve[] }> {
+  const multiples = Array.from({ length: rungs }, (_, i) => 10 ** i);
+  const { spotUsdc, destinations } = await feeQuoteSetup(symbol, to);
+  const quotes = await Promise.all(
+    multiples.map((multiple) =>
+      quoteRows(symbol, baseAmount * multiple, spotUsdc, destinations, {
+        only: to,
+        withFixed: false,
+      }),
+    ),
+  );
+
+  const curves = new Map<NetworkFeeRow["source"], DepthRung[]>();
+  quotes.forEach((rows, i) => {
+    const amount = baseAmount * multiples[i];
+    for (const row of rows) {
+      const rung: DepthRung = {
+        amount,
+        multiple: multiples[i],
+        estimatedUsdc: row.estimatedUsdc,
+        effectivePrice: row.estimatedUsdc == null ? null : row.estimatedUsdc / amount,
+        impliedFeeUsdc: row.impliedFeeUsdc,
+        impliedFeePct: row.impliedFeePct,
+        error: row.error,
+      };
+      curves.set(row.source, [...(curves.get(row.source) ?? []), rung]);
+    }
+  });
+
+  return {
+    spotUsdc,
+    curves: [...curves].map(([source, rungs]) => ({ source, rungs })),
+  };
+}
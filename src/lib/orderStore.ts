@@ -0,0 +1,140 @@
+import { getDb } from "@/lib/db";
+import {
+  EXCHANGE_STATUSES,
+  FIXED_RATE_VALIDITY_MS,
+  isFinalExchangeStatus,
+  type ExchangeStatus,
+  type SimpleSwapExchange,
+} from "@/lib/simpleswap";
+import { parseFeeTarget, type FeeTarget } from "@/lib/stableNetworks";
+
+/** A SimpleSwap exchange created from the Converter. */
+export type SwapOrder = {
+  /** SimpleSwap's exchange id. */
+  id: string;
+  symbol: string;
+  to: FeeTarget;
+  fixed: boolean;
+  amountFrom: number;
+  expectedAmount: number | null;
+  amountTo: number | null;
+  depositAddress: string;
+  depositExtraId: string | null;
+  addressTo: string;
+  refundAddress: string | null;
+  status: ExchangeStatus;
+  /** Whether the status can still change. */
+  final: boolean;
+  /** Unix ms; a fixed rate is held for deposits until then. Null for floating orders. */
+  rateHeldUntil: number | null;
+  txFrom: string | null;
+  txTo: string | null;
+  createdAt: number;
+  updatedAt: number;
+  /** Last time the status was fetched from SimpleSwap. */
+  checkedAt: number | null;
+};
+
+type SwapOrderRow = {
+  id: string;
+  symbol: string;
+  fee_target: string;
+  fixed: number;
+  amount_from: number;
+  expected_amount: number | null;
+  amount_to: number | null;
+  deposit_address: string;
+  deposit_extra_id: string | null;
+  address_to: string;
+  refund_address: string | null;
+  status: string;
+  tx_from: string | null;
+  tx_to: string | null;
+  created_at: number;
+  updated_at: number;
+  checked_at: number | null;
+};
+
+function toSwapOrder(row: SwapOrderRow): SwapOrder {
+  const status = EXCHANGE_STATUSES.find((s) => s === row.status) ?? "waiting";
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    to: parseFeeTarget(row.fee_target) ?? "usdc-sol",
+    fixed: row.fixed === 1,
+    amountFrom: row.amount_from,
+    expectedAmount: row.expected_amount,
+    amountTo: row.amount_to,
+    depositAddress: row.deposit_address,
+    depositExtraId: row.deposit_extra_id,
+    addressTo: row.address_to,
+    refundAddress: row.refund_address,
+    status,
+    final: isFinalExchangeStatus(status),
+    rateHeldUntil: row.fixed === 1 ? row.created_at + FIXED_RATE_VALIDITY_MS : null,
+    txFrom: row.tx_from,
+    txTo: row.tx_to,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    checkedAt: row.checked_at,
+  };
+}
+
+/** Newest first. */
+export function listSwapOrders(limit: number): SwapOrder[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM swap_orders ORDER BY created_at DESC LIMIT ?`)
+    .all(limit) as SwapOrderRow[];
+  return rows.map(toSwapOrder);
+}
+
+export function getSwapOrder(id: string): SwapOrder | null {
+  const row = getDb().prepare(`SELECT * FROM swap_orders WHERE id = ?`).get(id) as
+    | SwapOrderRow
+    | undefined;
+  return row ? toSwapOrder(row) : null;
+}
+
+export function saveSwapOrder(
+  exchange: SimpleSwapExchange,
+  meta: { symbol: string; to: FeeTarget },
+): SwapOrder {
+  const now = Date.now();
+  const row = getDb()
+    .prepare(
+      `INSERT INTO swap_orders
+         (id, symbol, fee_target, fixed, amount_from, expected_amount, amount_to,
+          deposit_address, deposit_extra_id, address_to, refund_address, status,
+          tx_from, tx_to, created_at, updated_at, checked_at)
+       VALUES
+         (@id, @symbol, @to, @fixed, @amountFrom, @expectedAmount, @amountTo,
+          @depositAddress, @depositExtraId, @addressTo, @refundAddress, @status,
+          @txFrom, @txTo, @now, @now, @now)
+       RETURNING *`,
+    )
+    .get({ ...exchange, ...meta, fixed: exchange.fixed ? 1 : 0, now }) as SwapOrderRow;
+  return toSwapOrder(row);
+}
+
+/** Stores the latest state SimpleSwap reported for an order. */
+export function updateSwapOrder(exchange: SimpleSwapExchange): SwapOrder | null {
+  const now = Date.now();
+  const row = getDb()
+    .prepare(
+      `UPDATE swap_orders SET
+         status = @status, amount_to = @amountTo, tx_from = @txFrom, tx_to = @txTo,
+         updated_at = CASE WHEN status = @status THEN updated_at ELSE @now END,
+         checked_at = @now
+       WHERE id = @id
+       RETURNING *`,
+    )
+    .get({
+      id: exchange.id,
+      status: exchange.status,
+      amountTo: exchange.amountTo,
+      txFrom: exchange.txFrom,
+      txTo: exchange.txTo,
+      now,
+    }) as SwapOrderRow | undefined;
+  return row ? toSwapOrder(row) : null;
+}
@@ -0,0 +1,147 @@
+import { fetchSpot } from "@/lib/coingecko";
+import {
+  fetchBinanceTicker,
+  fetchGateTicker,
+  fetchKuCoinTicker,
+} from "@/lib/exchanges";
+import { errorMessage } from "@/lib/http";
+import { getEstimated } from "@/lib/simpleswap";
+import { getPricingToken } from "@/lib/tokens";
+
+export type PriceProviderId =
+  | "coingecko"
+  | "simpleswap"
+  | "binance"
+  | "kucoin"
+  | "gate";
+
+export type PriceProvider = {
+  id: PriceProviderId;
+  label: string;
+  fetchUsd: (symbol: string, signal: AbortSignal) => Promise<number>;
+};
+
+export const PRICE_PROVIDERS: PriceProvider[] = [
+  {
+    id: "coingecko",
+    label: "CoinGecko",
+    fetchUsd: async (symbol, signal) => {
+      const spot = await fetchSpot(symbol, signal);
+      if (spot.usd == null) throw new Error("CoinGecko returned no USD price");
+      return spot.usd;
+    },
+  },
+  {
+    id: "simpleswap",
+    label: "SimpleSwap",
+    fetchUsd: (symbol, signal) =>
+      getEstimated({ from: symbol, to: "usdc", amount: 1, signal }),
+  },
+  { id: "binance", label: "Binance", fetchUsd: fetchBinanceTicker },
+  { id: "kucoin", label: "KuCoin", fetchUsd: fetchKuCoinTicker },
+  { id: "gate", label: "Gate", fetchUsd: fetchGateTicker },
+];
+
+export function resolveProviders(raw: string | null): PriceProvider[] {
+  if (!raw) return PRICE_PROVIDERS;
+  const wanted = new Set(
+    raw
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean),
+  );
+  return PRICE_PROVIDERS.filter((p) => wanted.has(p.id));
+}
+
+export type ProviderQuote = {
+  id: PriceProviderId;
+  label: string;
+  price: number | null;
+  latencyMs: number;
+  status: "used" | "outlier" | "failed";
+  error?: string;
+};
+
+export async function queryProviders(
+  symbol: string,
+  providers: PriceProvider[],
+  timeoutMs = 5_000,
+): Promise<ProviderQuote[]> {
+  const pricingSymbol = getPricingToken(symbol)?.symbol ?? symbol;
+  return Promise.all(
+    providers.map(async (p): Promise<ProviderQuote> => {
+      const startedAt = Date.now();
+      try {
+        const price = await p.fetchUsd(
+          pricingSymbol,
+          AbortSignal.timeout(timeoutMs),
+        );
+        return {
+          id: p.id,
+          label: p.label,
+          price,
+          latencyMs: Date.now() - startedAt,
+          status: "used",
+        };
+      } catch (e) {
+        return {
+          id: p.id,
+          label: p.label,
+          price: null,
+          latencyMs: Date.now() - startedAt,
+          status: "failed",
+          error: errorMessage(e),
+        };
+      }
+    }),
+  );
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Marks quotes further than `maxDeviationPct` from the median of all
+ * successful quotes as outliers and returns the median of the rest.
+ * With fewer than three quotes there is no majority to judge by, so
+ * nothing is dropped.
+ */
+export function aggregateQuotes(
+  quotes: ProviderQuote[],
+  maxDeviationPct = 5,
+): { price: number | null; quotes: ProviderQuote[] } {
+  const ok = quotes.filter((q) => q.price != null);
+  const center = median(ok.map((q) => q.price as number));
+  if (center == null) return { price: null, quotes };
+  if (ok.length < 3) return { price: center, quotes };
+
+  const marked = quotes.map((q) => {
+    if (q.price == null) return q;
+    const deviationPct = (Math.abs(q.price - center) / center) * 100;
+    return deviationPct > maxDeviationPct
+      ? { ...q, status: "outlier" as const }
+      : q;
+  });
+
+  const used = marked
+    .filter((q) => q.status === "used")
+    .map((q) => q.price as number);
+  return { price: median(used), quotes: marked };
+}
+
+/** Outlier-filtered USD price across every provider, as `/api/price` reports it. */
+export async function fetchAggregatedUsd(symbol: string): Promise<number> {
+  const { price, quotes } = aggregateQuotes(await queryProviders(symbol, PRICE_PROVIDERS));
+  if (price == null) {
+    throw new Error(
+      quotes.map((q) => q.error).filter(Boolean).join("; ") || "Failed to fetch price",
+    );
+  }
+  return price;
+}
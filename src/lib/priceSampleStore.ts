@@ -0,0 +1,51 @@
+import { getDb } from "@/lib/db";
+
+import type { FiatCurrency } from "@/lib/currency";
+
+export type PriceSample = {
+  /** ms since epoch. */
+  t: number;
+  price: number;
+};
+
+/** Stored samples for `currency`, oldest first, keyed by token symbol. */
+export function getPriceSamples(
+  currency: FiatCurrency,
+  options: { sinceMs?: number; symbol?: string } = {},
+): Record<string, PriceSample[]> {
+  const rows = getDb()
+    .prepare(
+      `SELECT symbol, t, price FROM price_samples
+       WHERE currency = @currency AND t >= @since
+         AND (@symbol IS NULL OR symbol = @symbol)
+       ORDER BY t ASC`,
+    )
+    .all({
+      currency,
+      since: options.sinceMs ?? 0,
+      symbol: options.symbol ?? null,
+    }) as Array<PriceSample & { symbol: string }>;
+
+  const out: Record<string, PriceSample[]> = {};
+  for (const r of rows) (out[r.symbol] ??= []).push({ t: r.t, price: r.price });
+  return out;
+}
+
+/** Inserts samples, ignoring ones already stored. Returns how many were new. */
+export function insertPriceSamples(
+  currency: FiatCurrency,
+  samples: Array<PriceSample & { symbol: string }>,
+): number {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO price_samples (symbol, currency, t, price)
+     VALUES (?, ?, ?, ?)`,
+  );
+  return db.transaction(() => {
+    let inserted = 0;
+    for (const s of samples) {
+      inserted += insert.run(s.symbol, currency, Math.round(s.t), s.price).changes;
+    }
+    return inserted;
+  })();
+}
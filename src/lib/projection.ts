@@ -0,0 +1,117 @@
+const DAYS_PER_YEAR = 365;
+const DAYS_PER_MONTH = DAYS_PER_YEAR / 12;
+const YEAR_MS = DAYS_PER_YEAR * 24 * 60 * 60 * 1000;
+
+/** Smallest TFUEL stake an Elite Edge Node accepts. */
+export const EEN_MIN_STAKE = 10_000;
+
+export type ProjectionInput = {
+  /** Observed TFUEL rewards per day on the current stake. */
+  dailyRewards: number;
+  years: number;
+  /** Re-stake accumulated rewards into an EEN once `restakeMinimum` is reached. */
+  restake: boolean;
+  /** Annual TFUEL yield on re-staked TFUEL, as a fraction (0.05 = 5%). */
+  eenApr: number;
+  restakeMinimum: number;
+};
+
+export type ProjectionPoint = {
+  month: number;
+  /** All rewards earned so far, staked or not. */
+  earned: number;
+  /** Part of `earned` sitting in an EEN. */
+  restaked: number;
+};
+
+/**
+ * Month-by-month TFUEL earnings from the current reward rate. Re-staked
+ * rewards earn `eenApr` on top; rewards wait in the wallet until there's
+ * enough for a deposit.
+ */
+export function projectRewards(input: ProjectionInput): ProjectionPoint[] {
+  const eenDaily = input.eenApr / DAYS_PER_YEAR;
+  const totalDays = Math.round(input.years * DAYS_PER_YEAR);
+
+  let earned = 0;
+  let restaked = 0;
+  let liquid = 0;
+  const points: ProjectionPoint[] = [{ month: 0, earned: 0, restaked: 0 }];
+
+  for (let day = 1; day <= totalDays; day++) {
+    const today = input.dailyRewards + restaked * eenDaily;
+    earned += today;
+    liquid += today;
+
+    if (input.restake && liquid >= input.restakeMinimum) {
+      restaked += liquid;
+      liquid = 0;
+    }
+
+    const month = points.length;
+    if (day >= Math.round(month * DAYS_PER_MONTH)) {
+      points.push({ month, earned, restaked });
+    }
+  }
+
+  return points;
+}
+
+/** Annualized log-return drift and volatility. */
+export type PriceModel = {
+  drift: number;
+  volatility: number;
+};
+
+/** Estimates a price model from a price series sorted ascending by time (ms). */
+export function estimatePriceModel(
+  series: Array<{ t: number; price: number }>,
+): PriceModel | null {
+  let sum = 0;
+  let sumSq = 0;
+  let years = 0;
+  let n = 0;
+
+  for (let i = 1; i < series.length; i++) {
+    const a = series[i - 1];
+    const b = series[i];
+    const dt = (b.t - a.t) / YEAR_MS;
+    if (dt <= 0 || a.price <= 0 || b.price <= 0) continue;
+    const r = Math.log(b.price / a.price);
+    sum += r;
+    sumSq += (r * r) / dt;
+    years += dt;
+    n++;
+  }
+
+  if (n < 2 || years <= 0) return null;
+  return { drift: sum / years, volatility: Math.sqrt(sumSq / n) };
+}
+
+export type PriceScenario = "bear" | "base" | "bull";
+
+/** Standard normal quantiles for the 10th, 50th and 90th percentiles. */
+export const PRICE_SCENARIOS: Record<PriceScenario, { label: string; z: number }> = {
+  bear: { label: "Bear (P10)", z: -1.2816 },
+  base: { label: "Base (P50)", z: 0 },
+  bull: { label: "Bull (P90)", z: 1.2816 },
+};
+
+/**
+ * Price after `years` at the scenario's percentile, treating the price as a
+ * log-normal walk. Short histories make the drift meaningless, so callers
+ * usually pass `drift: 0` and keep only the volatility.
+ */
+export function scenarioPrice(
+  priceNow: number,
+  model: PriceModel,
+  years: number,
+  scenario: PriceScenario,
+): number {
+  const { drift, volatility } = model;
+  const z = PRICE_SCENARIOS[scenario].z;
+  return (
+    priceNow *
+    Math.exp((drift - (volatility * volatility) / 2) * years + z * volatility * Math.sqrt(years))
+  );
+}
@@ -0,0 +1,109 @@
+import { getEstimated, SimpleSwapError } from "@/lib/simpleswap";
+
+export type TargetQuote = {
+  /** Smallest input found that yields at least the target. */
+  amount: number;
+  /** Output SimpleSwap estimates for `amount`. */
+  estimated: number;
+  /** SimpleSwap's minimum input, when a probe ran into it. */
+  minAmount: number | null;
+  /** `get_estimated` calls the search made. */
+  steps: number;
+};
+
+const MAX_STEPS = 12;
+// Stop once the bracket is within 0.1% of the answer.
+const RELATIVE_TOLERANCE = 0.001;
+const AMOUNT_DECIMALS = 4;
+
+function ceilAmount(v: number): number {
+  const f = 10 ** AMOUNT_DECIMALS;
+  return Math.ceil(v * f) / f;
+}
+
+type Probe = { amount: number; out: number };
+
+/**
+ * Searches `get_estimated` for the smallest `from` amount that yields at
+ * least `target` of `to`. Starts from `guess` (usually target / spot), scales
+ * by the observed rate until the target is bracketed, then bisects. Amounts
+ * below SimpleSwap's minimum are lifted to it.
+ */
+export async function findAmountForTarget(params: {
+  from: string;
+  to: string;
+  target: number;
+  guess: number;
+}): Promise<TargetQuote> {
+  const { from, to, target } = params;
+  let steps = 0;
+  let minAmount: number | null = null;
+  const seen = new Map<number, number | null>();
+
+  // null means the amount is under SimpleSwap's minimum.
+  async function estimate(amount: number): Promise<number | null> {
+    const cached = seen.get(amount);
+    if (cached !== undefined) return cached;
+    steps++;
+    let out: number | null;
+    try {
+      out = await getEstimated({ from, to, amount });
+    } catch (e) {
+      if (!(e instanceof SimpleSwapError) || e.minAmount == null || amount >= e.minAmount) {
+        throw e;
+      }
+      minAmount = e.minAmount;
+      out = null;
+    }
+    seen.set(amount, out);
+    return out;
+  }
+
+  let lo: Probe | null = null;
+  let hi: Probe | null = null;
+  let amount = ceilAmount(params.guess);
+
+  while (steps < MAX_STEPS) {
+    const out = await estimate(amount);
+    if (out == null) {
+      if (minAmount == null) break;
+      lo = { amount, out: 0 };
+      amount = ceilAmount(minAmount);
+      continue;
+    }
+    if (out >= target) hi = { amount, out };
+    else lo = { amount, out };
+
+    const atMinimum = minAmount != null && hi != null && hi.amount <= minAmount;
+    if (hi && (lo || atMinimum)) break;
+
+    // Rates barely move with size, so scaling by the shortfall lands close;
+    // aim a little past the target on the way up and a little short on the way down.
+    const scaled = amount * (target / Math.max(out, Number.EPSILON));
+    amount = ceilAmount(out >= target ? scaled * 0.995 : scaled * 1.01);
+    if (minAmount != null) amount = Math.max(amount, ceilAmount(minAmount));
+  }
+
+  while (lo && hi && steps < MAX_STEPS) {
+    if ((hi.amount - lo.amount) / hi.amount <= RELATIVE_TOLERANCE) break;
+    // Try the amount hi's rate says is exact, then just under hi to prove
+    // it's the smallest; bisect only when neither narrows the bracket.
+    const [low, high] = [lo.amount, hi.amount];
+    const inside = (v: number) => v > low && v < high;
+    const byRate = ceilAmount((hi.amount * target) / hi.out);
+    const justUnder = ceilAmount(hi.amount * (1 - RELATIVE_TOLERANCE));
+    const next = inside(byRate)
+      ? byRate
+      : inside(justUnder)
+        ? justUnder
+        : ceilAmount((lo.amount + hi.amount) / 2);
+    if (!inside(next)) break;
+
+    const out = await estimate(next);
+    if (out != null && out >= target) hi = { amount: next, out };
+    else lo = { amount: next, out: out ?? 0 };
+  }
+
+  if (!hi) throw new SimpleSwapError("Could not find an amount that reaches the target");
+  return { amount: hi.amount, estimated: hi.out, minAmount, steps };
+}
@@ -0,0 +1,104 @@
+import type { RewardEntry } from "@/lib/rewardLedger";
+
+/** What a wallet's rewards normally look like, learned from its ledger. */
+export type RewardCadence = {
+  /** Median seconds between rewards. */
+  intervalSec: number;
+  /** Median TFUEL per reward. */
+  amount: number;
+  samples: number;
+};
+
+export type RewardAnomaly =
+  | {
+      type: "gap";
+      /** Seconds since the last reward. */
+      elapsedSec: number;
+      expectedIntervalSec: number;
+      lastRewardAt: number;
+    }
+  | {
+      type: "drop";
+      recentAmount: number;
+      usualAmount: number;
+      /** Rewards the recent figure is taken from. */
+      recentCount: number;
+    };
+
+export type AnomalyOptions = {
+  /** Flag a gap once no reward arrived for this many usual intervals. */
+  gapFactor: number;
+  /** Flag a drop once recent rewards fall below this share of the usual amount. */
+  dropRatio: number;
+};
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = { gapFactor: 3, dropRatio: 0.5 };
+
+// Enough history to call something "normal", and how much of it to use.
+const MIN_SAMPLES = 10;
+const BASELINE_WINDOW = 200;
+const RECENT_WINDOW = 5;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Usual reward interval and amount, from rewards before the most recent few
+ * (newest first) so a drop in progress doesn't drag the baseline down.
+ */
+export function learnRewardCadence(rewards: RewardEntry[]): RewardCadence | null {
+  const baseline = rewards.slice(RECENT_WINDOW, RECENT_WINDOW + BASELINE_WINDOW);
+  if (baseline.length < MIN_SAMPLES) return null;
+
+  const intervals: number[] = [];
+  for (let i = 1; i < baseline.length; i++) {
+    const dt = baseline[i - 1].timestamp - baseline[i].timestamp;
+    if (dt > 0) intervals.push(dt);
+  }
+  if (intervals.length === 0) return null;
+
+  return {
+    intervalSec: median(intervals),
+    amount: median(baseline.map((r) => r.amount)),
+    samples: baseline.length,
+  };
+}
+
+/** Checks the newest rewards (newest first) against the wallet's cadence. */
+export function detectRewardAnomalies(
+  rewards: RewardEntry[],
+  cadence: RewardCadence | null,
+  nowSec: number,
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+): RewardAnomaly[] {
+  const last = rewards[0];
+  if (!cadence || !last) return [];
+
+  const anomalies: RewardAnomaly[] = [];
+
+  const elapsedSec = nowSec - last.timestamp;
+  if (elapsedSec > cadence.intervalSec * options.gapFactor) {
+    anomalies.push({
+      type: "gap",
+      elapsedSec,
+      expectedIntervalSec: cadence.intervalSec,
+      lastRewardAt: last.timestamp,
+    });
+  }
+
+  const recent = rewards.slice(0, RECENT_WINDOW);
+  const recentAmount = median(recent.map((r) => r.amount));
+  if (recentAmount < cadence.amount * options.dropRatio) {
+    anomalies.push({
+      type: "drop",
+      recentAmount,
+      usualAmount: cadence.amount,
+      recentCount: recent.length,
+    });
+  }
+
+  return anomalies;
+}
@@ -0,0 +1,196 @@
+import { fromJson, getDb, toJson } from "@/lib/db";
+import { errorMessage } from "@/lib/http";
+import {
+  coinbaseRewardFor,
+  getCoinbaseTxPage,
+  txHeight,
+  txTimestamp,
+} from "@/lib/thetaExplorer";
+
+export type RewardEntry = {
+  hash: string;
+  height: number;
+  /** Unix seconds. */
+  timestamp: number;
+  /** TFUEL. */
+  amount: number;
+};
+
+/**
+ * A walk pages through coinbase history newest-first until it reaches
+ * `stopAtHeight` (the newest reward already stored) or, for the first walk,
+ * the very first reward. New rewards only ever push older ones onto later
+ * pages, so resuming at `page` can re-read entries but never skips any.
+ */
+type LedgerWalk = {
+  page: number;
+  stopAtHeight: number | null;
+};
+
+type LedgerState = {
+  /** Newest first. */
+  rewards: RewardEntry[];
+  walk: LedgerWalk | null;
+  syncedAt: number | null;
+};
+
+export type LedgerSyncResult = {
+  address: string;
+  rewards: RewardEntry[];
+  /** True when every reward from the first one up to the chain head seen by this sync is stored. */
+  complete: boolean;
+  pagesFetched: number;
+  syncedAt: number | null;
+  /** Set when the explorer failed mid-sync; progress up to that page is kept. */
+  error?: string;
+};
+
+const PAGE_LIMIT = 50;
+
+function loadLedger(address: string): LedgerState {
+  const db = getDb();
+  const rewards = db
+    .prepare(
+      `SELECT hash, height, timestamp, amount FROM reward_ledger
+       WHERE address = ? ORDER BY height DESC`,
+    )
+    .all(address) as RewardEntry[];
+  const sync = db
+    .prepare(`SELECT walk, synced_at FROM reward_ledger_sync WHERE address = ?`)
+    .get(address) as { walk: string | null; synced_at: number | null } | undefined;
+
+  // No sync row yet means the first walk down to the very first reward hasn't started.
+  if (!sync) return { rewards, walk: { page: 1, stopAtHeight: null }, syncedAt: null };
+  return {
+    rewards,
+    walk: fromJson<LedgerWalk | null>(sync.walk, null),
+    syncedAt: sync.synced_at,
+  };
+}
+
+function saveLedger(
+  address: string,
+  added: RewardEntry[],
+  walk: LedgerWalk | null,
+  syncedAt: number | null,
+) {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO reward_ledger (address, hash, height, timestamp, amount)
+     VALUES (@address, @hash, @height, @timestamp, @amount)`,
+  );
+  const upsertSync = db.prepare(
+    `INSERT INTO reward_ledger_sync (address, walk, synced_at) VALUES (?, ?, ?)
+     ON CONFLICT (address) DO UPDATE SET walk = excluded.walk, synced_at = excluded.synced_at`,
+  );
+
+  db.transaction(() => {
+    for (const r of added) insert.run({ address, ...r });
+    upsertSync.run(address, walk == null ? null : toJson(walk), syncedAt);
+  })();
+}
+
+async function syncLedger(
+  address: string,
+  maxPages: number,
+): Promise<LedgerSyncResult> {
+  const ledger = loadLedger(address);
+  const known = new Map(ledger.rewards.map((r) => [r.hash, r] as const));
+  const added: RewardEntry[] = [];
+
+  let walk = ledger.walk;
+  // Every call reads page 1 once so "complete" reflects this request. A walk
+  // resumed further down doesn't count: it started below an older head.
+  let readHead = false;
+  let pagesFetched = 0;
+  let error: string | undefined;
+
+  while (pagesFetched < maxPages) {
+    if (!walk) {
+      if (readHead) break;
+      let newest: number | null = null;
+      for (const r of known.values()) newest = Math.max(newest ?? r.height, r.height);
+      walk = { page: 1, stopAtHeight: newest };
+    }
+    if (walk.page === 1) readHead = true;
+
+    let txs: Awaited<ReturnType<typeof getCoinbaseTxPage>>;
+    try {
+      txs = await getCoinbaseTxPage(address, walk.page, PAGE_LIMIT);
+    } catch (e) {
+      error = errorMessage(e);
+      break;
+    }
+    pagesFetched++;
+    const body = txs.body ?? [];
+
+    let reachedStored = false;
+    for (const tx of body) {
+      const height = txHeight(tx);
+      const timestamp = txTimestamp(tx);
+      if (!tx.hash || height == null || timestamp == null) continue;
+      if (walk.stopAtHeight != null && height <= walk.stopAtHeight) {
+        reachedStored = true;
+        break;
+      }
+
+      const amount = coinbaseRewardFor(tx, address);
+      if (amount == null || known.has(tx.hash)) continue;
+      const entry = { hash: tx.hash, height, timestamp, amount };
+      known.set(tx.hash, entry);
+      added.push(entry);
+    }
+
+    const totalPages = txs.totalPageNumber ?? null;
+    const currentPage = txs.currentPageNumber ?? walk.page;
+    const reachedFirst =
+      body.length === 0 || (totalPages != null && currentPage >= totalPages);
+
+    walk = reachedStored || reachedFirst ? null : { ...walk, page: walk.page + 1 };
+  }
+
+  const rewards = Array.from(known.values()).sort((a, b) => b.height - a.height);
+  const syncedAt = pagesFetched > 0 ? Date.now() : ledger.syncedAt;
+
+  saveLedger(address, added, walk, syncedAt);
+
+  return {
+    address,
+    rewards,
+    complete: walk == null,
+    pagesFetched,
+    syncedAt,
+    ...(error ? { error } : {}),
+  };
+}
+
+// One sync per address at a time; concurrent callers share the same run.
+const inFlight = new Map<string, Promise<LedgerSyncResult>>();
+
+/**
+ * Brings the stored reward ledger for `address` up to date, fetching at most
+ * `maxPages` explorer pages. Call again while `complete` is false to continue.
+ */
+export function syncRewardLedger(
+  address: string,
+  maxPages = 40,
+): Promise<LedgerSyncResult> {
+  const running = inFlight.get(address);
+  if (running) return running;
+
+  const run = syncLedger(address, maxPages).finally(() => inFlight.delete(address));
+  inFlight.set(address, run);
+  return run;
+}
+
+/** Stored ledger without touching the explorer. */
+export function readRewardLedger(address: string): LedgerSyncResult {
+  const ledger = loadLedger(address);
+  return {
+    address,
+    rewards: ledger.rewards,
+    complete: ledger.walk == null,
+    pagesFetched: 0,
+    syncedAt: ledger.syncedAt,
+  };
+}
@@ -0,0 +1,113 @@
+import {
+  fetchMarketChart,
+  fetchSpot,
+  fetchUsdRate,
+  type PricePoint,
+} from "@/lib/coingecko";
+import type { FiatCurrency } from "@/lib/currency";
+import type { RewardEntry } from "@/lib/rewardLedger";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// CoinGecko returns hourly points for ranges up to 90 days and daily ones beyond.
+const HOURLY_RANGE_DAYS = 90;
+
+export type ValuedReward<R extends RewardEntry = RewardEntry> = R & {
+  /** TFUEL price in the requested currency at the reward's block time. */
+  price: number | null;
+  value: number | null;
+};
+
+export type RewardValuation<R extends RewardEntry = RewardEntry> = {
+  rewards: ValuedReward<R>[];
+  /** Sum of `value` over rewards that could be priced. */
+  valueAtReceipt: number;
+  /** All rewards at today's price. */
+  valueNow: number | null;
+  priceNow: number | null;
+  /** Rewards older than any price data we could get. */
+  unpricedCount: number;
+};
+
+/**
+ * TFUEL prices covering `oldestSec` until now: hourly for the last 90 days,
+ * daily before that. Older data is best-effort; rewards it can't cover stay unpriced.
+ */
+export async function fetchRewardPriceSeries(
+  oldestSec: number,
+  currency: FiatCurrency,
+): Promise<PricePoint[]> {
+  const hourly = await fetchMarketChart("tfuel", HOURLY_RANGE_DAYS, currency);
+  const ageDays = Math.ceil((Date.now() - oldestSec * 1000) / DAY_MS) + 1;
+  if (ageDays <= HOURLY_RANGE_DAYS) return hourly;
+
+  const hourlyStart = hourly[0]?.t ?? Date.now();
+  try {
+    const daily = await fetchMarketChart("tfuel", ageDays, currency);
+    return [...daily.filter((p) => p.t < hourlyStart), ...hourly];
+  } catch {
+    return hourly;
+  }
+}
+
+/** Closest point to `tMs` (series sorted ascending), within the series' own resolution. */
+export function priceAt(series: PricePoint[], tMs: number): number | null {
+  if (series.length === 0) return null;
+
+  let lo = 0;
+  let hi = series.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].t < tMs) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const after = series[lo];
+  const before = lo > 0 ? series[lo - 1] : null;
+  const nearest =
+    before && Math.abs(before.t - tMs) <= Math.abs(after.t - tMs) ? before : after;
+
+  const maxGapMs = Date.now() - tMs <= HOURLY_RANGE_DAYS * DAY_MS ? 2 * HOUR_MS : 2 * DAY_MS;
+  return Math.abs(nearest.t - tMs) <= maxGapMs ? nearest.price : null;
+}
+
+export async function valueRewards<R extends RewardEntry>(
+  rewards: R[],
+  currency: FiatCurrency,
+): Promise<RewardValuation<R>> {
+  const oldestSec = rewards.reduce((min, r) => Math.min(min, r.timestamp), Infinity);
+  const [series, priceNow] = await Promise.all([
+    rewards.length ? fetchRewardPriceSeries(oldestSec, currency) : [],
+    fetchTfuelPriceNow(currency),
+  ]);
+
+  let valueAtReceipt = 0;
+  let unpricedCount = 0;
+  const valued = rewards.map((r) => {
+    const price = priceAt(series, r.timestamp * 1000);
+    const value = price == null ? null : r.amount * price;
+    if (value == null) unpricedCount++;
+    else valueAtReceipt += value;
+    return { ...r, price, value };
+  });
+
+  const total = rewards.reduce((a, r) => a + r.amount, 0);
+  return {
+    rewards: valued,
+    valueAtReceipt,
+    valueNow: priceNow == null ? null : total * priceNow,
+    priceNow,
+    unpricedCount,
+  };
+}
+
+/** Current TFUEL price in `currency`; null when CoinGecko is unavailable. */
+export async function fetchTfuelPriceNow(currency: FiatCurrency): Promise<number | null> {
+  try {
+    const [spot, rate] = await Promise.all([fetchSpot("tfuel"), fetchUsdRate(currency)]);
+    return spot.usd == null ? null : spot.usd * rate;
+  } catch {
+    return null;
+  }
+}
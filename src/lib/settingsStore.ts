@@ -0,0 +1,47 @@
+import type { TrackedWallet } from "@/lib/address";
+import type { CostBasisMethod } from "@/lib/costBasis";
+import type { FiatCurrency } from "@/lib/currency";
+import { fromJson, getDb, toJson } from "@/lib/db";
+
+/** Known server-side settings; values are stored as JSON. */
+export type Settings = {
+  /** When lifetime TFUEL tracking first started (ms since epoch). */
+  lifetimeStartedAt?: number;
+  /** Lot matching method per tax year ("2025": "fifo"); unset years use FIFO. */
+  costBasisMethods?: Record<string, CostBasisMethod>;
+  /** Wallets shown across the app, in display order. */
+  trackedWallets?: TrackedWallet[];
+  /** Fiat currency prices and values are shown in. */
+  quoteCurrency?: FiatCurrency;
+};
+
+export function getSettings(): Settings {
+  const rows = getDb().prepare(`SELECT key, value FROM settings`).all() as Array<{
+    key: string;
+    value: string;
+  }>;
+  return Object.fromEntries(rows.map((r) => [r.key, fromJson(r.value, null)]));
+}
+
+export function getSetting<K extends keyof Settings>(key: K): Settings[K] {
+  const row = getDb().prepare(`SELECT value FROM settings WHERE key = ?`).get(key) as
+    | { value: string }
+    | undefined;
+  return fromJson<Settings[K]>(row?.value, undefined);
+}
+
+/** Stores `value` under `key`; null/undefined removes the setting. */
+export function setSetting<K extends keyof Settings>(
+  key: K,
+  value: Settings[K] | null,
+) {
+  const db = getDb();
+  if (value == null) {
+    db.prepare(`DELETE FROM settings WHERE key = ?`).run(key);
+    return;
+  }
+  db.prepare(
+    `INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+  ).run(key, toJson(value), Date.now());
+}
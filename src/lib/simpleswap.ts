@@ -0,0 +1,310 @@
+import { errorMessage, fetchJson, UpstreamError } from "@/lib/http";
+import { getToken } from "@/lib/tokens";
+
+const SIMPLESWAP_API = "https://api.simpleswap.io";
+
+/** `SIMPLESWAP_API_URL` points the client elsewhere, e.g. at scripts/fake-simpleswap.mjs. */
+function apiUrl(path: string): URL {
+  const base = process.env.SIMPLESWAP_API_URL?.trim().replace(/\/+$/, "") || SIMPLESWAP_API;
+  return new URL(`${base}${path}`);
+}
+
+/** Maps a configured token to its SimpleSwap code; other codes (usdc, …) pass through. */
+export function toSimpleSwapCode(symbol: string): string {
+  const token = getToken(symbol);
+  if (!token) return symbol.trim().toLowerCase();
+  if (!token.simpleswapCode) {
+    throw new SimpleSwapError(`${token.label} is not available on SimpleSwap`);
+  }
+  return token.simpleswapCode;
+}
+
+export class SimpleSwapError extends UpstreamError {
+  /** Minimum input amount, when SimpleSwap rejected the amount as too small. */
+  readonly minAmount: number | null;
+
+  constructor(
+    message: string,
+    opts: { status?: number | null; details?: string; minAmount?: number | null } = {},
+  ) {
+    super("SimpleSwap", message, opts);
+    this.name = "SimpleSwapError";
+    this.minAmount = opts.minAmount ?? null;
+  }
+}
+
+export function hasApiKey(): boolean {
+  return Boolean(process.env.SIMPLESWAP_API_KEY);
+}
+
+function requireApiKey(): string {
+  const apiKey = process.env.SIMPLESWAP_API_KEY;
+  if (!apiKey) throw new SimpleSwapError("Missing SIMPLESWAP_API_KEY");
+  return apiKey;
+}
+
+function parseMinFromDescription(desc: string): number | null {
+  const m = desc.match(/Min:\s*([0-9.]+)/i);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseMinAmount(details: string | undefined): number | null {
+  if (!details) return null;
+  try {
+    const parsed = JSON.parse(details) as unknown;
+    if (
+      parsed &&
+      typeof parsed === "object" &&
+      typeof (parsed as { description?: unknown }).description === "string"
+    ) {
+      return parseMinFromDescription((parsed as { description: string }).description);
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+function toFiniteNumber(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+/** `get_estimated` answers with a bare number, a numeric string or `{ estimated_amount }`. */
+export function parseEstimated(data: unknown): number | null {
+  if (data && typeof data === "object" && "estimated_amount" in data) {
+    return toFiniteNumber((data as { estimated_amount: unknown }).estimated_amount);
+  }
+  return toFiniteNumber(data);
+}
+
+/** `fetchJson` that rethrows upstream failures as `SimpleSwapError`. */
+async function simpleSwapFetch(
+  url: URL,
+  init: Parameters<typeof fetchJson>[2] = {},
+): Promise<unknown> {
+  try {
+    return await fetchJson<unknown>("SimpleSwap", url, init);
+  } catch (e) {
+    if (e instanceof UpstreamError) {
+      throw new SimpleSwapError(e.message, {
+        status: e.status,
+        details: e.details,
+        minAmount: parseMinAmount(e.details),
+      });
+    }
+    throw e;
+  }
+}
+
+export async function getEstimated(params: {
+  from: string;
+  to: string;
+  amount: number;
+  /** Ask for a fixed-rate estimate instead of a floating one. */
+  fixed?: boolean;
+  signal?: AbortSignal;
+}): Promise<number> {
+  const url = apiUrl("/get_estimated");
+  url.searchParams.set("currency_from", toSimpleSwapCode(params.from));
+  url.searchParams.set("currency_to", toSimpleSwapCode(params.to));
+  url.searchParams.set("amount", String(params.amount));
+  url.searchParams.set("fixed", String(params.fixed ?? false));
+  url.searchParams.set("api_key", requireApiKey());
+
+  const data = await simpleSwapFetch(url, { cache: "no-store", signal: params.signal });
+
+  const estimated = parseEstimated(data);
+  if (estimated == null) throw new SimpleSwapError("Unexpected SimpleSwap response");
+  return estimated;
+}
+
+export type EstimateOutcome = {
+  estimated: number | null;
+  minAmount: number | null;
+  error?: string;
+};
+
+/** `getEstimated` that reports failures instead of throwing, for side-by-side quotes. */
+export async function tryEstimate(
+  params: Parameters<typeof getEstimated>[0],
+): Promise<EstimateOutcome> {
+  try {
+    return { estimated: await getEstimated(params), minAmount: null };
+  } catch (e) {
+    return {
+      estimated: null,
+      minAmount: e instanceof SimpleSwapError ? e.minAmount : null,
+      error: errorMessage(e),
+    };
+  }
+}
+
+/** How long SimpleSwap honours a fixed rate once the exchange is created. */
+export const FIXED_RATE_VALIDITY_MS = 15 * 60 * 1000;
+
+/** A fixed-rate estimate next to the floating one for the same amount. */
+export type FixedRateQuote = {
+  estimated: number | null;
+  /** What the guaranteed rate costs over floating; negative when fixed pays more. */
+  premium: number | null;
+  premiumPct: number | null;
+  /**
+   * How long the rate is held once an exchange is created. An estimate locks
+   * nothing, so the window only starts with the exchange.
+   */
+  heldForMs: number | null;
+  minAmount: number | null;
+  error?: string;
+};
+
+export function compareFixedRate(fixed: EstimateOutcome, floating: number | null): FixedRateQuote {
+  const premium =
+    fixed.estimated == null || floating == null ? null : floating - fixed.estimated;
+  return {
+    estimated: fixed.estimated,
+    premium,
+    premiumPct:
+      premium == null || floating == null || floating <= 0 ? null : (premium / floating) * 100,
+    heldForMs: fixed.estimated == null ? null : FIXED_RATE_VALIDITY_MS,
+    minAmount: fixed.minAmount,
+    error: fixed.error,
+  };
+}
+
+export type SimpleSwapCurrency = {
+  symbol?: string;
+  name?: string;
+  network?: string;
+  code?: string;
+};
+
+export async function getAllCurrencies(): Promise<SimpleSwapCurrency[]> {
+  const url = apiUrl("/get_all_currencies");
+  url.searchParams.set("api_key", requireApiKey());
+
+  const data = await fetchJson<unknown>("SimpleSwap", url, {
+    next: { revalidate: 60 },
+  });
+  if (!Array.isArray(data)) throw new SimpleSwapError("Unexpected SimpleSwap response");
+
+  return data
+    .filter((c): c is Record<string, unknown> => Boolean(c) && typeof c === "object")
+    .map((c) => ({
+      symbol: typeof c.symbol === "string" ? c.symbol : undefined,
+      name: typeof c.name === "string" ? c.name : undefined,
+      network: typeof c.network === "string" ? c.network : undefined,
+      code: typeof c.code === "string" ? c.code : undefined,
+    }));
+}
+
+/** Exchange states SimpleSwap reports, roughly in the order an exchange goes through them. */
+export const EXCHANGE_STATUSES = [
+  "waiting",
+  "confirming",
+  "verifying",
+  "exchanging",
+  "sending",
+  "finished",
+  "failed",
+  "refunded",
+  "expired",
+] as const;
+
+export type ExchangeStatus = (typeof EXCHANGE_STATUSES)[number];
+
+/** Statuses after which an exchange never changes again. */
+export function isFinalExchangeStatus(status: ExchangeStatus): boolean {
+  return status === "finished" || status === "failed" || status === "refunded" || status === "expired";
+}
+
+export type SimpleSwapExchange = {
+  id: string;
+  status: ExchangeStatus;
+  fixed: boolean;
+  currencyFrom: string;
+  currencyTo: string;
+  amountFrom: number;
+  /** What SimpleSwap expected to pay out when the exchange was created. */
+  expectedAmount: number | null;
+  /** What was actually paid out, once known. */
+  amountTo: number | null;
+  /** Where to send `amountFrom`. */
+  depositAddress: string;
+  depositExtraId: string | null;
+  addressTo: string;
+  refundAddress: string | null;
+  txFrom: string | null;
+  txTo: string | null;
+};
+
+function optionalString(v: unknown): string | null {
+  return typeof v === "string" && v.trim() ? v : null;
+}
+
+function parseExchange(data: unknown): SimpleSwapExchange {
+  const d = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const id = optionalString(d.id);
+  const depositAddress = optionalString(d.address_from);
+  const amountFrom = toFiniteNumber(d.amount_from);
+  if (!id || !depositAddress || amountFrom == null) {
+    throw new SimpleSwapError("Unexpected SimpleSwap response");
+  }
+
+  const status = EXCHANGE_STATUSES.find((s) => s === d.status) ?? "waiting";
+  return {
+    id,
+    status,
+    fixed: d.type === "fixed",
+    currencyFrom: String(d.currency_from ?? ""),
+    currencyTo: String(d.currency_to ?? ""),
+    amountFrom,
+    expectedAmount: toFiniteNumber(d.expected_amount),
+    amountTo: toFiniteNumber(d.amount_to),
+    depositAddress,
+    depositExtraId: optionalString(d.extra_id_from),
+    addressTo: String(d.address_to ?? ""),
+    refundAddress: optionalString(d.user_refund_address),
+    txFrom: optionalString(d.tx_from),
+    txTo: optionalString(d.tx_to),
+  };
+}
+
+export async function createExchange(params: {
+  from: string;
+  to: string;
+  amount: number;
+  fixed: boolean;
+  addressTo: string;
+  refundAddress?: string | null;
+}): Promise<SimpleSwapExchange> {
+  const url = apiUrl("/create_exchange");
+  url.searchParams.set("api_key", requireApiKey());
+
+  const data = await simpleSwapFetch(url, {
+    method: "POST",
+    cache: "no-store",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      fixed: params.fixed,
+      currency_from: toSimpleSwapCode(params.from),
+      currency_to: toSimpleSwapCode(params.to),
+      amount: params.amount,
+      address_to: params.addressTo,
+      extra_id_to: "",
+      user_refund_address: params.refundAddress ?? "",
+      user_refund_extra_id: "",
+    }),
+  });
+  return parseExchange(data);
+}
+
+export async function getExchange(id: string): Promise<SimpleSwapExchange> {
+  const url = apiUrl("/get_exchange");
+  url.searchParams.set("id", id);
+  url.searchParams.set("api_key", requireApiKey());
+
+  return parseExchange(await simpleSwapFetch(url, { cache: "no-store" }));
+}
@@ -0,0 +1,59 @@
+export type StableAsset = "usdc" | "usdt";
+
+export const STABLE_ASSETS: StableAsset[] = ["usdc", "usdt"];
+
+/**
+ * Chains we know how to label; SimpleSwap lists each stablecoin once per
+ * chain. `assets` narrows a chain to the stablecoins something can quote there.
+ */
+export const STABLE_NETWORKS = [
+  { id: "sol", label: "Solana", color: "#7c3aed", match: /^(sol|solana|spl)$/i },
+  { id: "eth", label: "Ethereum", color: "#38bdf8", match: /^(eth|ethereum|erc20)$/i },
+  { id: "matic", label: "Polygon", color: "#8247e5", match: /^(matic|polygon|pol)$/i },
+  { id: "arb", label: "Arbitrum", color: "#28a0f0", match: /^(arb|arbitrum)/i },
+  { id: "base", label: "Base", color: "#0052ff", match: /^base$/i },
+  { id: "bsc", label: "BNB Chain", color: "#f0b90b", match: /^(bsc|bep20|bnb ?smart ?chain)$/i },
+  { id: "trx", label: "Tron", color: "#ef0027", match: /^(trx|tron|trc20)$/i },
+  { id: "theta", label: "Theta", color: "#2ab8e6", match: /^(theta|tnt20)$/i, assets: ["usdc"] },
+] as const;
+
+type StableNetwork = (typeof STABLE_NETWORKS)[number];
+
+export type StableNetworkId = StableNetwork["id"];
+
+type NetworkAsset<N> = N extends { assets: readonly (infer A)[] } ? A : StableAsset;
+
+/** A stablecoin on one chain, e.g. `usdc-sol` or `usdt-trx`. */
+export type FeeTarget = {
+  [N in StableNetwork as N["id"]]: `${NetworkAsset<N> & string}-${N["id"]}`;
+}[StableNetworkId];
+
+function carries(network: StableNetwork, asset: StableAsset): boolean {
+  return !("assets" in network) || (network.assets as readonly string[]).includes(asset);
+}
+
+export const FEE_TARGETS: FeeTarget[] = STABLE_ASSETS.flatMap((asset) =>
+  STABLE_NETWORKS.filter((n) => carries(n, asset)).map((n) => `${asset}-${n.id}` as FeeTarget),
+);
+
+export function parseFeeTarget(raw: unknown): FeeTarget | null {
+  const id = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+  return FEE_TARGETS.find((t) => t === id) ?? null;
+}
+
+export function stableNetworkFor(network: string): StableNetwork | null {
+  return STABLE_NETWORKS.find((n) => n.match.test(network.trim())) ?? null;
+}
+
+function networkOf(to: FeeTarget) {
+  const id = to.slice(to.indexOf("-") + 1);
+  return STABLE_NETWORKS.find((n) => n.id === id) ?? STABLE_NETWORKS[0];
+}
+
+export function feeTargetLabel(to: FeeTarget): string {
+  return `${to.slice(0, to.indexOf("-")).toUpperCase()} (${networkOf(to).label})`;
+}
+
+export function feeTargetColor(to: FeeTarget): string {
+  return networkOf(to).color;
+}
@@ -0,0 +1,214 @@
+import {
+  txHeight,
+  txTimestamp,
+  TX_TYPE,
+  weiToNumber,
+  type ExplorerStakeResponse,
+  type ExplorerTx,
+} from "@/lib/thetaExplorer";
+
+/** Approximate Theta block time, used to turn block heights into wall-clock estimates. */
+export const THETA_BLOCK_TIME_SEC = 6;
+
+/** Blocks between a withdraw request and the stake's return (the chain's return locking period). */
+export const RETURN_LOCKING_BLOCKS = 28_800;
+
+export type StakeKind = "guardian" | "validator" | "een";
+
+export const STAKE_KINDS: Record<
+  StakeKind,
+  { label: string; token: "theta" | "tfuel"; explorerType: string; purpose: number }
+> = {
+  guardian: { label: "Guardian", token: "theta", explorerType: "gcp", purpose: 1 },
+  validator: { label: "Validator", token: "theta", explorerType: "vcp", purpose: 0 },
+  een: { label: "Elite Edge Node", token: "tfuel", explorerType: "eenp", purpose: 2 },
+};
+
+export type StakePosition = {
+  kind: StakeKind;
+  /** The node the stake is delegated to. */
+  holder: string;
+  /** THETA for guardian/validator stakes, TFUEL for EEN stakes. */
+  amount: number;
+  withdrawn: boolean;
+  /** Block height at which a withdrawn stake is returned. */
+  returnHeight: number | null;
+};
+
+export type StakeTotals = Record<StakeKind, number>;
+
+function stakeKindOf(explorerType: string | undefined): StakeKind | null {
+  const entry = Object.entries(STAKE_KINDS).find(([, k]) => k.explorerType === explorerType);
+  return entry ? (entry[0] as StakeKind) : null;
+}
+
+/** Stakes where `address` is the source (the wallet that staked). */
+export function parseStakePositions(stake: ExplorerStakeResponse): StakePosition[] {
+  return (stake.body?.sourceRecords ?? []).flatMap((r) => {
+    const kind = stakeKindOf(r.type);
+    const amount = r.amount ? weiToNumber(r.amount, 18) : null;
+    if (!kind || amount == null) return [];
+
+    const returnHeight = r.return_height ? Number(r.return_height) : null;
+    return [
+      {
+        kind,
+        holder: r.holder?.toLowerCase() ?? "",
+        amount,
+        withdrawn: r.withdrawn === true,
+        returnHeight:
+          returnHeight != null && Number.isFinite(returnHeight) && returnHeight > 0
+            ? returnHeight
+            : null,
+      },
+    ];
+  });
+}
+
+/** Active (not withdrawn) stake per kind. */
+export function stakeTotals(positions: StakePosition[]): StakeTotals {
+  const totals: StakeTotals = { guardian: 0, validator: 0, een: 0 };
+  for (const p of positions) if (!p.withdrawn) totals[p.kind] += p.amount;
+  return totals;
+}
+
+/** Stable id for a position; a withdrawal is identified by its return height. */
+export function stakePositionKey(address: string, p: StakePosition): string {
+  return [address, p.kind, p.holder, p.returnHeight ?? "active"].join(":");
+}
+
+export type StakeStatus = "active" | "unstaking" | "returned";
+
+/** Where a position is in the withdrawal lifecycle at `currentHeight`. */
+export function stakeStatus(p: StakePosition, currentHeight: number | null): StakeStatus {
+  if (!p.withdrawn) return "active";
+  if (p.returnHeight != null && currentHeight != null && currentHeight >= p.returnHeight) {
+    return "returned";
+  }
+  return "unstaking";
+}
+
+/** Estimated wall-clock time (ms) of block `height`, past or future. */
+export function estimateHeightTime(
+  height: number | null,
+  currentHeight: number | null,
+  nowMs = Date.now(),
+): number | null {
+  if (height == null || currentHeight == null) return null;
+  return nowMs + (height - currentHeight) * THETA_BLOCK_TIME_SEC * 1000;
+}
+
+/** Estimated time (ms) at which a withdrawn stake becomes liquid; `nowMs` once it has. */
+export function estimateUnlockAt(
+  returnHeight: number | null,
+  currentHeight: number | null,
+  nowMs = Date.now(),
+): number | null {
+  const at = estimateHeightTime(returnHeight, currentHeight, nowMs);
+  return at == null ? null : Math.max(nowMs, at);
+}
+
+export type StakeEvent = {
+  type: "deposit" | "withdraw" | "return";
+  kind: StakeKind;
+  holder: string;
+  amount: number | null;
+  height: number | null;
+  /** Unix seconds; estimated for returns that haven't happened yet. */
+  timestamp: number | null;
+  hash: string | null;
+  estimated: boolean;
+};
+
+function stakeKindOfPurpose(purpose: number | string | undefined): StakeKind | null {
+  const n = Number(purpose);
+  const entry = Object.entries(STAKE_KINDS).find(([, k]) => k.purpose === n);
+  return entry ? (entry[0] as StakeKind) : null;
+}
+
+/** A deposit or withdraw-request event from a stake transaction. */
+export function parseStakeTx(tx: ExplorerTx, type: number): StakeEvent | null {
+  const kind = stakeKindOfPurpose(tx.data?.purpose);
+  if (!kind) return null;
+
+  const coins = tx.data?.source?.coins;
+  const wei = STAKE_KINDS[kind].token === "tfuel" ? coins?.tfuelwei : coins?.thetawei;
+  const amount = wei ? weiToNumber(wei, 18) : null;
+
+  return {
+    type: type === TX_TYPE.withdrawStake ? "withdraw" : "deposit",
+    kind,
+    holder: tx.data?.holder?.address?.toLowerCase() ?? "",
+    // Withdraw requests don't always carry an amount.
+    amount: amount != null && amount > 0 ? amount : null,
+    height: txHeight(tx),
+    timestamp: txTimestamp(tx),
+    hash: tx.hash ?? null,
+    estimated: false,
+  };
+}
+
+/**
+ * Return events for a wallet's withdraw requests. The explorer stops listing
+ * a stake once it's returned, so each request's return is placed at its
+ * height plus the locking period; withdrawals still listed supply their exact
+ * return height and amount. Times are estimated from block heights.
+ */
+export function stakeReturnEvents(
+  withdrawals: StakeEvent[],
+  positions: StakePosition[],
+  currentHeight: number | null,
+  nowMs = Date.now(),
+): StakeEvent[] {
+  const listed = positions.filter((p) => p.withdrawn && p.returnHeight != null);
+  const matched = new Set<StakePosition>();
+
+  const toEvent = (
+    kind: StakeKind,
+    holder: string,
+    amount: number | null,
+    height: number,
+  ): StakeEvent => {
+    const at = estimateHeightTime(height, currentHeight, nowMs);
+    return {
+      type: "return",
+      kind,
+      holder,
+      amount,
+      height,
+      timestamp: at == null ? null : Math.floor(at / 1000),
+      hash: null,
+      estimated: true,
+    };
+  };
+
+  const returns = withdrawals.flatMap((w) => {
+    if (w.type !== "withdraw" || w.height == null) return [];
+    const requestedAt = w.height;
+    const position = listed.find(
+      (p) =>
+        !matched.has(p) &&
+        p.kind === w.kind &&
+        p.holder === w.holder &&
+        (p.returnHeight ?? 0) > requestedAt &&
+        (p.returnHeight ?? 0) <= requestedAt + RETURN_LOCKING_BLOCKS * 2,
+    );
+    if (position) matched.add(position);
+    return [
+      toEvent(
+        w.kind,
+        w.holder,
+        position?.amount ?? w.amount,
+        position?.returnHeight ?? requestedAt + RETURN_LOCKING_BLOCKS,
+      ),
+    ];
+  });
+
+  // Withdrawals whose request is older than the pages fetched.
+  for (const p of listed) {
+    if (!matched.has(p) && p.returnHeight != null) {
+      returns.push(toEvent(p.kind, p.holder, p.amount, p.returnHeight));
+    }
+  }
+  return returns;
+}
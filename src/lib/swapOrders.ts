@@ -0,0 +1,90 @@
+import { errorMessage } from "@/lib/http";
+import { resolveFeeDestination } from "@/lib/networkFees";
+import {
+  getSwapOrder,
+  listSwapOrders,
+  saveSwapOrder,
+  updateSwapOrder,
+  type SwapOrder,
+} from "@/lib/orderStore";
+import { createExchange, getExchange, SimpleSwapError } from "@/lib/simpleswap";
+import { feeTargetLabel, parseFeeTarget, type FeeTarget } from "@/lib/stableNetworks";
+import { getToken } from "@/lib/tokens";
+
+export type NewSwapOrder = {
+  symbol: string;
+  to: FeeTarget;
+  amount: number;
+  fixed: boolean;
+  addressTo: string;
+  refundAddress: string | null;
+};
+
+function parseAddress(raw: unknown): string | null {
+  const v = typeof raw === "string" ? raw.trim() : "";
+  return v && v.length <= 128 && !/\s/.test(v) ? v : null;
+}
+
+/** Validates a create request body; SimpleSwap checks the addresses themselves. */
+export function parseSwapOrderInput(body: Record<string, unknown> | null): NewSwapOrder | null {
+  if (!body) return null;
+  const symbol = typeof body.symbol === "string" ? body.symbol.trim().toLowerCase() : "";
+  const to = parseFeeTarget(body.to);
+  const amount = typeof body.amount === "number" ? body.amount : Number(body.amount);
+  const addressTo = parseAddress(body.addressTo);
+  if (!getToken(symbol) || !to || !addressTo || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+
+  const refundRaw = typeof body.refundAddress === "string" ? body.refundAddress.trim() : "";
+  const refundAddress = refundRaw ? parseAddress(refundRaw) : null;
+  if (refundRaw && !refundAddress) return null;
+
+  return { symbol, to, amount, fixed: body.fixed === true, addressTo, refundAddress };
+}
+
+export async function createSwapOrder(input: NewSwapOrder): Promise<SwapOrder> {
+  const destination = await resolveFeeDestination(input.to);
+  if (!destination) {
+    throw new SimpleSwapError(`${feeTargetLabel(input.to)} is not listed on SimpleSwap`);
+  }
+
+  const exchange = await createExchange({
+    from: input.symbol,
+    to: destination.code,
+    amount: input.amount,
+    fixed: input.fixed,
+    addressTo: input.addressTo,
+    refundAddress: input.refundAddress,
+  });
+  return saveSwapOrder(exchange, { symbol: input.symbol, to: destination.to });
+}
+
+// Polling clients shouldn't turn into one SimpleSwap call per request.
+const STATUS_TTL_MS = 10_000;
+
+/** Fetches the order's status from SimpleSwap unless it's final or was just checked. */
+export async function refreshSwapOrder(id: string): Promise<SwapOrder | null> {
+  const order = getSwapOrder(id);
+  if (!order || order.final) return order;
+  if (order.checkedAt != null && Date.now() - order.checkedAt < STATUS_TTL_MS) return order;
+  return updateSwapOrder(await getExchange(id)) ?? order;
+}
+
+/** The order history, newest first, with open orders refreshed. */
+export async function listSwapOrdersFresh(
+  limit: number,
+): Promise<{ orders: SwapOrder[]; error?: string }> {
+  let error: string | undefined;
+  const orders = await Promise.all(
+    listSwapOrders(limit).map(async (order) => {
+      try {
+        return (await refreshSwapOrder(order.id)) ?? order;
+      } catch (e) {
+        error = errorMessage(e);
+        return order;
+      }
+    }),
+  );
+  return { orders, error };
+}
@@ -0,0 +1,296 @@
+import { fetchSpotUsdc } from "@/lib/coingecko";
+import { fetchBinanceTicker, fetchGateTicker, fetchKuCoinTicker } from "@/lib/exchanges";
+import { errorMessage } from "@/lib/http";
+import { discoverFeeDestinations } from "@/lib/networkFees";
+import { getEstimated, SimpleSwapError } from "@/lib/simpleswap";
+import { feeTargetLabel, type FeeTarget } from "@/lib/stableNetworks";
+import {
+  isThetaSwapConfigured,
+  parseDexToken,
+  quoteThetaSwap,
+  quoteThetaSwapPath,
+  thetaSwapPaths,
+} from "@/lib/thetaSwap";
+import { getPricingToken, tokenLabel, type ExchangeId } from "@/lib/tokens";
+
+export type RouteVenue =
+  | "simpleswap-floating"
+  | "simpleswap-fixed"
+  | "thetaswap"
+  | "binance"
+  | "kucoin"
+  | "gate";
+
+type VenueQuote = {
+  amountOut: number | null;
+  minAmount: number | null;
+  /** Venues that report their own impact (the DEX) skip the probe-based estimate. */
+  priceImpactPct?: number;
+  error?: string;
+};
+
+type Venue = {
+  id: RouteVenue;
+  label: string;
+  /** Ticker estimates ignore depth, so they can't be split across or trusted for size. */
+  indicative: boolean;
+  note?: string;
+  quote: (amount: number) => Promise<VenueQuote>;
+  /** Separate pools behind the venue, which a split can fill independently. */
+  legs?: Venue[];
+};
+
+export type RouteQuote = {
+  venue: RouteVenue;
+  label: string;
+  indicative: boolean;
+  amountOut: number | null;
+  /** Shortfall against CoinGecko spot, in the destination stablecoin. */
+  feeUsdc: number | null;
+  feePct: number | null;
+  minAmount: number | null;
+  /** Quoted and the amount is within the venue's limits. */
+  eligible: boolean;
+  /** How much worse the rate is at this size than at a tenth of it. */
+  slippagePct: number | null;
+  note?: string;
+  error?: string;
+};
+
+export type SplitLeg = { venue: RouteVenue; label: string; amount: number; amountOut: number };
+
+export type SplitPlan = {
+  legs: SplitLeg[];
+  amountOut: number;
+  /** Extra output over the best single route. */
+  gain: number;
+  gainPct: number;
+};
+
+export type RouteResult = {
+  symbol: string;
+  amount: number;
+  to: FeeTarget;
+  spotUsdc: number | null;
+  /** Firm quotes by output, then ticker estimates, then routes that can't take the amount. */
+  routes: RouteQuote[];
+  split: SplitPlan | null;
+};
+
+/** Taker fee assumed for exchange ticker estimates. */
+const CEX_TAKER_FEE = 0.001;
+/** The split search hands out the amount in this many equal slices. */
+const SPLIT_SLICES = 4;
+
+const CEX_TICKERS: Array<{
+  id: ExchangeId;
+  label: string;
+  fetch: (symbol: string) => Promise<number>;
+}> = [
+  { id: "binance", label: "Binance", fetch: fetchBinanceTicker },
+  { id: "kucoin", label: "KuCoin", fetch: fetchKuCoinTicker },
+  { id: "gate", label: "Gate", fetch: fetchGateTicker },
+];
+
+/** Memoizes per-amount quotes so ranking, slippage and splits share calls. */
+function memoQuote(fn: (amount: number) => Promise<VenueQuote>) {
+  const seen = new Map<number, Promise<VenueQuote>>();
+  return (amount: number) => {
+    const key = Math.round(amount * 1e6) / 1e6;
+    let p = seen.get(key);
+    if (!p) {
+      p = fn(key).catch((e) => ({ amountOut: null, minAmount: null, error: errorMessage(e) }));
+      seen.set(key, p);
+    }
+    return p;
+  };
+}
+
+async function buildVenues(symbol: string, to: FeeTarget): Promise<Venue[]> {
+  const venues: Venue[] = [];
+
+  const destination = (await discoverFeeDestinations()).find((d) => d.to === to);
+  for (const fixed of [false, true]) {
+    venues.push({
+      id: fixed ? "simpleswap-fixed" : "simpleswap-floating",
+      label: fixed ? "SimpleSwap (fixed)" : "SimpleSwap (floating)",
+      indicative: false,
+      quote: memoQuote(async (amount) => {
+        if (!destination) throw new Error(`${feeTargetLabel(to)} is not listed on SimpleSwap`);
+        try {
+          const out = await getEstimated({ from: symbol, to: destination.code, amount, fixed });
+          return { amountOut: out, minAmount: null };
+        } catch (e) {
+          const minAmount = e instanceof SimpleSwapError ? e.minAmount : null;
+          return { amountOut: null, minAmount, error: errorMessage(e) };
+        }
+      }),
+    });
+  }
+
+  const dexFrom = parseDexToken(symbol);
+  if (to === "usdc-theta" && dexFrom === "tfuel" && isThetaSwapConfigured()) {
+    venues.push({
+      id: "thetaswap",
+      label: "ThetaSwap",
+      indicative: false,
+      quote: memoQuote(async (amount) => {
+        const q = await quoteThetaSwap(dexFrom, "usdc", amount);
+        if (!q) throw new Error("No ThetaSwap pools connect TFUEL and USDC");
+        return { amountOut: q.amountOut, minAmount: null, priceImpactPct: q.priceImpactPct };
+      }),
+      legs: thetaSwapPaths(dexFrom, "usdc").map((path) => {
+        const route = path.map((t) => tokenLabel(t)).join(" → ");
+        return {
+          id: "thetaswap",
+          label: `ThetaSwap (${route})`,
+          indicative: false,
+          quote: memoQuote(async (amount) => {
+            const q = await quoteThetaSwapPath(path, amount);
+            if (!q) throw new Error(`No ThetaSwap pools for ${route}`);
+            return { amountOut: q.amountOut, minAmount: null };
+          }),
+        };
+      }),
+    });
+  }
+
+  const token = getPricingToken(symbol);
+  for (const cex of CEX_TICKERS) {
+    if (!token?.tickers[cex.id]) continue;
+    venues.push({
+      id: cex.id,
+      label: cex.label,
+      indicative: true,
+      note: "Ticker estimate; excludes order book depth, withdrawal fees and transfer time",
+      quote: memoQuote(async (amount) => {
+        const price = await cex.fetch(symbol);
+        return { amountOut: amount * price * (1 - CEX_TAKER_FEE), minAmount: null };
+      }),
+    });
+  }
+
+  return venues;
+}
+
+async function slippagePct(venue: Venue, amount: number, quote: VenueQuote) {
+  if (quote.amountOut == null || venue.indicative) return null;
+  if (quote.priceImpactPct != null) return quote.priceImpactPct;
+
+  const reference = Math.max(amount / 10, quote.minAmount ?? 0);
+  if (reference >= amount) return 0;
+  const small = await venue.quote(reference);
+  if (small.amountOut == null || small.amountOut <= 0) return null;
+  const rate = quote.amountOut / amount;
+  const referenceRate = small.amountOut / reference;
+  return Math.max(0, (1 - rate / referenceRate) * 100);
+}
+
+/** Every way to hand out `slices` across `n` venues. */
+function allocations(n: number, slices: number): number[][] {
+  if (n === 1) return [[slices]];
+  const out: number[][] = [];
+  for (let k = 0; k <= slices; k++) {
+    for (const rest of allocations(n - 1, slices - k)) out.push([k, ...rest]);
+  }
+  return out;
+}
+
+async function findSplit(
+  venues: Venue[],
+  amount: number,
+  bestSingle: number,
+): Promise<SplitPlan | null> {
+  let best: SplitPlan | null = null;
+  for (const alloc of allocations(venues.length, SPLIT_SLICES)) {
+    if (alloc.filter((k) => k > 0).length < 2) continue;
+
+    const legs: SplitLeg[] = [];
+    let complete = true;
+    for (let i = 0; i < venues.length; i++) {
+      if (alloc[i] === 0) continue;
+      const legAmount = (amount * alloc[i]) / SPLIT_SLICES;
+      const q = await venues[i].quote(legAmount);
+      if (q.amountOut == null) {
+        complete = false;
+        break;
+      }
+      legs.push({
+        venue: venues[i].id,
+        label: venues[i].label,
+        amount: legAmount,
+        amountOut: q.amountOut,
+      });
+    }
+    if (!complete) continue;
+
+    const total = legs.reduce((a, l) => a + l.amountOut, 0);
+    if (total > bestSingle && (!best || total > best.amountOut)) {
+      const gain = total - bestSingle;
+      best = { legs, amountOut: total, gain, gainPct: (gain / bestSingle) * 100 };
+    }
+  }
+  return best;
+}
+
+/**
+ * Quotes selling `amount` of `symbol` into `to` on every venue that can
+ * deliver it, ranked by output. When the best route loses more than
+ * `maxSlippagePct` to size, also looks for a split across the venues and
+ * ThetaSwap pools with real quotes (ticker estimates are left out) that beats it.
+ */
+export async function findRoutes(
+  symbol: string,
+  amount: number,
+  to: FeeTarget,
+  maxSlippagePct: number,
+): Promise<RouteResult> {
+  const [spotUsdc, venues] = await Promise.all([fetchSpotUsdc(symbol), buildVenues(symbol, to)]);
+
+  const routes = await Promise.all(
+    venues.map(async (venue): Promise<RouteQuote> => {
+      const q = await venue.quote(amount);
+      const spotValue = spotUsdc == null ? null : spotUsdc * amount;
+      const feeUsdc =
+        spotValue == null || q.amountOut == null ? null : Math.max(0, spotValue - q.amountOut);
+      return {
+        venue: venue.id,
+        label: venue.label,
+        indicative: venue.indicative,
+        amountOut: q.amountOut,
+        feeUsdc,
+        feePct: feeUsdc == null || !spotValue ? null : (feeUsdc / spotValue) * 100,
+        minAmount: q.minAmount,
+        eligible: q.amountOut != null && (q.minAmount == null || amount >= q.minAmount),
+        slippagePct: await slippagePct(venue, amount, q),
+        note: venue.note,
+        error: q.error,
+      };
+    }),
+  );
+
+  // Firm quotes outrank ticker estimates, which always look cheaper than they are.
+  const tier = (r: RouteQuote) => (r.eligible ? (r.indicative ? 1 : 2) : 0);
+  routes.sort(
+    (a, b) => tier(b) - tier(a) || (b.amountOut ?? -Infinity) - (a.amountOut ?? -Infinity),
+  );
+
+  // Fixed and floating draw on the same SimpleSwap liquidity, so only the better one
+  // joins a split. ThetaSwap splits across its pools, which are separate liquidity.
+  const firm = routes.filter((r) => r.eligible && !r.indicative);
+  const best = firm[0];
+  let split: SplitPlan | null = null;
+  if (best?.amountOut != null && (best.slippagePct ?? 0) > maxSlippagePct) {
+    const simpleSwap = firm.find((r) => r.venue.startsWith("simpleswap"))?.venue;
+    const candidates = venues
+      .filter(
+        (v) =>
+          firm.some((r) => r.venue === v.id) &&
+          (!v.id.startsWith("simpleswap") || v.id === simpleSwap),
+      )
+      .flatMap((v) => v.legs ?? [v]);
+    if (candidates.length >= 2) split = await findSplit(candidates, amount, best.amountOut);
+  }
+
+  return { symbol, amount, to, spotUsdc, routes, split };
+}
@@ -0,0 +1,142 @@
+import { toCsv } from "@/lib/csv";
+import type { FiatCurrency } from "@/lib/currency";
+
+export type TaxExportFormat = "csv" | "koinly" | "cointracking";
+
+export const TAX_EXPORT_FORMATS: Array<{ id: TaxExportFormat; label: string }> = [
+  { id: "csv", label: "Generic CSV" },
+  { id: "koinly", label: "Koinly" },
+  { id: "cointracking", label: "CoinTracking" },
+];
+
+export function parseTaxExportFormat(raw: string | null): TaxExportFormat | null {
+  const id = (raw ?? "csv").trim().toLowerCase();
+  return TAX_EXPORT_FORMATS.some((f) => f.id === id) ? (id as TaxExportFormat) : null;
+}
+
+export type IncomeRow = {
+  address: string;
+  hash: string;
+  height: number;
+  /** Unix seconds. */
+  timestamp: number;
+  /** TFUEL. */
+  amount: number;
+  /** Fiat value at receipt, or null when no price was available. */
+  value: number | null;
+};
+
+/** `YYYY-MM-DD HH:mm:ss` in UTC. */
+function formatUtc(timestampSec: number): string {
+  return new Date(timestampSec * 1000).toISOString().slice(0, 19).replace("T", " ");
+}
+
+function amountText(v: number): string {
+  // Plain decimal — importers choke on exponent notation.
+  return v.toFixed(6).replace(/\.?0+$/, "");
+}
+
+function valueText(v: number | null): string {
+  return v == null ? "" : v.toFixed(2);
+}
+
+/** Staking income rows rendered in the requested importer's CSV layout. */
+export function buildTaxExport(
+  format: TaxExportFormat,
+  rows: IncomeRow[],
+  currency: FiatCurrency,
+): string {
+  const sorted = [...rows].sort((a, b) => a.timestamp - b.timestamp);
+
+  if (format === "koinly") {
+    // Koinly universal template; "reward" marks the row as staking income.
+    return toCsv(
+      [
+        "Date",
+        "Sent Amount",
+        "Sent Currency",
+        "Received Amount",
+        "Received Currency",
+        "Fee Amount",
+        "Fee Currency",
+        "Net Worth Amount",
+        "Net Worth Currency",
+        "Label",
+        "Description",
+        "TxHash",
+      ],
+      sorted.map((r) => [
+        `${formatUtc(r.timestamp)} UTC`,
+        "",
+        "",
+        amountText(r.amount),
+        "TFUEL",
+        "",
+        "",
+        valueText(r.value),
+        r.value == null ? "" : currency,
+        "reward",
+        `Theta staking reward to ${r.address}`,
+        r.hash,
+      ]),
+    );
+  }
+
+  if (format === "cointracking") {
+    return toCsv(
+      [
+        "Type",
+        "Buy Amount",
+        "Buy Currency",
+        "Sell Amount",
+        "Sell Currency",
+        "Fee",
+        "Fee Currency",
+        "Exchange",
+        "Trade-Group",
+        "Comment",
+        "Date",
+        "Tx-ID",
+        "Buy Value in Account Currency",
+      ],
+      sorted.map((r) => [
+        "Staking",
+        amountText(r.amount),
+        "TFUEL",
+        "",
+        "",
+        "",
+        "",
+        "Theta Network",
+        r.address,
+        `Block ${r.height}`,
+        formatUtc(r.timestamp),
+        r.hash,
+        valueText(r.value),
+      ]),
+    );
+  }
+
+  return toCsv(
+    [
+      "Date (UTC)",
+      "Wallet",
+      "Type",
+      "Amount",
+      "Asset",
+      `Value at receipt (${currency})`,
+      "Block height",
+      "Tx hash",
+    ],
+    sorted.map((r) => [
+      formatUtc(r.timestamp),
+      r.address,
+      "Staking reward",
+      amountText(r.amount),
+      "TFUEL",
+      valueText(r.value),
+      r.height,
+      r.hash,
+    ]),
+  );
+}
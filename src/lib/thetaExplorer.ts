@@ -0,0 +1,186 @@
+import { fetchJson } from "@/lib/http";
+
+const EXPLORER_API = "https://explorer-api.thetatoken.org/api";
+
+export function weiToNumber(wei: string, decimals: number): number | null {
+  try {
+    const bi = BigInt(wei);
+    const denom = BigInt(10) ** BigInt(decimals);
+    const whole = bi / denom;
+    const frac = bi % denom;
+    const frac6 = (frac * BigInt(1_000_000)) / denom;
+    return Number(whole) + Number(frac6) / 1_000_000;
+  } catch {
+    return null;
+  }
+}
+
+export type ExplorerAccountResponse = {
+  type?: string;
+  body?: {
+    address?: string;
+    balance?: {
+      thetawei?: string;
+      tfuelwei?: string;
+    };
+  };
+};
+
+export type ExplorerStakeResponse = {
+  type?: string;
+  body?: {
+    sourceRecords?: Array<{
+      /** "gcp" (guardian), "vcp" (validator) or "eenp" (elite edge node). */
+      type?: string;
+      holder?: string;
+      source?: string;
+      amount?: string;
+      withdrawn?: boolean;
+      return_height?: string;
+    }>;
+  };
+};
+
+type ExplorerTxIo = {
+  address?: string;
+  coins?: {
+    thetawei?: string;
+    tfuelwei?: string;
+  };
+};
+
+export type ExplorerTx = {
+  hash?: string;
+  type?: number;
+  block_height?: string;
+  timestamp?: string;
+  data?: {
+    /** Stake txs: the staking wallet, the node it's staked to, and the stake purpose. */
+    source?: ExplorerTxIo;
+    holder?: ExplorerTxIo;
+    purpose?: number | string;
+    fee?: ExplorerTxIo["coins"];
+    inputs?: ExplorerTxIo[];
+    outputs?: Array<{
+      address?: string;
+      coins?: {
+        tfuelwei?: string;
+      };
+    }>;
+  };
+};
+
+export type ExplorerAccountTxResponse = {
+  type?: string;
+  body?: ExplorerTx[];
+  totalPageNumber?: number;
+  currentPageNumber?: number;
+};
+
+function explorerGet<T>(path: string): Promise<T> {
+  return fetchJson<T>("Theta Explorer", `${EXPLORER_API}${path}`, {
+    next: { revalidate: 15 },
+  });
+}
+
+export function getAccount(address: string) {
+  return explorerGet<ExplorerAccountResponse>(`/account/${address}`);
+}
+
+export function getStake(address: string) {
+  return explorerGet<ExplorerStakeResponse>(`/stake/${address}`);
+}
+
+/** Theta transaction types as used by the explorer's `accounttx?type=` filter. */
+export const TX_TYPE = {
+  coinbase: 0,
+  send: 2,
+  depositStake: 8,
+  withdrawStake: 9,
+  depositStakeV2: 10,
+} as const;
+
+/** Transactions of one type touching `address`, newest first. */
+export function getAccountTxPage(
+  address: string,
+  type: number,
+  page: number,
+  limit: number,
+) {
+  return explorerGet<ExplorerAccountTxResponse>(
+    `/accounttx/${address}?type=${type}&pageNumber=${encodeURIComponent(
+      String(page),
+    )}&limitNumber=${encodeURIComponent(String(limit))}&isEqualType=true`,
+  );
+}
+
+/** Coinbase (type 0) transactions, newest first. */
+export function getCoinbaseTxPage(address: string, page: number, limit: number) {
+  return getAccountTxPage(address, TX_TYPE.coinbase, page, limit);
+}
+
+export function txHeight(tx: ExplorerTx): number | null {
+  const height = tx.block_height ? Number(tx.block_height) : null;
+  return height && Number.isFinite(height) ? height : null;
+}
+
+export function txTimestamp(tx: ExplorerTx): number | null {
+  const ts = tx.timestamp ? Number(tx.timestamp) : null;
+  return ts && Number.isFinite(ts) ? ts : null;
+}
+
+/** TFUEL paid to `address` by a coinbase transaction, or null when there is none. */
+export function coinbaseRewardFor(tx: ExplorerTx, address: string): number | null {
+  const outputs = tx.data?.outputs ?? [];
+  const match = outputs.find((o) => o.address?.toLowerCase() === address);
+  const tfuelwei = match?.coins?.tfuelwei;
+  if (!tfuelwei) return null;
+
+  const amt = weiToNumber(tfuelwei, 18);
+  return amt == null || amt <= 0 ? null : amt;
+}
+
+/**
+ * TFUEL that `address` sent to addresses outside `ownAddresses` in a send
+ * transaction; moves between your own wallets aren't disposals.
+ */
+export function outgoingTfuelFor(
+  tx: ExplorerTx,
+  address: string,
+  ownAddresses: ReadonlySet<string>,
+): number | null {
+  const inputs = tx.data?.inputs ?? [];
+  if (!inputs.some((i) => i.address?.toLowerCase() === address)) return null;
+
+  const external = (tx.data?.outputs ?? []).filter(
+    (o) => !ownAddresses.has(o.address?.toLowerCase() ?? ""),
+  );
+  const total = external
+    .map((o) => (o.coins?.tfuelwei ? weiToNumber(o.coins.tfuelwei, 18) : null))
+    .filter((v): v is number => v != null)
+    .reduce((a, b) => a + b, 0);
+  return total > 0 ? total : null;
+}
+
+/** TFUEL received by `address` in a send transaction it didn't fund. */
+export function incomingTfuelFor(tx: ExplorerTx, address: string): number | null {
+  const inputs = tx.data?.inputs ?? [];
+  if (inputs.some((i) => i.address?.toLowerCase() === address)) return null;
+
+  const total = (tx.data?.outputs ?? [])
+    .filter((o) => o.address?.toLowerCase() === address)
+    .map((o) => (o.coins?.tfuelwei ? weiToNumber(o.coins.tfuelwei, 18) : null))
+    .filter((v): v is number => v != null)
+    .reduce((a, b) => a + b, 0);
+  return total > 0 ? total : null;
+}
+
+/** TFUEL fee paid by `address`; the first input pays for the whole transaction. */
+export function tfuelFeeFor(tx: ExplorerTx, address: string): number | null {
+  const payer = tx.data?.inputs?.[0]?.address ?? tx.data?.source?.address;
+  if (payer?.toLowerCase() !== address) return null;
+
+  const tfuelwei = tx.data?.fee?.tfuelwei;
+  const fee = tfuelwei ? weiToNumber(tfuelwei, 18) : null;
+  return fee == null || fee <= 0 ? null : fee;
+}
@@ -0,0 +1,73 @@
+import { UpstreamError } from "@/lib/http";
+import { weiToNumber } from "@/lib/thetaExplorer";
+
+const THETA_RPC_URL =
+  process.env.THETA_RPC_URL ?? "https://eth-rpc-api.thetatoken.org/rpc";
+
+type JsonRpcResponse<T> = {
+  result?: T;
+  error?: { code?: number; message?: string };
+};
+
+export async function rpcCall<T>(method: string, params: unknown[]): Promise<T> {
+  const res = await fetch(THETA_RPC_URL, {
+    method: "POST",
+    headers: { accept: "application/json", "content-type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const txt = await res.text().catch(() => "");
+    const details = txt ? txt.slice(0, 300) : undefined;
+    throw new UpstreamError(
+      "Theta RPC",
+      details
+        ? `Theta RPC HTTP ${res.status}: ${details}`
+        : `Theta RPC HTTP ${res.status}`,
+      { status: res.status, details },
+    );
+  }
+
+  const json = (await res.json()) as JsonRpcResponse<T>;
+  if (json.error || json.result === undefined) {
+    throw new UpstreamError(
+      "Theta RPC",
+      `Theta RPC error: ${json.error?.message ?? "missing result"}`,
+    );
+  }
+  return json.result;
+}
+
+export function ethCall(to: string, data: string): Promise<string> {
+  return rpcCall<string>("eth_call", [{ to, data }, "latest"]);
+}
+
+/** Latest block height; the EVM adaptor numbers blocks like the native chain. */
+export async function getBlockHeight(): Promise<number> {
+  const hex = await rpcCall<string>("eth_blockNumber", []);
+  const height = Number.parseInt(hex, 16);
+  if (!Number.isFinite(height)) {
+    throw new UpstreamError("Theta RPC", `Theta RPC error: bad block number ${hex}`);
+  }
+  return height;
+}
+
+export function encodeAddress(address: string): string {
+  return address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
+const BALANCE_OF_SELECTOR = "0x70a08231";
+
+export async function getTnt20Balance(
+  contract: string,
+  owner: string,
+  decimals: number,
+): Promise<number | null> {
+  const result = await ethCall(
+    contract,
+    `${BALANCE_OF_SELECTOR}${encodeAddress(owner)}`,
+  );
+  if (!/^0x[0-9a-f]*$/i.test(result)) return null;
+  return weiToNumber(result === "0x" ? "0" : result, decimals);
+}
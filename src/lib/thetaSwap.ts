@@ -0,0 +1,200 @@
+import { ethCall, encodeAddress } from "@/lib/thetaRpc";
+import { weiToNumber } from "@/lib/thetaExplorer";
+import { getToken, tokenLabel } from "@/lib/tokens";
+
+// ThetaSwap is a Uniswap v2 fork; these are the v2 factory and pair selectors.
+const GET_PAIR_SELECTOR = "0xe6a43905";
+const GET_RESERVES_SELECTOR = "0x0902f1ac";
+const TOKEN0_SELECTOR = "0x0dfe1681";
+const DECIMALS_SELECTOR = "0x313ce567";
+
+const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
+
+/** Tokens a ThetaSwap quote can start or end at; TFUEL trades as wTFUEL. */
+export type DexToken = "tfuel" | "tdrop" | "usdc";
+
+type DexConfig = { factory: string; fee: number; tokens: Record<DexToken, string> };
+
+/**
+ * Factory and USDC addresses come from `THETASWAP_FACTORY` and
+ * `THETA_USDC_ADDRESS`; the pool fee from `THETASWAP_FEE_BPS` (default 30).
+ */
+function dexConfig(): DexConfig | null {
+  const factory = process.env.THETASWAP_FACTORY?.trim();
+  const usdc = process.env.THETA_USDC_ADDRESS?.trim();
+  const wtfuel = getToken("wtfuel")?.tnt20?.contract;
+  const tdrop = getToken("tdrop")?.tnt20?.contract;
+  if (!factory || !usdc || !wtfuel || !tdrop) return null;
+
+  const bps = Number(process.env.THETASWAP_FEE_BPS ?? 30);
+  return {
+    factory,
+    fee: Number.isFinite(bps) && bps >= 0 && bps < 10_000 ? bps / 10_000 : 0.003,
+    tokens: { tfuel: wtfuel, tdrop, usdc },
+  };
+}
+
+export function isThetaSwapConfigured(): boolean {
+  return dexConfig() != null;
+}
+
+function word(hex: string, index: number): string {
+  return hex.replace(/^0x/, "").slice(index * 64, (index + 1) * 64);
+}
+
+function wordToAddress(w: string): string {
+  return `0x${w.slice(24)}`.toLowerCase();
+}
+
+type Pair = { address: string; token0: string };
+
+// Pair addresses never change, so they're looked up once per process.
+const pairCache = new Map<string, Pair | null>();
+const decimalsCache = new Map<string, number>();
+
+async function getPair(factory: string, a: string, b: string): Promise<Pair | null> {
+  const key = [a, b].map((x) => x.toLowerCase()).sort().join(":");
+  const cached = pairCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const res = await ethCall(
+    factory,
+    `${GET_PAIR_SELECTOR}${encodeAddress(a)}${encodeAddress(b)}`,
+  );
+  const address = wordToAddress(word(res, 0));
+  let pair: Pair | null = null;
+  if (address !== ZERO_ADDRESS) {
+    const token0 = wordToAddress(word(await ethCall(address, TOKEN0_SELECTOR), 0));
+    pair = { address, token0 };
+  }
+  pairCache.set(key, pair);
+  return pair;
+}
+
+async function getDecimals(token: string): Promise<number> {
+  const cached = decimalsCache.get(token);
+  if (cached !== undefined) return cached;
+  const decimals = Number(BigInt(`0x${word(await ethCall(token, DECIMALS_SELECTOR), 0)}`));
+  decimalsCache.set(token, decimals);
+  return decimals;
+}
+
+/** Reserves of `pair` ordered as (tokenIn, tokenOut). */
+async function getReserves(pair: Pair, tokenIn: string): Promise<[bigint, bigint]> {
+  const res = await ethCall(pair.address, GET_RESERVES_SELECTOR);
+  const r0 = BigInt(`0x${word(res, 0)}`);
+  const r1 = BigInt(`0x${word(res, 1)}`);
+  return pair.token0 === tokenIn.toLowerCase() ? [r0, r1] : [r1, r0];
+}
+
+function toUnits(amount: number, decimals: number): bigint {
+  // Six decimals of input precision is plenty for a quote.
+  const micro = BigInt(Math.round(amount * 1e6));
+  return decimals >= 6
+    ? micro * BigInt(10) ** BigInt(decimals - 6)
+    : micro / BigInt(10) ** BigInt(6 - decimals);
+}
+
+export type DexQuote = {
+  /** Token symbols from input to output. */
+  path: DexToken[];
+  amountIn: number;
+  amountOut: number;
+  /** Output at the pools' current mid prices, before fees and impact. */
+  midAmountOut: number;
+  /** Pool fees across all hops, as a share of the input (0.3 = 0.3%). */
+  lpFeePct: number;
+  /** Shortfall from the mid price beyond the fees, from moving the reserves. */
+  priceImpactPct: number;
+};
+
+async function quotePath(
+  config: DexConfig,
+  path: DexToken[],
+  amount: number,
+): Promise<DexQuote | null> {
+  const addresses = path.map((t) => config.tokens[t]);
+  const feeNum = BigInt(Math.round((1 - config.fee) * 10_000));
+
+  let decimalsIn = await getDecimals(addresses[0]);
+  let amountIn = toUnits(amount, decimalsIn);
+  let mid = 1;
+
+  for (let i = 0; i < addresses.length - 1; i++) {
+    const pair = await getPair(config.factory, addresses[i], addresses[i + 1]);
+    if (!pair) return null;
+    const [reserveIn, reserveOut] = await getReserves(pair, addresses[i]);
+    if (reserveIn === BigInt(0) || reserveOut === BigInt(0)) return null;
+
+    const decimalsOut = await getDecimals(addresses[i + 1]);
+    const rIn = weiToNumber(reserveIn.toString(), decimalsIn) ?? 0;
+    const rOut = weiToNumber(reserveOut.toString(), decimalsOut) ?? 0;
+    if (rIn <= 0) return null;
+    mid *= rOut / rIn;
+
+    // Uniswap v2 getAmountOut.
+    const inWithFee = amountIn * feeNum;
+    amountIn = (inWithFee * reserveOut) / (reserveIn * BigInt(10_000) + inWithFee);
+    decimalsIn = decimalsOut;
+  }
+
+  const amountOut = weiToNumber(amountIn.toString(), decimalsIn) ?? 0;
+  const hops = path.length - 1;
+  const afterFees = amount * mid * (1 - config.fee) ** hops;
+  return {
+    path,
+    amountIn: amount,
+    amountOut,
+    midAmountOut: amount * mid,
+    lpFeePct: (1 - (1 - config.fee) ** hops) * 100,
+    priceImpactPct: afterFees > 0 ? Math.max(0, (1 - amountOut / afterFees) * 100) : 0,
+  };
+}
+
+function requireConfig(): DexConfig {
+  const config = dexConfig();
+  if (!config) {
+    throw new Error("ThetaSwap is not configured (set THETASWAP_FACTORY and THETA_USDC_ADDRESS)");
+  }
+  return config;
+}
+
+/** The direct pool and the routes through the other DEX token, each its own liquidity. */
+export function thetaSwapPaths(from: DexToken, to: DexToken): DexToken[][] {
+  if (from === to) throw new Error(`Can't swap ${tokenLabel(from)} to itself`);
+  const via = (["tfuel", "tdrop", "usdc"] as const).filter((t) => t !== from && t !== to);
+  return [[from, to], ...via.map((v) => [from, v, to])];
+}
+
+/** ThetaSwap output for `amount` along one path. Null when a pool on it is missing or empty. */
+export async function quoteThetaSwapPath(
+  path: DexToken[],
+  amount: number,
+): Promise<DexQuote | null> {
+  return quotePath(requireConfig(), path, amount);
+}
+
+/**
+ * Best ThetaSwap output for `amount` of `from`, trying the direct pool and
+ * routes through the other DEX token. Null when no pools connect the two.
+ */
+export async function quoteThetaSwap(
+  from: DexToken,
+  to: DexToken,
+  amount: number,
+): Promise<DexQuote | null> {
+  const config = requireConfig();
+  const paths = thetaSwapPaths(from, to);
+  const quotes = await Promise.all(paths.map((p) => quotePath(config, p, amount)));
+
+  return quotes.reduce<DexQuote | null>(
+    (best, q) => (q && (!best || q.amountOut > best.amountOut) ? q : best),
+    null,
+  );
+}
+
+export function parseDexToken(raw: string | null | undefined): DexToken | null {
+  const v = (raw ?? "").trim().toLowerCase();
+  if (v === "wtfuel") return "tfuel";
+  return v === "tfuel" || v === "tdrop" || v === "usdc" ? v : null;
+}
@@ -0,0 +1,83 @@
+export type ExchangeId = "binance" | "kucoin" | "gate";
+
+export type TokenConfig = {
+  symbol: string;
+  label: string;
+  /** Accent colour used for the token's rows and charts. */
+  color: string;
+  coingeckoId: string | null;
+  /** Ticker base per exchange; exchanges that don't list the token are omitted. */
+  tickers: Partial<Record<ExchangeId, string>>;
+  /** SimpleSwap currency code, or null when SimpleSwap can't swap it. */
+  simpleswapCode: string | null;
+  /** TNT-20 contract on Theta; native tokens are read from the account balance. */
+  tnt20: { contract: string; decimals: number } | null;
+  /** Price this token as another one (wrapped tokens trade at par). */
+  priceAs?: string;
+};
+
+export const TOKENS: TokenConfig[] = [
+  {
+    symbol: "tfuel",
+    label: "TFUEL",
+    color: "#ff6a00",
+    coingeckoId: "theta-fuel",
+    tickers: { binance: "TFUEL", kucoin: "TFUEL", gate: "TFUEL" },
+    simpleswapCode: "tfuel",
+    tnt20: null,
+  },
+  {
+    symbol: "theta",
+    label: "THETA",
+    color: "#14b8a6",
+    coingeckoId: "theta-token",
+    tickers: { binance: "THETA", kucoin: "THETA", gate: "THETA" },
+    simpleswapCode: "theta",
+    tnt20: null,
+  },
+  {
+    symbol: "tdrop",
+    label: "TDROP",
+    color: "#e879f9",
+    coingeckoId: "thetadrop",
+    tickers: { kucoin: "TDROP", gate: "TDROP" },
+    simpleswapCode: null,
+    tnt20: {
+      contract: "0x1336739b05c7ab8a526d40dcc0d04a826b5f8b03",
+      decimals: 18,
+    },
+  },
+  {
+    symbol: "wtfuel",
+    label: "wTFUEL",
+    color: "#fb923c",
+    coingeckoId: null,
+    tickers: {},
+    simpleswapCode: null,
+    tnt20: {
+      contract: "0x4dc08b15ea0e10b96c41aec22fab934ba15c983e",
+      decimals: 18,
+    },
+    priceAs: "tfuel",
+  },
+];
+
+export function getToken(symbol: string): TokenConfig | null {
+  const s = symbol.trim().toLowerCase();
+  return TOKENS.find((t) => t.symbol === s) ?? null;
+}
+
+/** The token whose market data prices `symbol` (follows `priceAs`). */
+export function getPricingToken(symbol: string): TokenConfig | null {
+  const token = getToken(symbol);
+  if (!token?.priceAs) return token;
+  return getToken(token.priceAs);
+}
+
+export function tokenColor(symbol: string): string {
+  return getToken(symbol)?.color ?? "#a1a1aa";
+}
+
+export function tokenLabel(symbol: string): string {
+  return getToken(symbol)?.label ?? symbol.toUpperCase();
+}
@@ -0,0 +1,85 @@
+import { fromJson, getDb, toJson } from "@/lib/db";
+
+export type TrackingSession = {
+  id: number;
+  startedAt: number;
+  endedAt: number | null;
+  /** TFUEL balance per address when tracking started. */
+  baselines: Record<string, number | null>;
+  /** Earned TFUEL per address per local day key. */
+  series: Record<string, Record<string, number>>;
+};
+
+type TrackingRow = {
+  id: number;
+  started_at: number;
+  ended_at: number | null;
+  baselines: string;
+  series: string;
+};
+
+function toSession(row: TrackingRow): TrackingSession {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    baselines: fromJson(row.baselines, {}),
+    series: fromJson(row.series, {}),
+  };
+}
+
+export function getActiveTrackingSession(): TrackingSession | null {
+  const row = getDb()
+    .prepare(
+      `SELECT id, started_at, ended_at, baselines, series FROM tracking_sessions
+       WHERE ended_at IS NULL ORDER BY started_at DESC LIMIT 1`,
+    )
+    .get() as TrackingRow | undefined;
+  return row ? toSession(row) : null;
+}
+
+/** Ends any active session and starts a new one. */
+export function startTrackingSession(input: {
+  startedAt: number;
+  baselines: TrackingSession["baselines"];
+  series: TrackingSession["series"];
+}): TrackingSession {
+  const db = getDb();
+  const now = Date.now();
+
+  const id = db.transaction(() => {
+    db.prepare(
+      `UPDATE tracking_sessions SET ended_at = ?, updated_at = ? WHERE ended_at IS NULL`,
+    ).run(now, now);
+    const result = db
+      .prepare(
+        `INSERT INTO tracking_sessions (started_at, baselines, series, updated_at)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(input.startedAt, toJson(input.baselines), toJson(input.series), now);
+    return Number(result.lastInsertRowid);
+  })();
+
+  return { id, endedAt: null, ...input };
+}
+
+export function updateTrackingSession(
+  id: number,
+  patch: Pick<TrackingSession, "baselines" | "series">,
+) {
+  getDb()
+    .prepare(
+      `UPDATE tracking_sessions SET baselines = ?, series = ?, updated_at = ?
+       WHERE id = ? AND ended_at IS NULL`,
+    )
+    .run(toJson(patch.baselines), toJson(patch.series), Date.now(), id);
+}
+
+export function endTrackingSession() {
+  const now = Date.now();
+  getDb()
+    .prepare(
+      `UPDATE tracking_sessions SET ended_at = ?, updated_at = ? WHERE ended_at IS NULL`,
+    )
+    .run(now, now);
+}
@@ -0,0 +1,126 @@
+import { errorMessage } from "@/lib/http";
+import type { RewardEntry } from "@/lib/rewardLedger";
+import {
+  getAccountTxPage,
+  incomingTfuelFor,
+  outgoingTfuelFor,
+  tfuelFeeFor,
+  txTimestamp,
+  TX_TYPE,
+} from "@/lib/thetaExplorer";
+
+/** A TFUEL movement that isn't a staking reward. Amounts are positive. */
+export type TransferEntry = {
+  hash: string;
+  /** Unix seconds. */
+  timestamp: number;
+  incoming: number;
+  outgoing: number;
+  fee: number;
+};
+
+export type DailyActivity = {
+  /** YYYY-MM-DD in the caller's timezone. */
+  day: string;
+  rewards: number;
+  transfersIn: number;
+  transfersOut: number;
+  fees: number;
+};
+
+export type ActivityTotals = Omit<DailyActivity, "day">;
+
+const PAGE_LIMIT = 50;
+const MAX_PAGES = 10;
+
+/**
+ * Send transactions touching `address` since `sinceSec`, newest first.
+ * Anything that isn't sent back to `address` itself counts as outgoing,
+ * including moves to other tracked wallets: they still leave this balance.
+ */
+export async function fetchTransfersSince(
+  address: string,
+  sinceSec: number,
+): Promise<{ transfers: TransferEntry[]; complete: boolean; error?: string }> {
+  const self = new Set([address]);
+  const transfers: TransferEntry[] = [];
+
+  try {
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const txs = await getAccountTxPage(address, TX_TYPE.send, page, PAGE_LIMIT);
+      const body = txs.body ?? [];
+
+      let reachedSince = false;
+      for (const tx of body) {
+        const timestamp = txTimestamp(tx);
+        if (!tx.hash || timestamp == null) continue;
+        if (timestamp < sinceSec) {
+          reachedSince = true;
+          break;
+        }
+
+        const entry = {
+          hash: tx.hash,
+          timestamp,
+          incoming: incomingTfuelFor(tx, address) ?? 0,
+          outgoing: outgoingTfuelFor(tx, address, self) ?? 0,
+          fee: tfuelFeeFor(tx, address) ?? 0,
+        };
+        if (entry.incoming || entry.outgoing || entry.fee) transfers.push(entry);
+      }
+
+      const totalPages = txs.totalPageNumber ?? null;
+      if (reachedSince || body.length === 0 || (totalPages != null && page >= totalPages)) {
+        return { transfers, complete: true };
+      }
+    }
+    return { transfers, complete: false };
+  } catch (e) {
+    return { transfers, complete: false, error: errorMessage(e) };
+  }
+}
+
+/** Local calendar day of `sec`, given a `Date#getTimezoneOffset()` value. */
+export function dayKeyAt(sec: number, tzOffsetMin: number): string {
+  return new Date(sec * 1000 - tzOffsetMin * 60_000).toISOString().slice(0, 10);
+}
+
+/** Rewards, transfers and fees bucketed per day, oldest day first. */
+export function dailyActivity(
+  rewards: RewardEntry[],
+  transfers: TransferEntry[],
+  tzOffsetMin: number,
+): DailyActivity[] {
+  const days = new Map<string, DailyActivity>();
+  const bucket = (sec: number) => {
+    const day = dayKeyAt(sec, tzOffsetMin);
+    let entry = days.get(day);
+    if (!entry) {
+      entry = { day, rewards: 0, transfersIn: 0, transfersOut: 0, fees: 0 };
+      days.set(day, entry);
+    }
+    return entry;
+  };
+
+  for (const r of rewards) bucket(r.timestamp).rewards += r.amount;
+  for (const t of transfers) {
+    const entry = bucket(t.timestamp);
+    entry.transfersIn += t.incoming;
+    entry.transfersOut += t.outgoing;
+    entry.fees += t.fee;
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.day.localeCompare(b.day));
+}
+
+export function activityTotals(days: DailyActivity[]): ActivityTotals {
+  return days.reduce(
+    (acc, d) => ({
+      rewards: acc.rewards + d.rewards,
+      transfersIn: acc.transfersIn + d.transfersIn,
+      transfersOut: acc.transfersOut + d.transfersOut,
+      fees: acc.fees + d.fees,
+    }),
+    { rewards: 0, transfersIn: 0, transfersOut: 0, fees: 0 },
+  );
+}
@@ -0,0 +1,237 @@
+import { fromJson, getDb, toJson } from "@/lib/db";
+import { parseWebhookFormat, type AlertEvent, type WebhookFormat } from "@/lib/alerts";
+
+export type Webhook = {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type WebhookRow = {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: number;
+  created_at: number;
+  updated_at: number;
+};
+
+function toWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    format: row.format,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listWebhooks(): Webhook[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM webhooks ORDER BY created_at ASC`)
+    .all() as WebhookRow[];
+  return rows.map(toWebhook);
+}
+
+export function getWebhook(id: number): Webhook | null {
+  const row = getDb().prepare(`SELECT * FROM webhooks WHERE id = ?`).get(id) as
+    | WebhookRow
+    | undefined;
+  return row ? toWebhook(row) : null;
+}
+
+export type WebhookInput = Pick<Webhook, "name" | "url" | "format" | "enabled">;
+
+/** Validates a create/update request body; only http(s) URLs are accepted. */
+export function parseWebhookInput(body: Record<string, unknown> | null): WebhookInput | null {
+  if (!body || typeof body.url !== "string") return null;
+
+  let url: URL;
+  try {
+    url = new URL(body.url.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+
+  const format = parseWebhookFormat(body.format);
+  if (!format) return null;
+
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim() : url.host;
+  return {
+    name: name.slice(0, 80),
+    url: url.toString(),
+    format,
+    enabled: typeof body.enabled === "boolean" ? body.enabled : true,
+  };
+}
+
+export function createWebhook(input: WebhookInput): Webhook {
+  const now = Date.now();
+  const row = getDb()
+    .prepare(
+      `INSERT INTO webhooks (name, url, format, enabled, created_at, updated_at)
+       VALUES (@name, @url, @format, @enabled, @now, @now)
+       RETURNING *`,
+    )
+    .get({ ...input, enabled: input.enabled ? 1 : 0, now }) as WebhookRow;
+  return toWebhook(row);
+}
+
+export function updateWebhook(id: number, input: WebhookInput): Webhook | null {
+  const row = getDb()
+    .prepare(
+      `UPDATE webhooks SET name = @name, url = @url, format = @format,
+         enabled = @enabled, updated_at = @now
+       WHERE id = @id
+       RETURNING *`,
+    )
+    .get({ ...input, id, enabled: input.enabled ? 1 : 0, now: Date.now() }) as
+    | WebhookRow
+    | undefined;
+  return row ? toWebhook(row) : null;
+}
+
+export function deleteWebhook(id: number): boolean {
+  return getDb().prepare(`DELETE FROM webhooks WHERE id = ?`).run(id).changes > 0;
+}
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookDelivery = {
+  id: number;
+  webhookId: number;
+  alertId: string | null;
+  event: AlertEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  /** HTTP status of the last attempt; null when it never got a response. */
+  lastStatus: number | null;
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+};
+
+type DeliveryRow = {
+  id: number;
+  webhook_id: number;
+  alert_id: string | null;
+  event: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: number | null;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+};
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    alertId: row.alert_id,
+    event: fromJson<AlertEvent>(row.event, {
+      alertId: row.alert_id,
+      kind: "test",
+      title: "",
+      message: "",
+      firedAt: row.created_at,
+    }),
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastStatus: row.last_status,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+/** Queues `event` for each webhook; delivery happens on the next processing pass. */
+export function enqueueDeliveries(event: AlertEvent, webhookIds: number[]): number[] {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT INTO webhook_deliveries
+       (webhook_id, alert_id, event, status, attempts, next_attempt_at, created_at)
+     VALUES (?, ?, ?, 'pending', 0, ?, ?)`,
+  );
+  const now = Date.now();
+  return db.transaction(() =>
+    webhookIds.map(
+      (id) => Number(insert.run(id, event.alertId, toJson(event), now, now).lastInsertRowid),
+    ),
+  )();
+}
+
+/**
+ * Takes due deliveries (or just `onlyId`) for sending by pushing their next
+ * attempt `leaseMs` out, so an overlapping pass can't pick the same rows.
+ * Recording the attempt replaces the lease; a crash mid-send just retries later.
+ */
+export function claimDueDeliveries(
+  now: number,
+  limit: number,
+  leaseMs: number,
+  onlyId?: number,
+): WebhookDelivery[] {
+  const rows = getDb()
+    .prepare(
+      `UPDATE webhook_deliveries SET next_attempt_at = @leaseUntil
+       WHERE id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= @now
+           AND (@onlyId IS NULL OR id = @onlyId)
+         ORDER BY next_attempt_at ASC LIMIT @limit
+       )
+       RETURNING *`,
+    )
+    .all({ now, limit, leaseUntil: now + leaseMs, onlyId: onlyId ?? null }) as DeliveryRow[];
+  return rows.map(toDelivery).sort((a, b) => a.id - b.id);
+}
+
+export function getDelivery(id: number): WebhookDelivery | null {
+  const row = getDb().prepare(`SELECT * FROM webhook_deliveries WHERE id = ?`).get(id) as
+    | DeliveryRow
+    | undefined;
+  return row ? toDelivery(row) : null;
+}
+
+/** Newest first. */
+export function listDeliveries(limit: number): WebhookDelivery[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM webhook_deliveries ORDER BY id DESC LIMIT ?`)
+    .all(limit) as DeliveryRow[];
+  return rows.map(toDelivery);
+}
+
+export function recordDeliveryAttempt(
+  id: number,
+  result: {
+    status: DeliveryStatus;
+    httpStatus: number | null;
+    error: string | null;
+    nextAttemptAt: number | null;
+  },
+) {
+  getDb()
+    .prepare(
+      `UPDATE webhook_deliveries SET
+         status = @status,
+         attempts = attempts + 1,
+         next_attempt_at = @nextAttemptAt,
+         last_status = @httpStatus,
+         last_error = @error,
+         delivered_at = CASE WHEN @status = 'delivered' THEN @now ELSE delivered_at END
+       WHERE id = @id`,
+    )
+    .run({ ...result, id, now: Date.now() });
+}
@@ -0,0 +1,98 @@
+import type { AlertEvent, WebhookFormat } from "@/lib/alerts";
+import { errorMessage } from "@/lib/http";
+import {
+  claimDueDeliveries,
+  getWebhook,
+  recordDeliveryAttempt,
+  type WebhookDelivery,
+} from "@/lib/webhookStore";
+
+// Waits before each retry; a delivery fails for good once these run out.
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+const REQUEST_TIMEOUT_MS = 10_000;
+const BATCH_SIZE = 20;
+// Long enough to cover a whole batch of timed-out requests.
+const CLAIM_LEASE_MS = BATCH_SIZE * REQUEST_TIMEOUT_MS;
+
+/** Request body in the shape each kind of endpoint expects. */
+export function formatWebhookBody(format: WebhookFormat, event: AlertEvent): unknown {
+  switch (format) {
+    case "discord":
+      return {
+        username: "TFUEL Tracker",
+        embeds: [
+          {
+            title: event.title,
+            description: event.message,
+            timestamp: new Date(event.firedAt).toISOString(),
+            color: 0xff6a00,
+          },
+        ],
+      };
+    case "slack":
+      return { text: `*${event.title}*\n${event.message}` };
+    case "json":
+      return event;
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDelivery) {
+  const webhook = getWebhook(delivery.webhookId);
+  if (!webhook) return;
+  if (!webhook.enabled) {
+    recordDeliveryAttempt(delivery.id, {
+      status: "failed",
+      httpStatus: null,
+      error: "Webhook disabled",
+      nextAttemptAt: null,
+    });
+    return;
+  }
+
+  let httpStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(formatWebhookBody(webhook.format, delivery.event)),
+      cache: "no-store",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    httpStatus = res.status;
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "");
+      error = txt ? `HTTP ${res.status}: ${txt.slice(0, 300)}` : `HTTP ${res.status}`;
+    }
+  } catch (e) {
+    error = errorMessage(e);
+  }
+
+  if (error == null) {
+    recordDeliveryAttempt(delivery.id, {
+      status: "delivered",
+      httpStatus,
+      error: null,
+      nextAttemptAt: null,
+    });
+    return;
+  }
+
+  const delay = RETRY_DELAYS_MS[delivery.attempts];
+  recordDeliveryAttempt(delivery.id, {
+    status: delay == null ? "failed" : "pending",
+    httpStatus,
+    error,
+    nextAttemptAt: delay == null ? null : Date.now() + delay,
+  });
+}
+
+/**
+ * Sends every delivery that is due, one at a time, or only `onlyId` when
+ * given. Returns how many were attempted.
+ */
+export async function processWebhookDeliveries(onlyId?: number): Promise<number> {
+  const due = claimDueDeliveries(Date.now(), BATCH_SIZE, CLAIM_LEASE_MS, onlyId);
+  for (const delivery of due) await attemptDelivery(delivery);
+  return due.length;
+}